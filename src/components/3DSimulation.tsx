@@ -1,6 +1,6 @@
 import React, { Suspense, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Text, Box, Sphere } from '@react-three/drei';
+import { OrbitControls, Text, Box, Sphere, Cone, Line } from '@react-three/drei';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,15 +13,32 @@ import {
   Users
 } from 'lucide-react';
 import * as THREE from 'three';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { usePlayback } from '@/hooks/use-playback';
+import { useIncidents } from '@/hooks/use-incidents';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import type { CrowdSnapshot } from '@/lib/crowd/store';
+import type { LngLat } from '@/lib/geo/projection';
+import { toSitePlan } from '@/lib/geo/site-plan';
+import { EDGES, getNode, getOtherEnd } from '@/lib/simulation/network';
+import { findRoadRules, restrictedEdges, type RoadRules } from '@/lib/simulation/road-rules';
 
-// Animated crowd particles
-const CrowdParticle = ({ position, color, speed }: { position: [number, number, number], color: string, speed: number }) => {
+// Maps a coordinate through the shared site plan onto a 4 x 2 patch of the ground plane
+const toScenePosition = (lngLat: LngLat): [number, number, number] => {
+  const { x, y } = toSitePlan(lngLat);
+  return [(x - 50) / 25, 0, (y - 50) / 50];
+};
+
+// Simulated pilgrims, easing towards their latest position
+const CrowdParticle = ({ position, color }: { position: [number, number, number], color: string }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const target = new THREE.Vector3(...position);
   
-  useFrame((state) => {
+  useFrame((_, delta) => {
     if (meshRef.current) {
-      meshRef.current.position.x += Math.sin(state.clock.elapsedTime * speed) * 0.001;
-      meshRef.current.position.z += Math.cos(state.clock.elapsedTime * speed) * 0.001;
+      meshRef.current.position.lerp(target, Math.min(1, delta * 3));
     }
   });
 
@@ -66,17 +83,80 @@ const LocationMarker = ({ position, label, riskLevel }: {
   );
 };
 
+// Beacon over a zone with open incidents, pulsing so it stands out from the risk markers
+const IncidentMarker = ({ position, count }: { position: [number, number, number], count: number }) => {
+  const beaconRef = useRef<THREE.Mesh>(null);
+
+  useFrame(({ clock }) => {
+    if (beaconRef.current) {
+      beaconRef.current.scale.setScalar(1 + 0.25 * Math.sin(clock.elapsedTime * 4));
+    }
+  });
+
+  return (
+    <group position={position}>
+      <Cone args={[0.04, 0.1, 12]} position={[0, 0.3, 0]} rotation={[Math.PI, 0, 0]}>
+        <meshStandardMaterial color="#dc2626" />
+      </Cone>
+      <Sphere ref={beaconRef} args={[0.035, 12, 12]} position={[0, 0.4, 0]}>
+        <meshStandardMaterial color="#ef4444" emissive="#ef4444" emissiveIntensity={0.8} />
+      </Sphere>
+      {count > 1 && (
+        <Text position={[0, 0.5, 0]} fontSize={0.05} color="#dc2626" anchorX="center" anchorY="middle">
+          {count}
+        </Text>
+      )}
+    </group>
+  );
+};
+
+// Restricted road between its ends: a barrier across a closed road, an arrow along a one-way one
+const RoadRuleMarker = ({ from, to, kind }: {
+  from: [number, number, number],
+  to: [number, number, number],
+  kind: 'closed' | 'one-way' | 'limited'
+}) => {
+  const color = kind === 'closed' ? '#dc2626' : kind === 'one-way' ? '#2563eb' : '#f59e0b';
+  const middle: [number, number, number] = [(from[0] + to[0]) / 2, 0.04, (from[2] + to[2]) / 2];
+  const heading = Math.atan2(to[2] - from[2], to[0] - from[0]);
+
+  return (
+    <group>
+      <Line
+        points={[[from[0], 0.01, from[2]], [to[0], 0.01, to[2]]]}
+        color={color}
+        lineWidth={3}
+        dashed={kind === 'limited'}
+        dashSize={0.06}
+        gapSize={0.04}
+      />
+      {kind === 'closed' && (
+        <Box args={[0.02, 0.06, 0.14]} position={middle} rotation={[0, -heading, 0]}>
+          <meshStandardMaterial color={color} />
+        </Box>
+      )}
+      {kind === 'one-way' && (
+        <Cone args={[0.03, 0.08, 12]} position={middle} rotation={[0, -heading, -Math.PI / 2]}>
+          <meshStandardMaterial color={color} />
+        </Cone>
+      )}
+    </group>
+  );
+};
+
 // Heat zone visualization
-const HeatZone = ({ center, radius, intensity }: { 
+const HeatZone = ({ center, radius, riskLevel }: { 
   center: [number, number, number], 
   radius: number, 
-  intensity: number 
+  riskLevel: string 
 }) => {
   const getColor = () => {
-    if (intensity < 0.25) return '#10b981';
-    if (intensity < 0.5) return '#f59e0b';
-    if (intensity < 0.75) return '#f97316';
-    return '#ef4444';
+    switch (riskLevel) {
+      case 'low': return '#10b981';
+      case 'medium': return '#f59e0b';
+      case 'high': return '#f97316';
+      default: return '#ef4444';
+    }
   };
 
   return (
@@ -92,34 +172,54 @@ const HeatZone = ({ center, radius, intensity }: {
 };
 
 // Main 3D Scene
-const Scene3D = () => {
-  // Sample data for visualization
-  const locations = [
-    { position: [-1, 0, -1] as [number, number, number], label: 'Ramkund', riskLevel: 'high' },
-    { position: [1, 0, -1] as [number, number, number], label: 'Triveni', riskLevel: 'critical' },
-    { position: [0, 0, 1] as [number, number, number], label: 'Kalaram', riskLevel: 'medium' },
-    { position: [-1.5, 0, 0.5] as [number, number, number], label: 'Sita Gufha', riskLevel: 'low' }
-  ];
+const Scene3D = ({ snapshot, incidentZones, roadRules }: {
+  snapshot: CrowdSnapshot,
+  incidentZones: ZoneId[],
+  roadRules: RoadRules
+}) => {
+  const locations = snapshot.zones.map(reading => {
+    const zone = getZone(reading.zoneId);
+    return {
+      position: toScenePosition(zone.center),
+      label: zone.shortName,
+      riskLevel: reading.level
+    };
+  });
+
+  const heatZones = snapshot.zones.map(reading => ({
+    center: toScenePosition(getZone(reading.zoneId).center),
+    radius: 0.05 + (reading.intensity / 100) * 0.1,
+    riskLevel: reading.level
+  }));
 
-  const heatZones = [
-    { center: [-1, 0, -1] as [number, number, number], radius: 0.3, intensity: 0.8 },
-    { center: [1, 0, -1] as [number, number, number], radius: 0.4, intensity: 0.95 },
-    { center: [0, 0, 1] as [number, number, number], radius: 0.25, intensity: 0.6 },
-    { center: [-1.5, 0, 0.5] as [number, number, number], radius: 0.2, intensity: 0.3 }
-  ];
+  const incidentMarkers = Array.from(new Set(incidentZones), zoneId => ({
+    zoneId,
+    position: toScenePosition(getZone(zoneId).center),
+    count: incidentZones.filter(id => id === zoneId).length
+  }));
+
+  // One-way roads run from the end pilgrims leave to the end they walk towards
+  const roadMarkers = restrictedEdges(roadRules).map(index => {
+    const edge = EDGES[index];
+    const towards = roadRules.closed.has(index) ? undefined : roadRules.oneWay.get(index);
+    const kind = roadRules.closed.has(index) ? 'closed' as const : towards !== undefined ? 'one-way' as const : 'limited' as const;
+    const to = towards ?? edge.to;
+    return {
+      index,
+      kind,
+      from: toScenePosition(getNode(getOtherEnd(edge, to)).position),
+      to: toScenePosition(getNode(to).position)
+    };
+  });
 
-  // Generate crowd particles
+  // Sampled agents from the crowd model, packed as [lon, lat, load] triples
   const crowdParticles = [];
-  for (let i = 0; i < 200; i++) {
-    const x = (Math.random() - 0.5) * 4;
-    const z = (Math.random() - 0.5) * 4;
-    const y = 0.02;
-    const intensity = Math.abs(x) + Math.abs(z) < 1.5 ? 0.8 : 0.3;
-    const color = intensity > 0.6 ? '#ef4444' : '#10b981';
+  for (let i = 0; i < snapshot.particles.length; i += 3) {
+    const [x, , z] = toScenePosition([snapshot.particles[i], snapshot.particles[i + 1]]);
+    const load = snapshot.particles[i + 2];
     crowdParticles.push({
-      position: [x, y, z] as [number, number, number],
-      color,
-      speed: Math.random() * 2 + 1
+      position: [x, 0.02, z] as [number, number, number],
+      color: load > 0.75 ? '#ef4444' : load > 0.5 ? '#f97316' : load > 0.25 ? '#f59e0b' : '#10b981'
     });
   }
 
@@ -145,13 +245,23 @@ const Scene3D = () => {
         />
       ))}
 
+      {/* Open incidents */}
+      {incidentMarkers.map(marker => (
+        <IncidentMarker key={marker.zoneId} position={marker.position} count={marker.count} />
+      ))}
+
+      {/* Road closures in force */}
+      {roadMarkers.map(marker => (
+        <RoadRuleMarker key={marker.index} from={marker.from} to={marker.to} kind={marker.kind} />
+      ))}
+
       {/* Heat zones */}
       {heatZones.map((zone, index) => (
         <HeatZone
           key={index}
           center={zone.center}
           radius={zone.radius}
-          intensity={zone.intensity}
+          riskLevel={zone.riskLevel}
         />
       ))}
 
@@ -161,7 +271,6 @@ const Scene3D = () => {
           key={index}
           position={particle.position}
           color={particle.color}
-          speed={particle.speed}
         />
       ))}
 
@@ -180,6 +289,16 @@ const Scene3D = () => {
 const Simulation3D = () => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [view, setView] = useState<'overview' | 'heatmap' | 'crowd'>('overview');
+  const snapshot = useCrowdSnapshot();
+  const { running } = useSimulationClock();
+  const { source, params } = useSimulationRuntime();
+  const { playing } = usePlayback();
+  const { incidents } = useIncidents();
+  const incidentZones = incidents
+    .filter(incident => incident.status !== 'resolved')
+    .map(incident => incident.zoneId);
+  // Keep animating while the live feed or a playback is moving the particles
+  const isAnimating = running || playing;
 
   return (
     <Card className={isFullscreen ? 'fixed inset-4 z-50' : ''}>
@@ -191,7 +310,7 @@ const Simulation3D = () => {
           </CardTitle>
           <div className="flex items-center gap-2">
             <Badge variant="secondary" className="bg-kumbh-saffron/10">
-              Real-time
+              {playing ? 'Playback' : running ? 'Real-time' : 'Paused'}
             </Badge>
             <Button
               variant="outline"
@@ -238,9 +357,13 @@ const Simulation3D = () => {
         <div className={`bg-gradient-to-br from-background to-accent/20 rounded-lg border overflow-hidden ${
           isFullscreen ? 'h-[calc(100vh-200px)]' : 'h-96'
         }`}>
-          <Canvas camera={{ position: [3, 3, 3], fov: 60 }}>
+          <Canvas camera={{ position: [3, 3, 3], fov: 60 }} frameloop={isAnimating ? 'always' : 'demand'}>
             <Suspense fallback={null}>
-              <Scene3D />
+              <Scene3D
+                snapshot={snapshot}
+                incidentZones={incidentZones}
+                roadRules={findRoadRules(params.closures, snapshot.timestamp)}
+              />
             </Suspense>
           </Canvas>
         </div>
@@ -268,11 +391,15 @@ const Simulation3D = () => {
         {/* Stats */}
         <div className="mt-4 grid grid-cols-3 gap-4 text-center">
           <div>
-            <div className="text-2xl font-bold text-kumbh-spiritual-blue">226K</div>
-            <div className="text-sm text-muted-foreground">Total Simulated</div>
+            <div className="text-2xl font-bold text-kumbh-spiritual-blue">
+              {Math.round(snapshot.total / 1000)}K
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {source === 'observed' ? 'Total Recorded' : 'Total Simulated'}
+            </div>
           </div>
           <div>
-            <div className="text-2xl font-bold text-kumbh-deep-saffron">8</div>
+            <div className="text-2xl font-bold text-kumbh-deep-saffron">{snapshot.zones.length}</div>
             <div className="text-sm text-muted-foreground">Active Zones</div>
           </div>
           <div>
@@ -14,6 +14,14 @@ import {
   VolumeX,
   Sparkles
 } from 'lucide-react';
+import { ZONES, getZone, type Zone, type ZoneKind } from '@/lib/crowd/zones';
+import { DEFAULT_ROUTE_START, getRouteConditions } from '@/lib/routing/guidance';
+import { describeRoute, formatDistance, formatDuration, planRoute, planRouteToNearest } from '@/lib/routing/planner';
+import { getNode } from '@/lib/simulation/network';
+import { dispatchNearest, estimateArrivals } from '@/lib/resources/store';
+import { getUnit, type UnitType } from '@/lib/resources/units';
+import { reportIncident } from '@/lib/incidents/store';
+import { getClockState } from '@/lib/simulation/clock';
 
 interface Message {
   id: string;
@@ -22,6 +30,87 @@ interface Message {
   timestamp: Date;
 }
 
+const ROUTE_WORDS = ['route', 'way to', 'get to', 'reach', 'go to', 'direction'];
+const EMERGENCY_WORDS = ['emergency', 'help', 'ambulance', 'police', 'injur', 'hurt', 'accident'];
+const PLACE_KINDS: ZoneKind[] = ['ghat', 'temple'];
+// Who incidents raised from the chat are logged against
+const ASSISTANT_REPORTER = 'AI Assistant';
+
+const toMinutes = (seconds: number) => Math.max(1, Math.round(seconds / 60));
+
+// Zones named in a question, in the order they are mentioned
+const findMentionedZones = (text: string) =>
+  ZONES.map(zone => ({
+    zone,
+    index: Math.max(text.indexOf(zone.name.toLowerCase()), text.indexOf(zone.shortName.toLowerCase()))
+  }))
+    .filter(mention => mention.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+// Answers with the planner's route through the current crowd, from the main bus stand unless a start is named
+const routeResponse = (question: string) => {
+  const text = question.toLowerCase();
+  const mentions = findMentionedZones(text);
+  const fromIndex = text.indexOf('from ');
+  const start: Zone | undefined = fromIndex >= 0
+    ? mentions.find(mention => mention.index > fromIndex)?.zone
+    : mentions.length > 1 ? mentions[0].zone : undefined;
+  const zones = mentions.map(mention => mention.zone);
+  const destination = zones.find(zone => zone !== start);
+  const from = start?.id ?? DEFAULT_ROUTE_START;
+  const conditions = getRouteConditions();
+  const kind = PLACE_KINDS.find(candidate => text.includes(candidate));
+
+  const plan = destination
+    ? planRoute(from, destination.id, conditions)
+    : text.includes('safe') && !kind
+      ? planRouteToNearest(from, conditions)
+      : planRouteToNearest(from, conditions, kind ?? 'ghat');
+  if (!plan) {
+    return destination
+      ? `Every route to ${destination.name} is closed right now. Please follow the instructions of police and volunteers on the ground.`
+      : 'Every route from there is closed right now. Please follow the instructions of police and volunteers on the ground.';
+  }
+
+  const alternative = plan.alternatives[0];
+  return [
+    `The quickest way from ${getZone(from).name} to ${getNode(plan.to).name} right now is via ${describeRoute(plan.best)}: about ${formatDuration(plan.best.seconds)} on foot (${formatDistance(plan.best.lengthM)}) at current crowd levels.`,
+    alternative && `If that gets busy, the route via ${describeRoute(alternative)} takes about ${formatDuration(alternative.seconds)}.`,
+    !start && 'Tell me where you are starting from for a more precise route.'
+  ].filter(Boolean).join(' ');
+};
+
+// Reports an incident in the named zone and dispatches the nearest free unit, routed through the
+// current crowd; without a zone, answers with how soon help could arrive
+const emergencyResponse = (question: string) => {
+  const text = question.toLowerCase();
+  const police = text.includes('police');
+  const types: UnitType[] = police ? ['police'] : ['medical', 'police'];
+  const zone = findMentionedZones(text)[0]?.zone;
+
+  if (!zone) {
+    const minutes = ZONES.map(candidate => estimateArrivals(candidate.id, types)[0])
+      .filter(Boolean)
+      .map(arrival => toMinutes(arrival.seconds));
+    if (minutes.length === 0) {
+      return 'All response units are committed right now. Please call 108 and move to the nearest safe zone marked in green on your map.';
+    }
+    return `Emergency services are standing by. Tell me which ghat or area you are in and I will find the nearest unit. At current crowd levels help can reach you in ${Math.min(...minutes)}-${Math.max(...minutes)} minutes.`;
+  }
+
+  const time = getClockState().time;
+  const incident = reportIncident(
+    { zoneId: zone.id, kind: police ? 'crowd-control' : 'medical', priority: 'high', description: question.trim() },
+    time,
+    ASSISTANT_REPORTER
+  );
+  if (estimateArrivals(zone.id).length === 0) {
+    return `Your report ${incident.id} is with the control room, but no response unit is free to reach ${zone.name} right now. Please call 108 and move to the nearest safe zone marked in green on your map.`;
+  }
+  const nearest = dispatchNearest(incident.id, time, ASSISTANT_REPORTER);
+  return `Emergency services have been alerted (${incident.id}). Please move to the nearest safe zone marked in green on your map. ${getUnit(nearest.unitId).callSign} will reach ${zone.name} in about ${toMinutes(nearest.seconds)} minutes.`;
+};
+
 const AIAssistant = () => {
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -47,11 +136,8 @@ const AIAssistant = () => {
   }, [messages]);
 
   const predefinedResponses = [
-    "Based on current crowd density data, I recommend taking the alternative route via Godavari Ghat which has 40% less congestion right now.",
     "The risk level at Triveni Sangam is currently HIGH. I suggest visiting between 10-11 AM or after 6 PM for safer conditions.",
-    "Emergency services have been alerted. Please move to the nearest safe zone marked in green on your map. Help will arrive in 8-10 minutes.",
-    "The best bathing time today is 6:30 AM when crowd density will be at its lowest. Would you like me to set a reminder?",
-    "I've analyzed the crowd flow patterns. The shortest route to your destination will take approximately 25 minutes considering current conditions."
+    "The best bathing time today is 6:30 AM when crowd density will be at its lowest. Would you like me to set a reminder?"
   ];
 
   const handleSendMessage = () => {
@@ -64,6 +150,7 @@ const AIAssistant = () => {
       timestamp: new Date()
     };
 
+    const question = input;
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsTyping(true);
@@ -73,7 +160,11 @@ const AIAssistant = () => {
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: predefinedResponses[Math.floor(Math.random() * predefinedResponses.length)],
+        content: ROUTE_WORDS.some(word => question.toLowerCase().includes(word))
+          ? routeResponse(question)
+          : EMERGENCY_WORDS.some(word => question.toLowerCase().includes(word))
+            ? emergencyResponse(question)
+            : predefinedResponses[Math.floor(Math.random() * predefinedResponses.length)],
         timestamp: new Date()
       };
       setMessages(prev => [...prev, assistantMessage]);
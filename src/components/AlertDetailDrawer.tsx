@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Check, CheckCircle2 } from 'lucide-react';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { getCrowdHistory } from '@/lib/crowd/store';
+import { getZone } from '@/lib/crowd/zones';
+import { DEFAULT_OPERATOR, acknowledgeAlert, resolveAlert, type Alert, type AlertEvent } from '@/lib/alerts/engine';
+import { ALERT_METRICS, formatMetric } from '@/lib/alerts/rules';
+
+interface AlertDetailDrawerProps {
+  alert: Alert | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Minutes of zone density shown either side of the moment the alert fired
+const CHART_WINDOW_MINUTES = 30;
+
+const densityConfig = {
+  density: { label: 'Density (p/m²)', color: 'hsl(var(--kumbh-river-blue))' }
+} satisfies ChartConfig;
+
+const EVENT_LABELS: Record<AlertEvent['kind'], string> = {
+  raised: 'Raised',
+  escalated: 'Escalated',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved'
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const AlertDetailDrawer = ({ alert, onOpenChange }: AlertDetailDrawerProps) => {
+  // Re-renders as new snapshots extend the window after the alert
+  const snapshot = useCrowdSnapshot();
+  const thresholds = useDensityThresholds();
+  const clock = useSimulationClock();
+
+  const densities = useMemo(() => {
+    if (!alert) return [];
+    const from = alert.raisedAt - CHART_WINDOW_MINUTES * 60000;
+    const until = alert.raisedAt + CHART_WINDOW_MINUTES * 60000;
+    return getCrowdHistory()
+      .filter(entry => entry.timestamp >= from && entry.timestamp <= until && entry.timestamp <= snapshot.timestamp)
+      .flatMap(entry => {
+        const reading = entry.zones.find(zone => zone.zoneId === alert.zoneId);
+        return reading ? [{ time: entry.timestamp, density: reading.density }] : [];
+      });
+  }, [alert, snapshot]);
+
+  return (
+    <Drawer open={alert !== null} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        {alert && (
+          <div className="mx-auto w-full max-w-4xl max-h-[80vh] overflow-y-auto">
+            <DrawerHeader>
+              <DrawerTitle className="flex items-center gap-2">
+                {alert.title}
+                <Badge variant="outline" className="capitalize">{alert.severity}</Badge>
+                <Badge variant="secondary" className="capitalize">{alert.status}</Badge>
+              </DrawerTitle>
+              <DrawerDescription>
+                {getZone(alert.zoneId).name} · {ALERT_METRICS[alert.metric].label} threshold{' '}
+                {formatMetric(alert.metric, alert.threshold)} · peak {formatMetric(alert.metric, alert.peakValue)}
+              </DrawerDescription>
+            </DrawerHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 px-4">
+              <div className="space-y-3">
+                <h4 className="font-medium text-sm">Timeline</h4>
+                <ol className="space-y-3 border-l pl-4">
+                  {alert.timeline.map((event, index) => (
+                    <li key={index} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{EVENT_LABELS[event.kind]}</span>
+                        <span className="text-xs text-muted-foreground">{formatTime(event.time)}</span>
+                        <Badge variant="outline" className="capitalize text-xs">{event.severity}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatMetric(alert.metric, event.value)}
+                        {event.by && ` · by ${event.by}`}
+                        {event.note && ` · ${event.note}`}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-muted-foreground">
+                  {alert.acknowledgedBy
+                    ? `Acknowledged by ${alert.acknowledgedBy} at ${formatTime(alert.acknowledgedAt ?? alert.updatedAt)}`
+                    : 'Not acknowledged'}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="font-medium text-sm">
+                  {getZone(alert.zoneId).shortName} density, {CHART_WINDOW_MINUTES} min either side
+                </h4>
+                {densities.length > 1 ? (
+                  <ChartContainer config={densityConfig} className="aspect-auto h-56 w-full">
+                    <LineChart data={densities} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={formatTime}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis width={36} tickLine={false} axisLine={false} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => formatTime(Number(payload[0]?.payload.time))}
+                          />
+                        }
+                      />
+                      <ReferenceLine x={alert.raisedAt} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                      <ReferenceLine y={thresholds.critical} stroke="#ef4444" strokeOpacity={0.5} />
+                      <Line
+                        dataKey="density"
+                        type="monotone"
+                        stroke="var(--color-density)"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    The crowd history no longer covers this alert; it restarts with each run.
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Dashed line: alert raised. Solid line: critical density ({thresholds.critical} p/m²).
+                </p>
+              </div>
+            </div>
+
+            <DrawerFooter className="flex-row justify-end">
+              {alert.status === 'active' && (
+                <Button variant="outline" onClick={() => acknowledgeAlert(alert.id, DEFAULT_OPERATOR, clock.time)}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+              {alert.status !== 'resolved' && (
+                <Button variant="outline" onClick={() => resolveAlert(alert.id, DEFAULT_OPERATOR, clock.time)}>
+                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                  Resolve
+                </Button>
+              )}
+              <DrawerClose asChild>
+                <Button variant="sacred">Close</Button>
+              </DrawerClose>
+            </DrawerFooter>
+          </div>
+        )}
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default AlertDetailDrawer;
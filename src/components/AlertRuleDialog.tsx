@@ -0,0 +1,287 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { ZONES } from '@/lib/crowd/zones';
+import {
+  ALERT_METRICS,
+  DEFAULT_ALERT_RULES,
+  SEVERITIES,
+  alertRuleFormSchema,
+  fromAlertRuleForm,
+  saveAlertRule,
+  toAlertRuleForm,
+  type AlertMetric,
+  type AlertRule,
+  type AlertRuleForm
+} from '@/lib/alerts/rules';
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The rule to edit, or null to add a new one
+  rule: AlertRule | null;
+}
+
+const NEW_RULE: AlertRuleForm = { ...toAlertRuleForm(DEFAULT_ALERT_RULES[0]), name: '' };
+
+const AlertRuleDialog = ({ open, onOpenChange, rule }: AlertRuleDialogProps) => {
+  const form = useForm<AlertRuleForm>({
+    resolver: zodResolver(alertRuleFormSchema),
+    defaultValues: rule ? toAlertRuleForm(rule) : NEW_RULE
+  });
+  const metric = form.watch('metric');
+  const densityLevel = form.watch('densityLevel');
+  const thresholds = useDensityThresholds();
+  const followsLevel = metric === 'density' && densityLevel !== 'fixed';
+
+  useEffect(() => {
+    if (open) {
+      form.reset(rule ? toAlertRuleForm(rule) : NEW_RULE);
+    }
+  }, [open, rule, form]);
+
+  const handleSubmit = (values: AlertRuleForm) => {
+    saveAlertRule(fromAlertRuleForm(values, rule ?? undefined));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Alert Rule' : 'New Alert Rule'}</DialogTitle>
+          <DialogDescription>
+            Every zone the rule watches is checked on each update of the crowd feed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Crush density" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="metric"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Measure</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => field.onChange(value as AlertMetric)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(key => (
+                          <SelectItem key={key} value={key}>{ALERT_METRICS[key].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {metric !== 'time-to-critical' && (
+                <FormField
+                  control={form.control}
+                  name="comparison"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Condition</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="above">Above</SelectItem>
+                          <SelectItem value="below">Below</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Threshold ({ALERT_METRICS[metric].unit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" disabled={followsLevel} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {metric === 'density' && (
+              <FormField
+                control={form.control}
+                name="densityLevel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow Density Level</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="fixed">No, use the threshold above</SelectItem>
+                        <SelectItem value="medium">Medium, from {thresholds.medium} p/m²</SelectItem>
+                        <SelectItem value="high">High, from {thresholds.high} p/m²</SelectItem>
+                        <SelectItem value="critical">Critical, from {thresholds.critical} p/m²</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>A level keeps up with the density thresholds in force</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="sustainMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Holds For (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormDescription>0 raises on the first breach</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="capitalize">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SEVERITIES.map(severity => (
+                          <SelectItem key={severity} value={severity} className="capitalize">
+                            {severity}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="escalateAfterMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Escalate After (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormDescription>0 never escalates</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="zoneIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Zones</FormLabel>
+                  <FormDescription>Leave all unticked to watch every zone</FormDescription>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {ZONES.map(zone => (
+                      <label key={zone.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(zone.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, zone.id] : field.value.filter(id => id !== zone.id)
+                            )
+                          }
+                        />
+                        {zone.name}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="sacred">
+                Save Rule
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertRuleDialog;
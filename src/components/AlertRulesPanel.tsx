@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { BellRing, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import AlertRuleDialog from '@/components/AlertRuleDialog';
+import { useAlertRules } from '@/hooks/use-alerts';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { getZone } from '@/lib/crowd/zones';
+import {
+  deleteAlertRule,
+  describeRule,
+  resetAlertRules,
+  setAlertRuleEnabled,
+  type AlertRule
+} from '@/lib/alerts/rules';
+
+const AlertRulesPanel = () => {
+  const rules = useAlertRules();
+  const thresholds = useDensityThresholds();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-kumbh-saffron" />
+            Alert Rules
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={resetAlertRules}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Defaults
+            </Button>
+            <Button variant="sacred" size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">No rules: no alerts will be raised.</p>
+        )}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-4 p-3 rounded-lg border bg-card/50">
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(enabled) => setAlertRuleEnabled(rule.id, enabled)}
+              aria-label={`${rule.enabled ? 'Disable' : 'Enable'} ${rule.name}`}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm">{rule.name}</span>
+                <Badge variant="outline" className="capitalize text-xs">{rule.severity}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {describeRule(rule, thresholds)}
+                {rule.escalateAfterMinutes !== null && `, escalating every ${rule.escalateAfterMinutes} min`}
+                {' · '}
+                {rule.zoneIds ? rule.zoneIds.map(id => getZone(id).shortName).join(', ') : 'All zones'}
+              </p>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => openDialog(rule)} aria-label={`Edit ${rule.name}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteAlertRule(rule.id)}
+              aria-label={`Delete ${rule.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertRuleDialog open={dialogOpen} onOpenChange={setDialogOpen} rule={editing} />
+    </Card>
+  );
+};
+
+export default AlertRulesPanel;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Bar, BarChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Dices, Download, Loader2, Square } from 'lucide-react';
+import { useBatch } from '@/hooks/use-batch';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { getZone } from '@/lib/crowd/zones';
+import {
+  batchRunsToCsv,
+  batchSummaryToCsv,
+  cancelBatch,
+  exportBatchCsv,
+  runBatch,
+  summarizeBatch
+} from '@/lib/simulation/batch';
+
+const MAX_RUNS = 500;
+
+const distributionConfig = {
+  p50: { label: 'P50 peak', color: 'hsl(var(--kumbh-river-blue))' },
+  p95: { label: 'P95 peak', color: 'hsl(var(--kumbh-deep-saffron))' }
+} satisfies ChartConfig;
+
+const BatchRunner = () => {
+  const { params, scenario } = useSimulationRuntime();
+  const thresholds = useDensityThresholds();
+  const batch = useBatch();
+  const [runs, setRuns] = useState('50');
+  const [hours, setHours] = useState('6');
+  const [arrivalSpread, setArrivalSpread] = useState('20');
+  const [weatherSpread, setWeatherSpread] = useState('20');
+
+  const isRunning = batch.status === 'running';
+  const result = batch.result;
+  const distributions = result
+    ? summarizeBatch(result, thresholds).sort(
+        (a, b) => b.criticalProbability - a.criticalProbability || b.p95 - a.p95
+      )
+    : [];
+  const chartData = distributions.map(zone => ({
+    zone: getZone(zone.zoneId).shortName,
+    p50: zone.p50,
+    p95: zone.p95
+  }));
+
+  const handleRun = () => {
+    runBatch(scenario?.name ?? 'Custom setup', params, {
+      runs: Number(runs),
+      durationMinutes: Number(hours) * 60,
+      arrivalSpread: Number(arrivalSpread) / 100,
+      weatherSpread: Number(weatherSpread)
+    });
+  };
+
+  const filename = (kind: string) =>
+    `${(result?.name ?? 'batch').toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${kind}.csv`;
+
+  const isValid =
+    Number.isInteger(Number(runs)) &&
+    Number(runs) >= 2 &&
+    Number(runs) <= MAX_RUNS &&
+    Number(hours) > 0 &&
+    Number(hours) <= 24 &&
+    Number(arrivalSpread) >= 0 &&
+    Number(arrivalSpread) < 100 &&
+    Number(weatherSpread) >= 0 &&
+    Number(weatherSpread) <= 100;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Dices className="h-5 w-5 text-kumbh-saffron" />
+            Monte Carlo Batch
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            {scenario ? scenario.name : 'Custom'}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Reruns the current setup with a new seed each time, drawing arrival totals and weather within the spreads.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Runs</label>
+            <Input type="number" min={2} max={MAX_RUNS} value={runs} onChange={(e) => setRuns(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Run Hours</label>
+            <Input type="number" min={1} max={24} value={hours} onChange={(e) => setHours(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Arrivals ± %</label>
+            <Input type="number" min={0} max={99} value={arrivalSpread} onChange={(e) => setArrivalSpread(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Weather ± points</label>
+            <Input type="number" min={0} max={100} value={weatherSpread} onChange={(e) => setWeatherSpread(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {isRunning ? (
+            <Button variant="outline" onClick={cancelBatch}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="sacred" onClick={handleRun} disabled={!isValid}>
+              <Dices className="h-4 w-4 mr-2" />
+              Run {Number(runs) || 0} Simulations
+            </Button>
+          )}
+          {result && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => exportBatchCsv(batchSummaryToCsv(result, thresholds), filename('summary'))}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Summary CSV
+              </Button>
+              <Button variant="outline" onClick={() => exportBatchCsv(batchRunsToCsv(result), filename('runs'))}>
+                <Download className="h-4 w-4 mr-2" />
+                Runs CSV
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isRunning && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {batch.completed} of {batch.total} runs finished
+            </div>
+            <Progress value={(batch.completed / Math.max(batch.total, 1)) * 100} />
+          </div>
+        )}
+        {batch.status === 'cancelled' && (
+          <p className="text-sm text-muted-foreground">Batch cancelled after {batch.completed} runs.</p>
+        )}
+        {batch.error && (
+          <p className="text-sm text-red-600">{batch.error}</p>
+        )}
+
+        {result && (
+          <>
+            <div className="text-xs text-muted-foreground">
+              {result.name}: {result.runs.length} runs of {result.options.durationMinutes / 60} h, arrivals ±
+              {Math.round(result.options.arrivalSpread * 100)}%, weather ±{result.options.weatherSpread} ·{' '}
+              finished {new Date(result.finishedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </div>
+
+            <ChartContainer config={distributionConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                <XAxis dataKey="zone" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+                <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={(value) => Number(value).toFixed(1)} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${distributionConfig[name as 'p50' | 'p95'].label}: ${Number(value).toFixed(2)}/m²`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <ReferenceLine y={thresholds.critical} stroke="hsl(0 84% 60%)" strokeDasharray="4 3" />
+                <Bar dataKey="p50" fill="var(--color-p50)" radius={2} isAnimationActive={false} />
+                <Bar dataKey="p95" fill="var(--color-p95)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Zone</TableHead>
+                  <TableHead className="text-right">P50 Peak</TableHead>
+                  <TableHead className="text-right">P95 Peak</TableHead>
+                  <TableHead className="w-48">Chance of Critical</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {distributions.map(zone => (
+                  <TableRow key={zone.zoneId}>
+                    <TableCell className="font-medium">{getZone(zone.zoneId).name}</TableCell>
+                    <TableCell className="text-right">{zone.p50.toFixed(2)}/m²</TableCell>
+                    <TableCell className="text-right">{zone.p95.toFixed(2)}/m²</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={zone.criticalProbability * 100} className="h-2 flex-1" />
+                        <span className="text-xs w-10 text-right">{Math.round(zone.criticalProbability * 100)}%</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Chance of Critical is the share of runs in which the zone reached {thresholds.critical} persons/m².
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchRunner;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CalendarClock, FlaskConical, Flag, Loader2, Play } from 'lucide-react';
+import { MAJOR_EVENTS, getEventStart, type MajorEvent } from '@/lib/crowd/schedule';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { describeProcession, getBathDayMinutes, majorEventToScenario } from '@/lib/simulation/bath-days';
+import { applyScenario } from '@/lib/simulation/runtime';
+import { scenarioToParams } from '@/lib/simulation/scenarios';
+import { runInWorker } from '@/lib/simulation/worker-client';
+import type { ZonePeak } from '@/lib/simulation/run';
+
+// Zones listed in a bath day's result, busiest first
+const RESULT_ZONES = 4;
+
+interface BathDayResult {
+  eventId: string;
+  peaks: { zoneId: ZoneId; peak: ZonePeak }[];
+}
+
+const BathDayPlanner = () => {
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BathDayResult | null>(null);
+
+  const handleTest = async (event: MajorEvent) => {
+    const params = scenarioToParams(majorEventToScenario(event), getEventStart(event));
+    setRunningId(event.id);
+    setError(null);
+    try {
+      const run = await runInWorker(params, { durationMinutes: getBathDayMinutes(event), sampleEveryMinutes: 5 });
+      const peaks = ZONES.map(zone => ({ zoneId: zone.id, peak: run.peaks[zone.id] }))
+        .sort((a, b) => b.peak.count / getZone(b.zoneId).capacity - a.peak.count / getZone(a.zoneId).capacity)
+        .slice(0, RESULT_ZONES);
+      setResult({ eventId: event.id, peaks });
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : 'Simulation failed');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-kumbh-saffron" />
+            Bath Day Planner
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            From the Event Schedule
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {MAJOR_EVENTS.map(event => {
+          const procession = describeProcession(event);
+          const eventResult = result?.eventId === event.id ? result : null;
+          return (
+            <div key={event.id} className="p-3 rounded-lg border bg-card/50 space-y-3">
+              <div className="flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-sm">{event.title}</span>
+                    <Badge variant="outline" className="text-xs">{event.type}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(getEventStart(event)).toLocaleDateString([], { day: 'numeric', month: 'short' })}, {event.time} ·{' '}
+                    {event.location} · {event.pilgrims.toLocaleString()} extra pilgrims over {event.windowHours} h
+                  </p>
+                  {procession && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Flag className="h-3 w-3" />
+                      Procession from {procession}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => applyScenario(majorEventToScenario(event), getEventStart(event))}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Load
+                </Button>
+                <Button variant="sacred" size="sm" onClick={() => handleTest(event)} disabled={runningId !== null}>
+                  {runningId === event.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-1" />}
+                  Test
+                </Button>
+              </div>
+
+              {eventResult && (
+                <div className="space-y-2">
+                  {eventResult.peaks.map(({ zoneId, peak }) => {
+                    const zone = getZone(zoneId);
+                    const share = Math.round((peak.count / zone.capacity) * 100);
+                    return (
+                      <div key={zoneId} className="space-y-1">
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="font-medium">{zone.shortName}</span>
+                          <span className="text-muted-foreground">
+                            {peak.count.toLocaleString()} at{' '}
+                            {new Date(peak.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {share}%
+                            {peak.minutesAtCapacity > 0 && ` · ${peak.minutesAtCapacity} min at capacity`}
+                          </span>
+                        </div>
+                        <Progress value={Math.min(100, share)} className="h-2" />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BathDayPlanner;
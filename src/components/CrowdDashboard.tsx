@@ -1,58 +1,103 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import RouteGuidanceDialog from '@/components/RouteGuidanceDialog';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import { Area, AreaChart, YAxis } from 'recharts';
 import { AlertTriangle, Users, MapPin, Clock } from 'lucide-react';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import type { DensityLevel } from '@/lib/crowd/store';
+import type { ZoneSample, ZoneTrend } from '@/lib/crowd/series';
 
 interface CrowdData {
+  zoneId: ZoneId;
   location: string;
-  density: 'Low' | 'Medium' | 'High' | 'Critical';
+  level: DensityLevel;
+  density: number; // persons/m²
   count: number;
-  trend: 'increasing' | 'decreasing' | 'stable';
+  safeCapacity: number;
+  intensity: number;
+  series: ZoneSample[];
+  flow: ZoneTrend;
 }
 
+const levelLabels: Record<DensityLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+};
+
+const sparklineConfig = {
+  count: { label: 'Pilgrims', color: 'hsl(var(--kumbh-saffron))' }
+} satisfies ChartConfig;
+
+// Recent head count for one zone, without axes
+const Sparkline = ({ series, id }: { series: ZoneSample[], id: string }) => (
+  <ChartContainer config={sparklineConfig} className="aspect-auto h-12 w-full">
+    <AreaChart data={series} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+      <defs>
+        <linearGradient id={`sparkline-${id}`} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="5%" stopColor="var(--color-count)" stopOpacity={0.4} />
+          <stop offset="95%" stopColor="var(--color-count)" stopOpacity={0} />
+        </linearGradient>
+      </defs>
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <Area
+        dataKey="count"
+        type="monotone"
+        stroke="var(--color-count)"
+        strokeWidth={2}
+        fill={`url(#sparkline-${id})`}
+        isAnimationActive={false}
+      />
+    </AreaChart>
+  </ChartContainer>
+);
+
+const formatRate = (rate: number) => `${rate >= 0 ? '+' : ''}${Math.round(rate).toLocaleString()}/min`;
+
 const CrowdDashboard = () => {
-  const [crowdData, setCrowdData] = useState<CrowdData[]>([
-    { location: 'Ramkund Ghat', density: 'High', count: 45000, trend: 'increasing' },
-    { location: 'Triveni Sangam', density: 'Critical', count: 78000, trend: 'stable' },
-    { location: 'Sita Gufha', density: 'Medium', count: 22000, trend: 'decreasing' },
-    { location: 'Kalaram Temple', density: 'High', count: 38000, trend: 'increasing' },
-    { location: 'Godavari Ghat', density: 'Medium', count: 31000, trend: 'stable' },
-    { location: 'Panchavati', density: 'Low', count: 12000, trend: 'decreasing' }
-  ]);
-
-  const getDensityColor = (density: string) => {
-    switch (density) {
-      case 'Low': return 'bg-green-500';
-      case 'Medium': return 'bg-yellow-500';
-      case 'High': return 'bg-orange-500';
-      case 'Critical': return 'bg-red-500';
+  const snapshot = useCrowdSnapshot();
+  const { source, observations } = useSimulationRuntime();
+  const [routeOpen, setRouteOpen] = useState(false);
+  const crowdData: CrowdData[] = snapshot.zones.map(reading => ({
+    zoneId: reading.zoneId,
+    location: getZone(reading.zoneId).name,
+    level: reading.level,
+    density: reading.density,
+    count: reading.count,
+    safeCapacity: reading.safeCapacity,
+    intensity: reading.intensity,
+    series: reading.series,
+    flow: reading.flow
+  }));
+
+  const getLevelColor = (level: DensityLevel) => {
+    switch (level) {
+      case 'low': return 'bg-green-500';
+      case 'medium': return 'bg-yellow-500';
+      case 'high': return 'bg-orange-500';
+      case 'critical': return 'bg-red-500';
       default: return 'bg-gray-500';
     }
   };
 
-  const getTrendIcon = (trend: string) => {
-    switch (trend) {
-      case 'increasing': return '↗️';
-      case 'decreasing': return '↘️';
-      case 'stable': return '➡️';
+  // Arrows follow the fitted slope; a doubled arrow means the change is speeding up
+  const getTrendIcon = (flow: ZoneTrend) => {
+    const speedingUp = Math.sign(flow.acceleration) === Math.sign(flow.slope);
+    switch (flow.direction) {
+      case 'increasing': return speedingUp ? '⏫' : '↗️';
+      case 'decreasing': return speedingUp ? '⏬' : '↘️';
       default: return '➡️';
     }
   };
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setCrowdData(prev => prev.map(item => ({
-        ...item,
-        count: item.count + Math.floor(Math.random() * 2000 - 1000)
-      })));
-    }, 30000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const totalPilgrims = crowdData.reduce((sum, item) => sum + item.count, 0);
-  const criticalAreas = crowdData.filter(item => item.density === 'Critical').length;
+  const totalPilgrims = snapshot.total;
+  const criticalAreas = crowdData.filter(item => item.level === 'critical').length;
 
   return (
     <section className="py-16 bg-gradient-to-b from-background to-accent/30">
@@ -102,7 +147,10 @@ const CrowdDashboard = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Last Updated</p>
                   <p className="text-lg font-semibold text-kumbh-river-blue">
-                    {new Date().toLocaleTimeString()}
+                    {new Date(snapshot.timestamp).toLocaleTimeString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {source === 'observed' ? `Recorded: ${observations?.name}` : 'Crowd model'}
                   </p>
                 </div>
                 <Clock className="h-12 w-12 text-kumbh-river-blue" />
@@ -113,8 +161,8 @@ const CrowdDashboard = () => {
 
         {/* Location Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {crowdData.map((location, index) => (
-            <Card key={index} className="hover:shadow-lg transition-shadow duration-300">
+          {crowdData.map((location) => (
+            <Card key={location.zoneId} className="hover:shadow-lg transition-shadow duration-300">
               <CardHeader className="pb-4">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg font-semibold flex items-center gap-2">
@@ -123,9 +171,9 @@ const CrowdDashboard = () => {
                   </CardTitle>
                   <Badge 
                     variant="secondary" 
-                    className={`${getDensityColor(location.density)} text-white`}
+                    className={`${getLevelColor(location.level)} text-white`}
                   >
-                    {location.density}
+                    {levelLabels[location.level]}
                   </Badge>
                 </div>
               </CardHeader>
@@ -135,18 +183,27 @@ const CrowdDashboard = () => {
                     <span className="text-2xl font-bold text-kumbh-spiritual-blue">
                       {location.count.toLocaleString()}
                     </span>
-                    <span className="text-lg">
-                      {getTrendIcon(location.trend)}
+                    <span className="text-lg" title={`${formatRate(location.flow.slope)}, ${location.flow.acceleration.toFixed(1)}/min²`}>
+                      {getTrendIcon(location.flow)}
                     </span>
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    Current pilgrims • {location.trend}
+                    Current pilgrims • {location.flow.direction} {formatRate(location.flow.slope)}
+                  </div>
+                  <Sparkline series={location.series} id={location.zoneId} />
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>In {Math.round(location.flow.inflowRate).toLocaleString()}/min</span>
+                    <span>Out {Math.round(location.flow.outflowRate).toLocaleString()}/min</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>{location.density.toFixed(2)} persons/m²</span>
+                    <span>Safe capacity {location.safeCapacity.toLocaleString()}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div 
-                      className={`h-2 rounded-full ${getDensityColor(location.density)}`}
+                      className={`h-2 rounded-full ${getLevelColor(location.level)}`}
                       style={{ 
-                        width: `${Math.min((location.count / 80000) * 100, 100)}%` 
+                        width: `${location.intensity}%` 
                       }}
                     ></div>
                   </div>
@@ -166,7 +223,7 @@ const CrowdDashboard = () => {
               Our crowd management team is here to help you navigate safely
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <Button variant="sacred">
+              <Button variant="sacred" onClick={() => setRouteOpen(true)}>
                 Request Route Guidance
               </Button>
               <Button variant="spiritual">
@@ -179,6 +236,8 @@ const CrowdDashboard = () => {
           </div>
         </div>
       </div>
+
+      <RouteGuidanceDialog open={routeOpen} onOpenChange={setRouteOpen} />
     </section>
   );
 };
@@ -0,0 +1,450 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Map as MapIcon, Plus, Minus, Maximize, Loader2, X } from 'lucide-react';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useRouteRequest } from '@/hooks/use-route-guidance';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { getZoneReading } from '@/lib/crowd/store';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { EDGES, getEdgeIndex, getNode } from '@/lib/simulation/network';
+import { describeRoadRule, findRoadRules, restrictedEdges } from '@/lib/simulation/road-rules';
+import { describeRoute, formatDistance, formatDuration } from '@/lib/routing/planner';
+import { getRouteConditions, planRequestedRoute, setRouteRequest } from '@/lib/routing/guidance';
+import type { Route } from '@/lib/routing/travel';
+import { MAP_STYLE, featureCoordinates, fetchBasemap, type Basemap } from '@/lib/geo/basemap';
+import {
+  fitViewport,
+  getBounds,
+  panViewport,
+  toScreen,
+  zoomViewport,
+  type LngLat,
+  type Point,
+  type Viewport
+} from '@/lib/geo/projection';
+
+interface CrowdMapProps {
+  selectedZoneId: ZoneId | null;
+  onSelectZone: (zoneId: ZoneId) => void;
+}
+
+type Layer = 'zones' | 'points' | 'routes';
+
+const LAYER_LABELS: Record<Layer, string> = {
+  zones: 'Zones',
+  points: 'Density Points',
+  routes: 'Routes'
+};
+
+// Pointer travel, in pixels, below which a press counts as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+const ZOOM_STEP = 1.5;
+
+const levelColors: Record<string, string> = {
+  low: 'rgba(34, 197, 94, 0.45)',
+  medium: 'rgba(234, 179, 8, 0.45)',
+  high: 'rgba(249, 115, 22, 0.5)',
+  critical: 'rgba(239, 68, 68, 0.55)'
+};
+
+// Road colour by walking density in persons/m²
+const getRoadColor = (density: number | undefined) => {
+  if (density === undefined || density < 0.5) return MAP_STYLE.road.stroke;
+  if (density < 1.5) return '#22c55e';
+  if (density < 2.5) return '#eab308';
+  if (density < 3.5) return '#f97316';
+  return '#ef4444';
+};
+
+// Bounds of every zone outline, framed when the map opens
+const zoneBounds = getBounds(ZONES.flatMap(zone => zone.boundary));
+
+const CrowdMap = ({ selectedZoneId, onSelectZone }: CrowdMapProps) => {
+  const snapshot = useCrowdSnapshot();
+  const routeRequest = useRouteRequest();
+  const routePlan = routeRequest && planRequestedRoute(routeRequest, getRouteConditions(snapshot));
+  const { source, params } = useSimulationRuntime();
+  const roadRules = findRoadRules(params.closures, snapshot.timestamp);
+  const [basemap, setBasemap] = useState<Basemap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [layers, setLayers] = useState<Record<Layer, boolean>>({ zones: true, points: true, routes: true });
+  const [size, setSize] = useState({ width: 800, height: 500 });
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ last: Point; moved: number } | null>(null);
+
+  useEffect(() => {
+    fetchBasemap()
+      .then(setBasemap)
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : 'Could not load the map'));
+  }, []);
+
+  // Track the container size so the map fills it
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setViewport(current =>
+      current
+        ? { ...current, width: size.width, height: size.height }
+        : fitViewport(zoneBounds, size.width, size.height)
+    );
+  }, [size]);
+
+  // Bring the zone picked on the heat map into view
+  useEffect(() => {
+    const zone = ZONES.find(item => item.id === selectedZoneId);
+    if (!zone) return;
+    const bounds = getBounds(zone.boundary);
+    setViewport(current =>
+      current && fitViewport(bounds, current.width, current.height, Math.min(current.width, current.height) / 3)
+    );
+  }, [selectedZoneId]);
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setViewport(current => current && zoomViewport(current, event.deltaY < 0 ? 1.2 : 1 / 1.2, anchor));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    drag.current = { last: { x: event.clientX, y: event.clientY }, moved: 0 };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    const dx = event.clientX - current.last.x;
+    const dy = event.clientY - current.last.y;
+    current.last = { x: event.clientX, y: event.clientY };
+    current.moved += Math.abs(dx) + Math.abs(dy);
+    if (current.moved > CLICK_TOLERANCE) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setViewport(view => view && panViewport(view, dx, dy));
+    }
+  };
+
+  const handlePointerUp = () => {
+    // Let the click handler see how far the pointer travelled, then forget the drag
+    setTimeout(() => {
+      drag.current = null;
+    });
+  };
+
+  const handleZoneClick = (zoneId: ZoneId) => {
+    if ((drag.current?.moved ?? 0) > CLICK_TOLERANCE) return;
+    onSelectZone(zoneId);
+  };
+
+  const fitAll = () => {
+    setViewport(fitViewport(zoneBounds, size.width, size.height));
+  };
+
+  const toPath = (coordinates: LngLat[], closed: boolean) => {
+    if (!viewport) return '';
+    const path = coordinates
+      .map((coordinate, index) => {
+        const point = toScreen(viewport, coordinate);
+        return `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+      })
+      .join('');
+    return closed ? `${path}Z` : path;
+  };
+
+  const features = basemap?.features ?? [];
+
+  // A road as drawn, or straight between its ends where it has no geometry
+  const edgeCoordinates = (index: number) => {
+    const feature = features.find(item => item.properties.edgeId === EDGES[index].id);
+    return feature
+      ? featureCoordinates(feature)
+      : [getNode(EDGES[index].from).position, getNode(EDGES[index].to).position];
+  };
+
+  const routeSegments = (route: Route) => route.edges.map(edgeCoordinates);
+
+  // Arrow halfway along a one-way road, pointing the way pilgrims may walk
+  const oneWayArrow = (index: number, towards: LngLat) => {
+    if (!viewport) return undefined;
+    let points = edgeCoordinates(index).map(coordinate => toScreen(viewport, coordinate));
+    const end = toScreen(viewport, towards);
+    const distance = (point: Point) => Math.hypot(point.x - end.x, point.y - end.y);
+    if (distance(points[0]) < distance(points[points.length - 1])) points = [...points].reverse();
+    const middle = Math.max(0, Math.floor((points.length - 1) / 2));
+    const [a, b] = [points[middle], points[Math.min(middle + 1, points.length - 1)]];
+    const angle = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+    return `translate(${((a.x + b.x) / 2).toFixed(1)} ${((a.y + b.y) / 2).toFixed(1)}) rotate(${angle.toFixed(1)})`;
+  };
+
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MapIcon className="h-5 w-5 text-kumbh-saffron" />
+            Nashik Crowd Map
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {(Object.keys(LAYER_LABELS) as Layer[]).map(layer => (
+              <Button
+                key={layer}
+                variant={layers[layer] ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLayers(prev => ({ ...prev, [layer]: !prev[layer] }))}
+              >
+                {LAYER_LABELS[layer]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div
+          ref={containerRef}
+          className="relative w-full h-[70vh] rounded-lg border overflow-hidden"
+          style={{ backgroundColor: MAP_STYLE.background }}
+        >
+          {!basemap && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+              {error ?? <Loader2 className="h-6 w-6 animate-spin" />}
+            </div>
+          )}
+
+          <svg
+            ref={svgRef}
+            width={size.width}
+            height={size.height}
+            className="touch-none cursor-grab active:cursor-grabbing"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          >
+            {viewport && (
+              <>
+                {/* River */}
+                {features.filter(feature => feature.properties.kind === 'river').map(feature => (
+                  <path
+                    key={feature.properties.name}
+                    d={toPath(featureCoordinates(feature), false)}
+                    fill="none"
+                    stroke={MAP_STYLE.river.stroke}
+                    strokeWidth={MAP_STYLE.river.width}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                ))}
+
+                {/* Routes */}
+                {features.filter(feature => feature.properties.kind === 'road').map(feature => {
+                  const index = feature.properties.edgeId ? getEdgeIndex(feature.properties.edgeId) : -1;
+                  const density = layers.routes && index >= 0 ? snapshot.edgeDensities[index] : undefined;
+                  return (
+                    <path
+                      key={feature.properties.edgeId ?? feature.properties.name}
+                      d={toPath(featureCoordinates(feature), false)}
+                      fill="none"
+                      stroke={getRoadColor(density)}
+                      strokeWidth={index >= 0 ? Math.max(2, EDGES[index].widthM / 4) : MAP_STYLE.road.width}
+                      strokeLinecap="round"
+                    >
+                      <title>{feature.properties.name}{density !== undefined ? ` - ${density.toFixed(1)} p/m²` : ''}</title>
+                    </path>
+                  );
+                })}
+
+                {/* Closures in force: barricaded roads, narrowed roads and one-way arrows */}
+                {restrictedEdges(roadRules).map(index => {
+                  const closed = roadRules.closed.has(index);
+                  const towards = closed ? undefined : roadRules.oneWay.get(index);
+                  return (
+                    <g key={`closure-${index}`}>
+                      <path
+                        d={toPath(edgeCoordinates(index), false)}
+                        fill="none"
+                        stroke={closed ? '#dc2626' : towards !== undefined ? '#2563eb' : '#f59e0b'}
+                        strokeWidth={closed ? 5 : 3}
+                        strokeDasharray={closed ? '2 6' : towards !== undefined ? undefined : '10 4'}
+                        strokeLinecap="round"
+                      >
+                        <title>{EDGES[index].name} - {describeRoadRule(roadRules, index)}</title>
+                      </path>
+                      {towards !== undefined && (
+                        <path
+                          d="M -7 -6 L 7 0 L -7 6 Z"
+                          transform={oneWayArrow(index, getNode(towards).position)}
+                          fill="#2563eb"
+                          stroke="white"
+                          strokeWidth={1.5}
+                          className="pointer-events-none"
+                        />
+                      )}
+                    </g>
+                  );
+                })}
+
+                {/* Zone polygons */}
+                {ZONES.map(zone => {
+                  const reading = getZoneReading(snapshot, zone.id);
+                  const isSelected = zone.id === selectedZoneId;
+                  const label = toScreen(viewport, zone.center);
+                  return (
+                    <g key={zone.id} className="cursor-pointer" onClick={() => handleZoneClick(zone.id)}>
+                      <path
+                        d={toPath(zone.boundary, true)}
+                        fill={layers.zones && reading ? levelColors[reading.level] : MAP_STYLE.zone.idle}
+                        stroke={isSelected ? '#f97316' : MAP_STYLE.zone.stroke}
+                        strokeWidth={isSelected ? 3 : MAP_STYLE.zone.width}
+                      />
+                      <text
+                        x={label.x}
+                        y={label.y}
+                        textAnchor="middle"
+                        fontSize={MAP_STYLE.label.size}
+                        fill={MAP_STYLE.label.fill}
+                        className="pointer-events-none select-none font-medium"
+                      >
+                        {zone.name}
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {/* Requested route, alternatives beneath the recommended one */}
+                {routePlan && [...routePlan.alternatives, routePlan.best].map(route => {
+                  const recommended = route === routePlan.best;
+                  return routeSegments(route).map((coordinates, index) => (
+                    <path
+                      key={`${route.edges.join()}-${index}`}
+                      d={toPath(coordinates, false)}
+                      fill="none"
+                      stroke={recommended ? '#2563eb' : '#64748b'}
+                      strokeWidth={recommended ? 6 : 4}
+                      strokeDasharray={recommended ? undefined : '8 6'}
+                      strokeLinecap="round"
+                      strokeOpacity={0.85}
+                      className="pointer-events-none"
+                    />
+                  ));
+                })}
+
+                {/* Sampled pilgrims, or recorded point densities, as [lon, lat, load] triples */}
+                {layers.points && Array.from({ length: snapshot.particles.length / 3 }, (_, index) => {
+                  const position = toScreen(viewport, [snapshot.particles[index * 3], snapshot.particles[index * 3 + 1]]);
+                  const load = snapshot.particles[index * 3 + 2];
+                  return (
+                    <circle
+                      key={index}
+                      cx={position.x}
+                      cy={position.y}
+                      r={source === 'observed' ? 2 + load * 10 : 2}
+                      fill={`rgba(239, 68, 68, ${0.2 + load * 0.5})`}
+                      className="pointer-events-none"
+                    />
+                  );
+                })}
+              </>
+            )}
+          </svg>
+
+          {/* Zoom controls */}
+          <div className="absolute top-4 right-4 flex flex-col gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white/90"
+              title="Zoom in"
+              onClick={() => setViewport(current => current && zoomViewport(current, ZOOM_STEP))}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white/90"
+              title="Zoom out"
+              onClick={() => setViewport(current => current && zoomViewport(current, 1 / ZOOM_STEP))}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="bg-white/90" title="Show all zones" onClick={fitAll}>
+              <Maximize className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Legend */}
+          <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow-lg space-y-1">
+            <h4 className="text-sm font-semibold">Road Density (p/m²)</h4>
+            <div className="flex gap-2 items-center text-xs">
+              <div className="w-4 h-1 bg-green-500"></div>
+              <span>&lt;1.5</span>
+              <div className="w-4 h-1 bg-yellow-500"></div>
+              <span>&lt;2.5</span>
+              <div className="w-4 h-1 bg-orange-500"></div>
+              <span>&lt;3.5</span>
+              <div className="w-4 h-1 bg-red-500"></div>
+              <span>3.5+</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {source === 'observed' ? 'Circles show recorded point counts' : 'Dots show sampled pilgrims'}
+            </p>
+          </div>
+
+          <Badge variant="secondary" className="absolute top-4 left-4 bg-white/90">
+            Offline map
+          </Badge>
+
+          {routeRequest && (
+            <div className="absolute top-14 left-4 max-w-xs bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow-lg space-y-1 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <h4 className="font-semibold">
+                  {getZone(routeRequest.from).name} → {routePlan ? getNode(routePlan.to).name : 'Nearest uncrowded area'}
+                </h4>
+                <button aria-label="Clear route" onClick={() => setRouteRequest(null)}>
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {routePlan ? (
+                <>
+                  <p>
+                    <span className="font-medium">{formatDuration(routePlan.best.seconds)}</span>
+                    {' · '}{formatDistance(routePlan.best.lengthM)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Via {describeRoute(routePlan.best) || 'the zone itself'}</p>
+                  {routePlan.alternatives.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Dashed: {routePlan.alternatives.map(route => formatDuration(route.seconds)).join(', ')}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">Every route there is closed right now.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CrowdMap;
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Database, Cpu, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { getZone } from '@/lib/crowd/zones';
+import {
+  createObservedDataset,
+  fetchObservedDataset,
+  type ObservedDataset
+} from '@/lib/crowd/observations';
+import { loadObservations, switchToModel } from '@/lib/simulation/runtime';
+
+// Invalid rows listed before the rest are summarised
+const SHOWN_ERRORS = 3;
+
+const DataSourcePanel = () => {
+  const { source, observations } = useSimulationRuntime();
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = async (read: () => Promise<ObservedDataset>) => {
+    setIsLoading(true);
+    try {
+      const dataset = await read();
+      loadObservations(dataset);
+      toast({
+        title: 'Recorded data loaded',
+        description: `${dataset.rowCount} rows across ${dataset.zoneIds.length} zones from ${dataset.name}.`
+      });
+    } catch (loadError) {
+      toast({
+        title: 'Could not load data',
+        description: loadError instanceof Error ? loadError.message : 'The file could not be read.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      load(async () => createObservedDataset(file.name, await file.text()));
+    }
+  };
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5 text-kumbh-saffron" />
+            Data Source
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            {source === 'observed' ? 'Recorded' : 'Simulated'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Button
+            variant={source === 'model' ? 'sacred' : 'outline'}
+            onClick={switchToModel}
+            disabled={source === 'model'}
+          >
+            <Cpu className="h-4 w-4 mr-2" />
+            Crowd Model
+          </Button>
+          <Button
+            variant={source === 'observed' ? 'sacred' : 'outline'}
+            onClick={() => (observations ? loadObservations(observations) : load(() => fetchObservedDataset()))}
+            disabled={isLoading}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Database className="h-4 w-4 mr-2" />}
+            Nashik Recorded
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isLoading}>
+            <Upload className="h-4 w-4 mr-2" />
+            Load CSV
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          CSV columns: timestamp, time, zone, lat, lon, count. Point counts are summed per zone every 2 minutes.
+        </p>
+
+        {observations && (
+          <div className="rounded-lg border bg-accent/30 p-4 space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{observations.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {observations.buckets.length} × {observations.bucketMinutes} min
+              </span>
+            </div>
+            <div className="text-muted-foreground">
+              {formatTime(observations.start)} – {formatTime(observations.end + observations.bucketMinutes * 60000)}
+            </div>
+            <div className="text-muted-foreground">
+              {observations.zoneIds.map(zoneId => getZone(zoneId).shortName).join(', ')}
+            </div>
+            {(observations.errors.length > 0 || observations.unmatchedZones.length > 0) && (
+              <div className="space-y-1 text-orange-600">
+                {observations.unmatchedZones.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    Unknown zones skipped: {observations.unmatchedZones.join(', ')}
+                  </div>
+                )}
+                {observations.errors.slice(0, SHOWN_ERRORS).map(error => (
+                  <div key={error.line} className="text-xs">
+                    Line {error.line}: {error.message}
+                  </div>
+                ))}
+                {observations.errors.length > SHOWN_ERRORS && (
+                  <div className="text-xs">
+                    and {observations.errors.length - SHOWN_ERRORS} more invalid rows
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataSourcePanel;
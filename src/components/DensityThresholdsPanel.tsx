@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import {
+  DENSITY_STANDARDS,
+  densityThresholdsSchema,
+  findDensityStandard,
+  setDensityThresholds,
+  type DensityThresholds
+} from '@/lib/crowd/density';
+import { ZONES } from '@/lib/crowd/zones';
+
+const LEVELS: { key: keyof DensityThresholds; label: string; color: string }[] = [
+  { key: 'medium', label: 'Medium from', color: 'bg-yellow-500' },
+  { key: 'high', label: 'High from', color: 'bg-orange-500' },
+  { key: 'critical', label: 'Critical from', color: 'bg-red-500' }
+];
+
+const DensityThresholdsPanel = () => {
+  const thresholds = useDensityThresholds();
+  const [draft, setDraft] = useState<Record<keyof DensityThresholds, string>>({ medium: '', high: '', critical: '' });
+  const { params } = useSimulationRuntime();
+  const standard = findDensityStandard(thresholds);
+  // Zones whose planned capacity leaves them short of critical; they only get there once overfilled
+  const overCapacityZones = ZONES.filter(
+    zone => (params.zoneCapacities[zone.id] ?? zone.capacity) / zone.areaM2 < thresholds.critical
+  );
+
+  useEffect(() => {
+    setDraft({
+      medium: String(thresholds.medium),
+      high: String(thresholds.high),
+      critical: String(thresholds.critical)
+    });
+  }, [thresholds]);
+
+  const handleApply = () => {
+    const result = densityThresholdsSchema.safeParse({
+      medium: Number(draft.medium),
+      high: Number(draft.high),
+      critical: Number(draft.critical)
+    });
+    if (!result.success) {
+      toast({
+        title: 'Thresholds not applied',
+        description: result.error.issues[0]?.message ?? 'Enter positive densities in persons/m².',
+        variant: 'destructive'
+      });
+      return;
+    }
+    setDensityThresholds(result.data as DensityThresholds);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-kumbh-saffron" />
+            Density Thresholds
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            {standard?.name ?? 'Custom'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {DENSITY_STANDARDS.map(option => (
+            <Button
+              key={option.id}
+              variant={standard?.id === option.id ? 'sacred' : 'outline'}
+              className="h-auto flex-col items-start py-2"
+              onClick={() => setDensityThresholds(option.thresholds)}
+            >
+              <span>{option.name}</span>
+              <span className="text-xs font-normal opacity-80 whitespace-normal text-left">{option.description}</span>
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          {LEVELS.map(level => (
+            <div key={level.key} className="space-y-1">
+              <Label htmlFor={`threshold-${level.key}`} className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full ${level.color}`} />
+                {level.label} (p/m²)
+              </Label>
+              <Input
+                id={`threshold-${level.key}`}
+                type="number"
+                min={0}
+                step={0.01}
+                value={draft[level.key]}
+                onChange={(event) => setDraft(prev => ({ ...prev, [level.key]: event.target.value }))}
+              />
+            </div>
+          ))}
+          <Button variant="outline" onClick={handleApply}>
+            Apply
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Each zone's safe capacity is its usable area times the critical density.
+        </p>
+        {overCapacityZones.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-orange-600">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              Critical is above the planned capacity of {overCapacityZones.map(zone => zone.shortName).join(', ')}, so
+              they turn critical only once crowds press in past it.
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DensityThresholdsPanel;
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import RouteGuidanceDialog from '@/components/RouteGuidanceDialog';
 import { 
   Phone, 
   AlertTriangle, 
@@ -10,10 +12,38 @@ import {
   Navigation, 
   Clock,
   MapPin,
-  Users
+  Users,
+  Check
 } from 'lucide-react';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { DEFAULT_OPERATOR, acknowledgeAlert, getOpenAlerts } from '@/lib/alerts/engine';
+import { formatMetric } from '@/lib/alerts/rules';
+import { getZone } from '@/lib/crowd/zones';
+import { EDGES } from '@/lib/simulation/network';
+import { describeRoadRule, findRoadRules, restrictedEdges } from '@/lib/simulation/road-rules';
+
+// Alerts listed on the card; the rest are counted in the badge
+const LIVE_ALERT_LIMIT = 4;
+
+const formatAge = (minutes: number) => {
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${Math.round(minutes)} mins ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+};
 
 const EmergencyInfo = () => {
+  const navigate = useNavigate();
+  const alerts = useAlerts();
+  const clock = useSimulationClock();
+  const { params } = useSimulationRuntime();
+  const roadRules = findRoadRules(params.closures, clock.time);
+  const [routeOpen, setRouteOpen] = useState(false);
+  const openAlerts = getOpenAlerts(alerts);
+  const activeCount = openAlerts.filter(alert => alert.status === 'active').length;
+
   const emergencyContacts = [
     { title: 'Police Control Room', number: '100', icon: Shield, color: 'bg-blue-500' },
     { title: 'Medical Emergency', number: '108', icon: Heart, color: 'bg-red-500' },
@@ -44,29 +74,9 @@ const EmergencyInfo = () => {
     }
   ];
 
-  const currentAlerts = [
-    {
-      type: 'High Crowd Density',
-      location: 'Triveni Sangam',
-      time: '10 mins ago',
-      severity: 'high'
-    },
-    {
-      type: 'Route Diversion',
-      location: 'Ramkund Approach Road',
-      time: '25 mins ago',
-      severity: 'medium'
-    },
-    {
-      type: 'Weather Update',
-      location: 'All Areas',
-      time: '1 hour ago',
-      severity: 'low'
-    }
-  ];
-
   const getSeverityColor = (severity: string) => {
     switch (severity) {
+      case 'critical': return 'bg-red-200 text-red-900 border-red-300';
       case 'high': return 'bg-red-100 text-red-800 border-red-200';
       case 'medium': return 'bg-orange-100 text-orange-800 border-orange-200';
       case 'low': return 'bg-blue-100 text-blue-800 border-blue-200';
@@ -150,25 +160,65 @@ const EmergencyInfo = () => {
                   <AlertTriangle className="h-6 w-6" />
                   Live Alerts
                   <Badge variant="destructive" className="ml-auto">
-                    {currentAlerts.length} Active
+                    {activeCount} Active
                   </Badge>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {currentAlerts.map((alert, index) => (
-                  <div key={index} className={`p-4 rounded-lg border ${getSeverityColor(alert.severity)}`}>
+                {openAlerts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No open alerts. Zones are checked against the alert rules on every update.
+                  </p>
+                )}
+                {openAlerts.slice(0, LIVE_ALERT_LIMIT).map(alert => (
+                  <div key={alert.id} className={`p-4 rounded-lg border ${getSeverityColor(alert.severity)}`}>
                     <div className="flex items-start justify-between mb-2">
-                      <h4 className="font-semibold text-sm">{alert.type}</h4>
-                      <span className="text-xs">{alert.time}</span>
+                      <h4 className="font-semibold text-sm">{alert.title}</h4>
+                      <span className="text-xs" title={new Date(alert.raisedAt).toLocaleString()}>
+                        {formatAge((clock.time - alert.raisedAt) / 60000)}
+                      </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4" />
-                      <span className="text-sm">{alert.location}</span>
+                      <span className="text-sm">{getZone(alert.zoneId).name}</span>
+                      <span className="text-xs ml-auto">{formatMetric(alert.metric, alert.value)}</span>
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <span className="text-xs">
+                        {alert.severity} · {alert.status === 'acknowledged' ? `acknowledged by ${alert.acknowledgedBy}` : 'active'}
+                      </span>
+                      {alert.status === 'active' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 bg-white/60"
+                          onClick={() => acknowledgeAlert(alert.id, DEFAULT_OPERATOR, clock.time)}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Acknowledge
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
+                {openAlerts.length > LIVE_ALERT_LIMIT && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    {openAlerts.length - LIVE_ALERT_LIMIT} more open
+                  </p>
+                )}
+
+                {/* Route diversions in force */}
+                {restrictedEdges(roadRules).map(index => (
+                  <div key={index} className="p-3 rounded-lg border bg-blue-50 border-blue-200 text-blue-800">
+                    <div className="flex items-center gap-2">
+                      <Navigation className="h-4 w-4" />
+                      <span className="font-semibold text-sm">Route Diversion: {EDGES[index].name}</span>
+                    </div>
+                    <p className="text-xs mt-1">{describeRoadRule(roadRules, index)}</p>
+                  </div>
+                ))}
                 
-                <Button variant="outline" className="w-full mt-4">
+                <Button variant="outline" className="w-full mt-4" onClick={() => navigate('/alerts')}>
                   View All Alerts
                 </Button>
               </CardContent>
@@ -196,7 +246,7 @@ const EmergencyInfo = () => {
                   <MapPin className="h-5 w-5" />
                   Find Nearest Help Point
                 </Button>
-                <Button variant="golden" size="lg" className="flex items-center gap-2">
+                <Button variant="golden" size="lg" className="flex items-center gap-2" onClick={() => setRouteOpen(true)}>
                   <Navigation className="h-5 w-5" />
                   Safe Route Guidance
                 </Button>
@@ -205,6 +255,8 @@ const EmergencyInfo = () => {
           </Card>
         </div>
       </div>
+
+      <RouteGuidanceDialog open={routeOpen} onOpenChange={setRouteOpen} safe />
     </section>
   );
 };
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Line, LineChart, XAxis, YAxis } from 'recharts';
+import { DoorOpen, Loader2, Users, Clock, Flag } from 'lucide-react';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { GATE_FLOW_CAPACITY, findEvacuationExits } from '@/lib/simulation/engine';
+import { requiredGateWidth, type EvacuationResult } from '@/lib/simulation/evacuation';
+import { EDGES } from '@/lib/simulation/network';
+import { runEvacuationInWorker } from '@/lib/simulation/worker-client';
+
+// The crowd model runs this long before the order so the roads carry their usual load
+const WARMUP_MINUTES = 30;
+const MAX_MINUTES = 240;
+
+const QUEUE_COLORS = [
+  'hsl(var(--kumbh-saffron))',
+  'hsl(var(--kumbh-river-blue))',
+  'hsl(var(--kumbh-deep-saffron))',
+  'hsl(var(--kumbh-gold))',
+  'hsl(var(--kumbh-spiritual-blue))'
+];
+
+const DEFAULT_SAFE_ZONES = ZONES.filter(zone => zone.kind === 'district' || zone.kind === 'transit').map(zone => zone.id);
+
+const formatMinutes = (minutes: number | null) => (minutes === null ? `> ${MAX_MINUTES} min` : `${minutes} min`);
+
+// Pilgrims waiting at each exit, and still inside the evacuated zones, minute by minute
+const QueueChart = ({ result }: { result: EvacuationResult }) => {
+  const config: ChartConfig = {
+    remaining: { label: 'Still inside', color: 'hsl(var(--muted-foreground))' }
+  };
+  result.exits.forEach((exit, index) => {
+    config[`exit${index}`] = { label: exit.name, color: QUEUE_COLORS[index % QUEUE_COLORS.length] };
+  });
+  const data = result.samples.map(sample => ({
+    minute: sample.minute,
+    remaining: sample.remaining,
+    ...Object.fromEntries(result.exits.map((exit, index) => [`exit${index}`, sample.queues[exit.id]]))
+  }));
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-56 w-full">
+      <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+        <XAxis dataKey="minute" tickLine={false} axisLine={false} tickFormatter={(minute) => `${minute}m`} />
+        <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value) => Number(value).toLocaleString()} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_label, payload) => `Minute ${payload[0]?.payload.minute}`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="remaining" stroke="var(--color-remaining)" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+        {result.exits.map((exit, index) => (
+          <Line key={exit.id} dataKey={`exit${index}`} stroke={`var(--color-exit${index})`} dot={false} isAnimationActive={false} />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+const EvacuationPlanner = () => {
+  const clock = useSimulationClock();
+  const { params } = useSimulationRuntime();
+  const [zoneIds, setZoneIds] = useState<ZoneId[]>(['ramkund-ghat']);
+  const [safeZoneIds, setSafeZoneIds] = useState<ZoneId[]>(DEFAULT_SAFE_ZONES);
+  const [gateWidths, setGateWidths] = useState<Record<string, string>>({});
+  const [targetMinutes, setTargetMinutes] = useState('15');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<EvacuationResult | null>(null);
+
+  const exits = findEvacuationExits(zoneIds);
+  const safeZones = safeZoneIds.filter(zoneId => !zoneIds.includes(zoneId));
+
+  const toggle = (list: ZoneId[], zoneId: ZoneId, checked: boolean) =>
+    checked ? [...list, zoneId] : list.filter(id => id !== zoneId);
+
+  const handleRun = async () => {
+    const exitWidths: Record<string, number> = {};
+    exits.forEach(exit => {
+      const width = Number(gateWidths[exit.id]);
+      if (gateWidths[exit.id] && width > 0) {
+        exitWidths[exit.id] = width;
+      }
+    });
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const run = await runEvacuationInWorker(
+        { ...params, startTime: clock.time - WARMUP_MINUTES * 60000 },
+        { zoneIds, safeZoneIds: safeZones, exitWidths },
+        { warmupMinutes: WARMUP_MINUTES, maxMinutes: MAX_MINUTES }
+      );
+      setResult(run);
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : 'Evacuation run failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const target = Number(targetMinutes);
+  const isValid = zoneIds.length > 0 && safeZones.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <DoorOpen className="h-5 w-5 text-kumbh-saffron" />
+            Evacuation Planner
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            Headless Run
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Evacuate</label>
+            <div className="grid grid-cols-2 gap-2">
+              {ZONES.map(zone => (
+                <label key={zone.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={zoneIds.includes(zone.id)}
+                    onCheckedChange={(checked) => setZoneIds(prev => toggle(prev, zone.id, checked === true))}
+                  />
+                  {zone.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Safe Zones</label>
+            <div className="grid grid-cols-2 gap-2">
+              {ZONES.map(zone => (
+                <label key={zone.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={safeZoneIds.includes(zone.id) && !zoneIds.includes(zone.id)}
+                    disabled={zoneIds.includes(zone.id)}
+                    onCheckedChange={(checked) => setSafeZoneIds(prev => toggle(prev, zone.id, checked === true))}
+                  />
+                  {zone.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {exits.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Exit Gate Widths (m)</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {exits.map(exit => (
+                <div key={exit.id} className="space-y-1">
+                  <div className="text-xs text-muted-foreground">
+                    {getZone(exit.zoneId).shortName} → {EDGES[exit.edge].name}
+                  </div>
+                  <Input
+                    type="number"
+                    min={0.5}
+                    max={exit.roadWidthM}
+                    step={0.5}
+                    placeholder={`${exit.roadWidthM} (full road)`}
+                    value={gateWidths[exit.id] ?? ''}
+                    onChange={(e) => setGateWidths(prev => ({ ...prev, [exit.id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Target Clearance (min)</label>
+            <Input type="number" min={1} className="w-40" value={targetMinutes} onChange={(e) => setTargetMinutes(e.target.value)} />
+          </div>
+          <Button variant="sacred" onClick={handleRun} disabled={isRunning || !isValid}>
+            {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <DoorOpen className="h-4 w-4 mr-2" />}
+            Run Evacuation
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <Users className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+                <div className="text-2xl font-bold text-kumbh-spiritual-blue">
+                  {result.evacuees.toLocaleString()}
+                </div>
+                <div className="text-sm text-muted-foreground">Evacuees</div>
+              </div>
+              <div>
+                <Clock className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+                <div className="text-2xl font-bold text-kumbh-deep-saffron">
+                  {formatMinutes(result.clearanceMinutes)}
+                </div>
+                <div className="text-sm text-muted-foreground">Area Cleared</div>
+              </div>
+              <div>
+                <Flag className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+                <div className="text-2xl font-bold text-kumbh-river-blue">
+                  {formatMinutes(result.arrivalMinutes)}
+                </div>
+                <div className="text-sm text-muted-foreground">All in Safe Zones</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Exit</TableHead>
+                  <TableHead>Gate</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Passed</TableHead>
+                  <TableHead>Peak Queue</TableHead>
+                  <TableHead>Queue Gone</TableHead>
+                  <TableHead>Width for {target > 0 ? target : '–'} min</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.exits.map(exit => (
+                  <TableRow key={exit.id}>
+                    <TableCell>
+                      <div className="font-medium">{exit.name}</div>
+                      <div className="text-xs text-muted-foreground">from {getZone(exit.zoneId).name}</div>
+                    </TableCell>
+                    <TableCell>{exit.widthM} m</TableCell>
+                    <TableCell>{exit.capacityPerMinute.toLocaleString()}/min</TableCell>
+                    <TableCell>{exit.throughput.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {exit.peakQueue.toLocaleString()}
+                      {exit.peakQueue > 0 && <span className="text-xs text-muted-foreground"> at {exit.peakQueueMinute}m</span>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {exit.clearedMinute === null ? '–' : `${exit.clearedMinute} min`}
+                        {exit.bottleneck && <Badge variant="destructive">Bottleneck</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {target > 0 ? `${requiredGateWidth(exit.throughput, target).toFixed(1)} m` : '–'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <QueueChart result={result} />
+            <p className="text-xs text-muted-foreground">
+              Gate width needed for each exit to pass the pilgrims that used it within the target time,
+              at {Math.round(GATE_FLOW_CAPACITY * 60)} pilgrims per metre per minute.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EvacuationPlanner;
@@ -1,43 +1,71 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MapPin, Thermometer, AlertTriangle, TrendingUp } from 'lucide-react';
+import { MapPin, Thermometer, AlertTriangle, TrendingUp, TrendingDown, Minus, Siren } from 'lucide-react';
+import IncidentDialog from '@/components/IncidentDialog';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useIncidents } from '@/hooks/use-incidents';
+import { useUnitStates } from '@/hooks/use-resources';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import { toSitePlan } from '@/lib/geo/site-plan';
+import type { DensityLevel, Trend } from '@/lib/crowd/store';
+import type { ZoneTrend } from '@/lib/crowd/series';
+import { INCIDENT_KINDS, INCIDENT_STATUSES } from '@/lib/incidents/store';
+import { UNIT_STATUSES } from '@/lib/resources/store';
+import { UNIT_TYPES, getUnit } from '@/lib/resources/units';
 
 interface HeatZone {
-  id: string;
+  id: ZoneId;
   name: string;
   x: number;
   y: number;
-  intensity: number; // 0-100
-  risk: 'low' | 'medium' | 'high' | 'critical';
+  intensity: number; // share of safe capacity, 0-100
+  density: number; // persons/m²
+  risk: DensityLevel;
   crowd: number;
   trend: 'up' | 'down' | 'stable';
+  flow: ZoneTrend;
 }
 
-const HeatMapVisualization = () => {
-  const [zones, setZones] = useState<HeatZone[]>([
-    { id: '1', name: 'Ramkund Ghat', x: 25, y: 30, intensity: 85, risk: 'high', crowd: 45000, trend: 'up' },
-    { id: '2', name: 'Triveni Sangam', x: 60, y: 20, intensity: 95, risk: 'critical', crowd: 78000, trend: 'up' },
-    { id: '3', name: 'Sita Gufha', x: 40, y: 60, intensity: 45, risk: 'medium', crowd: 22000, trend: 'down' },
-    { id: '4', name: 'Kalaram Temple', x: 70, y: 50, intensity: 70, risk: 'high', crowd: 38000, trend: 'stable' },
-    { id: '5', name: 'Godavari Ghat', x: 30, y: 80, intensity: 55, risk: 'medium', crowd: 31000, trend: 'down' },
-    { id: '6', name: 'Panchavati', x: 80, y: 75, intensity: 30, risk: 'low', crowd: 12000, trend: 'stable' },
-  ]);
-
-  const [selectedZone, setSelectedZone] = useState<HeatZone | null>(null);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setZones(prev => prev.map(zone => ({
-        ...zone,
-        intensity: Math.max(0, Math.min(100, zone.intensity + (Math.random() - 0.5) * 10)),
-        crowd: Math.max(1000, zone.crowd + Math.floor((Math.random() - 0.5) * 5000))
-      })));
-    }, 3000);
-
-    return () => clearInterval(interval);
-  }, []);
+const trendDirections: Record<Trend, HeatZone['trend']> = {
+  increasing: 'up',
+  decreasing: 'down',
+  stable: 'stable'
+};
+
+interface HeatMapVisualizationProps {
+  selectedZoneId: ZoneId | null;
+  onSelectZone: (zoneId: ZoneId) => void;
+}
+
+const HeatMapVisualization = ({ selectedZoneId, onSelectZone }: HeatMapVisualizationProps) => {
+  const snapshot = useCrowdSnapshot();
+  const { source } = useSimulationRuntime();
+  const { incidents } = useIncidents();
+  const units = useUnitStates();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const openIncidents = incidents.filter(incident => incident.status !== 'resolved');
+  const zones: HeatZone[] = snapshot.zones.map(reading => {
+    const zone = getZone(reading.zoneId);
+    const { x, y } = toSitePlan(zone.center);
+    return {
+      id: zone.id,
+      name: zone.name,
+      x,
+      y,
+      intensity: reading.intensity,
+      density: reading.density,
+      risk: reading.level,
+      crowd: reading.count,
+      trend: trendDirections[reading.flow.direction],
+      flow: reading.flow
+    };
+  });
+
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId) ?? null;
+  const selectedIncidents = openIncidents.filter(incident => incident.zoneId === selectedZoneId);
 
   const getRiskColor = (risk: string) => {
     switch (risk) {
@@ -49,11 +77,13 @@ const HeatMapVisualization = () => {
     }
   };
 
-  const getIntensityColor = (intensity: number) => {
-    if (intensity < 25) return 'rgba(34, 197, 94, 0.6)'; // green
-    if (intensity < 50) return 'rgba(234, 179, 8, 0.6)'; // yellow
-    if (intensity < 75) return 'rgba(249, 115, 22, 0.6)'; // orange
-    return 'rgba(239, 68, 68, 0.6)'; // red
+  const getLevelColor = (risk: DensityLevel) => {
+    switch (risk) {
+      case 'low': return 'rgba(34, 197, 94, 0.6)'; // green
+      case 'medium': return 'rgba(234, 179, 8, 0.6)'; // yellow
+      case 'high': return 'rgba(249, 115, 22, 0.6)'; // orange
+      default: return 'rgba(239, 68, 68, 0.6)'; // red
+    }
   };
 
   return (
@@ -67,7 +97,7 @@ const HeatMapVisualization = () => {
               Real-Time Crowd Density Heat Map
             </CardTitle>
             <Badge variant="secondary" className="bg-kumbh-saffron/10">
-              Live Data
+              {source === 'observed' ? 'Recorded Data' : 'Live Data'}
             </Badge>
           </div>
         </CardHeader>
@@ -85,26 +115,61 @@ const HeatMapVisualization = () => {
                   left: `${zone.x}%`,
                   top: `${zone.y}%`,
                 }}
-                onClick={() => setSelectedZone(zone)}
+                title={zone.name}
+                onClick={() => onSelectZone(zone.id)}
               >
                 {/* Heat blob */}
                 <div
-                  className="w-16 h-16 rounded-full blur-sm animate-pulse"
+                  className="w-10 h-10 rounded-full blur-sm animate-pulse"
                   style={{
-                    backgroundColor: getIntensityColor(zone.intensity),
+                    backgroundColor: getLevelColor(zone.risk),
                     transform: `scale(${0.8 + zone.intensity / 200})`,
                   }}
                 />
                 {/* Center marker */}
                 <div className="absolute top-1/2 left-1/2 w-3 h-3 bg-kumbh-spiritual-blue rounded-full transform -translate-x-1/2 -translate-y-1/2 border-2 border-white shadow-lg" />
                 
-                {/* Label */}
-                <div className="absolute top-full left-1/2 transform -translate-x-1/2 mt-2 text-xs font-medium text-kumbh-spiritual-blue bg-white/90 px-2 py-1 rounded shadow-lg whitespace-nowrap">
-                  {zone.name}
-                </div>
+                {/* Label; central zones sit close together at true scale, so only the selected one is named */}
+                {zone.id === selectedZoneId && (
+                  <div className="absolute top-full left-1/2 transform -translate-x-1/2 mt-2 z-10 text-xs font-medium text-kumbh-spiritual-blue bg-white/90 px-2 py-1 rounded shadow-lg whitespace-nowrap">
+                    {zone.name}
+                  </div>
+                )}
               </div>
             ))}
 
+            {/* Open incidents, one marker per zone */}
+            {zones.map(zone => {
+              const count = openIncidents.filter(incident => incident.zoneId === zone.id).length;
+              if (count === 0) return null;
+              return (
+                <div
+                  key={`incident-${zone.id}`}
+                  className="absolute z-10 flex items-center gap-0.5 px-1 py-0.5 rounded-full bg-red-600 text-white text-[10px] font-bold shadow-lg cursor-pointer animate-pulse"
+                  style={{ left: `calc(${zone.x}% + 8px)`, top: `calc(${zone.y}% - 22px)` }}
+                  title={`${count} open incident${count > 1 ? 's' : ''} at ${zone.name}`}
+                  onClick={() => onSelectZone(zone.id)}
+                >
+                  <Siren className="h-3 w-3" />
+                  {count > 1 && count}
+                </div>
+              );
+            })}
+
+            {/* Response units away from base */}
+            {units.filter(unit => unit.status !== 'available').map(unit => {
+              const { x, y } = toSitePlan(unit.position);
+              const info = getUnit(unit.unitId);
+              return (
+                <div
+                  key={unit.unitId}
+                  className={`absolute z-10 w-2.5 h-2.5 rounded-sm border border-white shadow transform -translate-x-1/2 -translate-y-1/2 transition-all duration-1000 ${UNIT_TYPES[info.type].color}`}
+                  style={{ left: `${x}%`, top: `${y}%` }}
+                  title={`${info.callSign}: ${UNIT_STATUSES[unit.status]}`}
+                />
+              );
+            })}
+
             {/* Legend */}
             <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow-lg">
               <h4 className="text-sm font-semibold mb-2">Density Level</h4>
@@ -156,7 +221,11 @@ const HeatMapVisualization = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Density</p>
                   <p className="text-2xl font-bold text-kumbh-deep-saffron">
-                    {Math.round(selectedZone.intensity)}%
+                    {selectedZone.density.toFixed(2)}
+                    <span className="text-sm font-normal text-muted-foreground"> p/m²</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {Math.round(selectedZone.intensity)}% of safe capacity
                   </p>
                 </div>
               </div>
@@ -164,14 +233,39 @@ const HeatMapVisualization = () => {
               <div>
                 <p className="text-sm text-muted-foreground">Trend</p>
                 <div className="flex items-center gap-2 mt-1">
-                  <TrendingUp className={`h-4 w-4 ${
-                    selectedZone.trend === 'up' ? 'text-red-500' : 
-                    selectedZone.trend === 'down' ? 'text-green-500' : 'text-gray-500'
-                  }`} />
+                  {selectedZone.trend === 'up' ? (
+                    <TrendingUp className="h-4 w-4 text-red-500" />
+                  ) : selectedZone.trend === 'down' ? (
+                    <TrendingDown className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <Minus className="h-4 w-4 text-gray-500" />
+                  )}
                   <span className="capitalize">{selectedZone.trend}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {selectedZone.flow.slope >= 0 ? '+' : ''}{Math.round(selectedZone.flow.slope).toLocaleString()}/min
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-2 mt-2 text-xs text-muted-foreground">
+                  <span>In {Math.round(selectedZone.flow.inflowRate).toLocaleString()}/min</span>
+                  <span>Out {Math.round(selectedZone.flow.outflowRate).toLocaleString()}/min</span>
+                  <span>Accel. {selectedZone.flow.acceleration.toFixed(1)}/min²</span>
                 </div>
               </div>
 
+              {selectedIncidents.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Open Incidents</p>
+                  {selectedIncidents.map(incident => (
+                    <div key={incident.id} className="flex items-center gap-2 text-sm">
+                      <Siren className="h-4 w-4 text-red-500" />
+                      <span className="font-medium">{incident.id}</span>
+                      <span className="flex-1">{INCIDENT_KINDS[incident.kind].label}</span>
+                      <Badge variant="outline" className="text-xs">{INCIDENT_STATUSES[incident.status]}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {selectedZone.risk === 'critical' && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-3">
                   <div className="flex items-center gap-2 mb-2">
@@ -181,7 +275,7 @@ const HeatMapVisualization = () => {
                   <p className="text-sm text-red-700">
                     This zone requires immediate crowd management intervention.
                   </p>
-                  <Button size="sm" variant="destructive" className="mt-2 w-full">
+                  <Button size="sm" variant="destructive" className="mt-2 w-full" onClick={() => setDialogOpen(true)}>
                     Deploy Emergency Response
                   </Button>
                 </div>
@@ -197,6 +291,15 @@ const HeatMapVisualization = () => {
           )}
         </CardContent>
       </Card>
+
+      {selectedZone && (
+        <IncidentDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          zoneId={selectedZone.id}
+          priority="critical"
+        />
+      )}
     </div>
   );
 };
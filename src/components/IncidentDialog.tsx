@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useIncidents } from '@/hooks/use-incidents';
+import { useUnitStates } from '@/hooks/use-resources';
+import { getClockState } from '@/lib/simulation/clock';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { DEFAULT_OPERATOR } from '@/lib/alerts/engine';
+import { SEVERITIES, type AlertSeverity } from '@/lib/alerts/rules';
+import {
+  INCIDENT_KINDS,
+  assignUnits,
+  getCommittedUnitIds,
+  reportIncident,
+  type IncidentKind
+} from '@/lib/incidents/store';
+import { estimateArrivals } from '@/lib/resources/store';
+import { RESPONSE_UNITS, UNIT_TYPES } from '@/lib/resources/units';
+
+interface IncidentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zoneId: ZoneId;
+  kind?: IncidentKind;
+  priority?: AlertSeverity;
+}
+
+const IncidentDialog = ({ open, onOpenChange, zoneId, kind = 'crowd-control', priority = 'high' }: IncidentDialogProps) => {
+  const { incidents } = useIncidents();
+  // Re-renders as units move, so the arrival times follow the crowd
+  useUnitStates();
+  const [draft, setDraft] = useState({ zoneId, kind, priority, description: '' });
+  const [unitIds, setUnitIds] = useState<string[]>([]);
+  const committed = getCommittedUnitIds(incidents);
+  const suited = INCIDENT_KINDS[draft.kind].units;
+  const arrivals = new Map(estimateArrivals(draft.zoneId).map(arrival => [arrival.unitId, arrival.seconds]));
+  const nearest = estimateArrivals(draft.zoneId, suited)[0]?.unitId;
+  // Units suited to the incident first, then the quickest to arrive
+  const units = [...RESPONSE_UNITS].sort(
+    (a, b) =>
+      Number(!suited.includes(a.type)) - Number(!suited.includes(b.type)) ||
+      (arrivals.get(a.id) ?? Infinity) - (arrivals.get(b.id) ?? Infinity)
+  );
+
+  // Start from the zone and kind the dialog was opened for, with the nearest suited unit picked
+  useEffect(() => {
+    if (open) {
+      const [arrival] = estimateArrivals(zoneId, INCIDENT_KINDS[kind].units);
+      setDraft({ zoneId, kind, priority, description: '' });
+      setUnitIds(arrival ? [arrival.unitId] : []);
+    }
+  }, [open, zoneId, kind, priority]);
+
+  const toggleUnit = (unitId: string, checked: boolean) => {
+    setUnitIds(prev => (checked ? [...prev, unitId] : prev.filter(id => id !== unitId)));
+  };
+
+  const handleSubmit = () => {
+    const time = getClockState().time;
+    const incident = reportIncident(draft, time, DEFAULT_OPERATOR);
+    if (unitIds.length > 0) {
+      assignUnits(incident.id, unitIds, time, DEFAULT_OPERATOR);
+    }
+    onOpenChange(false);
+    toast({
+      title: `${incident.id} opened`,
+      description:
+        unitIds.length > 0
+          ? `${unitIds.length} unit${unitIds.length > 1 ? 's' : ''} dispatched.`
+          : 'No units assigned yet.'
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deploy Emergency Response</DialogTitle>
+          <DialogDescription>
+            Opens an incident and dispatches the units you pick from the roster. Arrival times follow the
+            fastest open route at the current crowd density.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Zone</Label>
+              <Select value={draft.zoneId} onValueChange={(value) => setDraft(prev => ({ ...prev, zoneId: value as ZoneId }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZONES.map(zone => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Incident</Label>
+              <Select value={draft.kind} onValueChange={(value) => setDraft(prev => ({ ...prev, kind: value as IncidentKind }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INCIDENT_KINDS) as IncidentKind[]).map(key => (
+                    <SelectItem key={key} value={key}>{INCIDENT_KINDS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Priority</Label>
+              <Select
+                value={draft.priority}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, priority: value as AlertSeverity }))}
+              >
+                <SelectTrigger className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITIES.map(severity => (
+                    <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="incident-description">Details</Label>
+            <Textarea
+              id="incident-description"
+              placeholder="What is happening, and where in the zone"
+              value={draft.description}
+              onChange={(event) => setDraft(prev => ({ ...prev, description: event.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Units</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {units.map(unit => {
+                const busy = committed.has(unit.id);
+                const seconds = arrivals.get(unit.id);
+                return (
+                  <label
+                    key={unit.id}
+                    className={`flex items-center gap-2 p-2 rounded-lg border text-sm ${busy ? 'opacity-50' : 'cursor-pointer'}`}
+                  >
+                    <Checkbox
+                      checked={unitIds.includes(unit.id)}
+                      disabled={busy}
+                      onCheckedChange={(checked) => toggleUnit(unit.id, checked === true)}
+                    />
+                    <span className={`w-2 h-2 rounded-full ${UNIT_TYPES[unit.type].color}`} />
+                    <span className="flex-1">{unit.callSign}</span>
+                    {!busy && (
+                      <span className="text-xs text-muted-foreground">
+                        {seconds === undefined ? 'No route' : `${Math.max(1, Math.round(seconds / 60))} min`}
+                      </span>
+                    )}
+                    {busy ? (
+                      <Badge variant="outline" className="text-xs">Committed</Badge>
+                    ) : unit.id === nearest ? (
+                      <Badge variant="secondary" className="text-xs">Nearest</Badge>
+                    ) : suited.includes(unit.type) && (
+                      <Badge variant="secondary" className="text-xs">Suited</Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit}>
+            {unitIds.length > 0 ? 'Open & Dispatch' : 'Open Incident'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IncidentDialog;
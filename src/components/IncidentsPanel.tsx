@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ChevronDown, MapPin, Plus, Siren, X } from 'lucide-react';
+import IncidentDialog from '@/components/IncidentDialog';
+import { toast } from '@/hooks/use-toast';
+import { useIncidents } from '@/hooks/use-incidents';
+import { useUnitStates } from '@/hooks/use-resources';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { ZONES, getZone } from '@/lib/crowd/zones';
+import { DEFAULT_OPERATOR } from '@/lib/alerts/engine';
+import {
+  INCIDENT_KINDS,
+  INCIDENT_STATUSES,
+  assignUnits,
+  getCommittedUnitIds,
+  getIncidentLog,
+  getNextStatus,
+  releaseUnit,
+  setIncidentStatus,
+  type Incident,
+  type IncidentStatus
+} from '@/lib/incidents/store';
+import { UNIT_STATUSES, dispatchNearest, estimateArrivals } from '@/lib/resources/store';
+import { RESPONSE_UNITS, UNIT_TYPES, getUnit } from '@/lib/resources/units';
+
+// Resolved incidents kept on the panel below the open ones
+const RECENT_RESOLVED = 3;
+
+const STATUS_COLORS: Record<IncidentStatus, string> = {
+  reported: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  dispatched: 'bg-orange-100 text-orange-800 border-orange-200',
+  'on-scene': 'bg-blue-100 text-blue-800 border-blue-200',
+  resolved: 'bg-green-100 text-green-800 border-green-200'
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatMinutes = (seconds: number) => `${Math.max(1, Math.round(seconds / 60))} min`;
+
+const IncidentsPanel = () => {
+  const state = useIncidents();
+  const clock = useSimulationClock();
+  const unitStates = useUnitStates();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const committed = getCommittedUnitIds(state.incidents);
+  const available = RESPONSE_UNITS.filter(unit => !committed.has(unit.id));
+
+  const open = state.incidents.filter(incident => incident.status !== 'resolved').reverse();
+  const resolved = state.incidents
+    .filter(incident => incident.status === 'resolved')
+    .slice(-RECENT_RESOLVED)
+    .reverse();
+
+  // Store errors (e.g. a unit taken by another incident meanwhile) are reported rather than thrown at the view
+  const run = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      toast({
+        title: 'Incident not updated',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const renderIncident = (incident: Incident) => {
+    const next = getNextStatus(incident.status);
+    const log = getIncidentLog(state, incident.id);
+    const isOpen = incident.status !== 'resolved';
+    const arrivals = isOpen ? estimateArrivals(incident.zoneId) : [];
+    return (
+      <div key={incident.id} className="p-4 rounded-lg border bg-card/50 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-sm">{incident.id}</span>
+              <span className="text-sm">{INCIDENT_KINDS[incident.kind].label}</span>
+              <Badge variant="outline" className="capitalize text-xs">{incident.priority}</Badge>
+            </div>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+              <MapPin className="h-3 w-3" />
+              {getZone(incident.zoneId).name}
+              {incident.description && ` · ${incident.description}`}
+            </div>
+          </div>
+          <Badge variant="outline" className={STATUS_COLORS[incident.status]}>
+            {INCIDENT_STATUSES[incident.status]}
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground">
+          <span>Reported {formatTime(incident.reportedAt)}</span>
+          <span>Dispatched {incident.dispatchedAt ? formatTime(incident.dispatchedAt) : '—'}</span>
+          <span>On scene {incident.onSceneAt ? formatTime(incident.onSceneAt) : '—'}</span>
+          <span>Resolved {incident.resolvedAt ? formatTime(incident.resolvedAt) : '—'}</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {incident.unitIds.length === 0 && (
+            <span className="text-xs text-muted-foreground">No units assigned</span>
+          )}
+          {incident.unitIds.map(unitId => {
+            const unit = getUnit(unitId);
+            const state = unitStates.find(candidate => candidate.unitId === unitId);
+            return (
+              <Badge key={unitId} variant="secondary" className="gap-1">
+                <span className={`w-2 h-2 rounded-full ${UNIT_TYPES[unit.type].color}`} />
+                {unit.callSign}
+                {isOpen && state && (
+                  <span className="font-normal text-muted-foreground">
+                    {state.status === 'en-route' && state.eta !== null
+                      ? `· ${formatMinutes((state.eta - clock.time) / 1000)}`
+                      : `· ${UNIT_STATUSES[state.status]}`}
+                  </span>
+                )}
+                {isOpen && (
+                  <button
+                    aria-label={`Release ${unit.callSign}`}
+                    onClick={() => run(() => releaseUnit(incident.id, unitId, clock.time, DEFAULT_OPERATOR))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            );
+          })}
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value=""
+              onValueChange={(unitId) => run(() => assignUnits(incident.id, [unitId], clock.time, DEFAULT_OPERATOR))}
+              disabled={arrivals.length === 0}
+            >
+              <SelectTrigger className="h-8 w-52">
+                <SelectValue placeholder={arrivals.length > 0 ? 'Assign unit' : 'No units free'} />
+              </SelectTrigger>
+              <SelectContent>
+                {arrivals.map(arrival => {
+                  const unit = getUnit(arrival.unitId);
+                  return (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.callSign} ({UNIT_TYPES[unit.type].label}) · {formatMinutes(arrival.seconds)}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={arrivals.length === 0}
+              onClick={() => run(() => dispatchNearest(incident.id, clock.time, DEFAULT_OPERATOR))}
+            >
+              Dispatch nearest
+            </Button>
+            {next && next !== 'resolved' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run(() => setIncidentStatus(incident.id, next, clock.time, DEFAULT_OPERATOR))}
+              >
+                Mark {INCIDENT_STATUSES[next]}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(() => setIncidentStatus(incident.id, 'resolved', clock.time, DEFAULT_OPERATOR))}
+            >
+              Resolve
+            </Button>
+          </div>
+        )}
+
+        <Collapsible>
+          <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+            <ChevronDown className="h-3 w-3" />
+            Audit log ({log.length})
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="mt-2 space-y-1 border-l pl-3 text-xs">
+              {log.map(item => (
+                <li key={item.id}>
+                  <span className="text-muted-foreground">{formatTime(item.time)}</span>{' '}
+                  <span className="font-medium capitalize">{item.action}</span> {item.detail}
+                  <span className="text-muted-foreground"> · {item.by}</span>
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Siren className="h-5 w-5 text-red-500" />
+            Incident Response
+            <Badge variant="destructive" className="ml-2">{open.length} Open</Badge>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {available.length} of {RESPONSE_UNITS.length} units free
+            </span>
+            <Button variant="destructive" size="sm" onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Incident
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {open.length === 0 && resolved.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No incidents. Deploy a response from the heat map or a risk prediction, or open one here.
+          </p>
+        )}
+        {open.map(renderIncident)}
+        {resolved.length > 0 && (
+          <>
+            <h4 className="text-sm font-medium text-muted-foreground pt-2">Recently resolved</h4>
+            {resolved.map(renderIncident)}
+          </>
+        )}
+      </CardContent>
+
+      <IncidentDialog open={dialogOpen} onOpenChange={setDialogOpen} zoneId={ZONES[0].id} />
+    </Card>
+  );
+};
+
+export default IncidentsPanel;
@@ -9,93 +9,20 @@ import {
   Star,
   Sun,
   Moon,
-  Sunrise
+  Sunrise,
+  type LucideIcon
 } from 'lucide-react';
+import { DAILY_SCHEDULE, MAJOR_EVENTS, formatScheduleHours } from '@/lib/crowd/schedule';
 
 const PilgrimageSchedule = () => {
-  const majorEvents = [
-    {
-      date: '2027-07-15',
-      title: 'Kumbh Mela Begins',
-      time: '04:00 AM',
-      type: 'Shahi Snan',
-      importance: 'high',
-      location: 'Triveni Sangam'
-    },
-    {
-      date: '2027-07-22',
-      title: 'Makar Sankranti',
-      time: '05:30 AM', 
-      type: 'Royal Bath',
-      importance: 'highest',
-      location: 'Ramkund Ghat'
-    },
-    {
-      date: '2027-08-05',
-      title: 'Mauni Amavasya',
-      time: '04:00 AM',
-      type: 'Shahi Snan',
-      importance: 'highest',
-      location: 'All Major Ghats'
-    },
-    {
-      date: '2027-08-19',
-      title: 'Basant Panchami',
-      time: '06:00 AM',
-      type: 'Sacred Bath',
-      importance: 'high',
-      location: 'Godavari Ghat'
-    },
-    {
-      date: '2027-09-02',
-      title: 'Maghi Purnima',
-      time: '05:00 AM',
-      type: 'Royal Bath',
-      importance: 'highest',
-      location: 'Triveni Sangam'
-    },
-    {
-      date: '2027-09-15',
-      title: 'Maha Shivratri',
-      time: 'All Day',
-      type: 'Festival',
-      importance: 'high',
-      location: 'All Temples'
-    }
-  ];
-
-  const dailySchedule = [
-    {
-      time: '04:00 - 06:00',
-      activity: 'Brahma Muhurta - Most Auspicious Bathing Time',
-      icon: Sunrise,
-      crowd: 'Low'
-    },
-    {
-      time: '06:00 - 10:00',
-      activity: 'Morning Prayers & Temple Visits',
-      icon: Sun,
-      crowd: 'Medium'
-    },
-    {
-      time: '10:00 - 16:00',
-      activity: 'Satsang & Cultural Programs',
-      icon: Clock,
-      crowd: 'High'
-    },
-    {
-      time: '16:00 - 19:00',
-      activity: 'Evening Aarti & Sacred Baths',
-      icon: Sun,
-      crowd: 'Very High'
-    },
-    {
-      time: '19:00 - 22:00',
-      activity: 'Spiritual Discourses',
-      icon: Moon,
-      crowd: 'Medium'
-    }
-  ];
+  // Icons for the shared daily schedule, which also drives the crowd model's arrival curve
+  const scheduleIcons: Record<string, LucideIcon> = {
+    'brahma-muhurta': Sunrise,
+    'morning-prayers': Sun,
+    'satsang': Clock,
+    'evening-aarti': Sun,
+    'discourses': Moon
+  };
 
   const getImportanceColor = (importance: string) => {
     switch (importance) {
@@ -149,8 +76,8 @@ const PilgrimageSchedule = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {majorEvents.map((event, index) => (
-                  <div key={index} className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
+                {MAJOR_EVENTS.map((event) => (
+                  <div key={event.id} className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-1">
@@ -197,28 +124,31 @@ const PilgrimageSchedule = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {dailySchedule.map((schedule, index) => (
-                  <div key={index} className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
-                    <div className="flex items-start gap-4">
-                      <div className="p-2 rounded-full bg-kumbh-saffron/10 flex-shrink-0">
-                        <schedule.icon className="h-5 w-5 text-kumbh-saffron" />
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center justify-between mb-2">
-                          <h4 className="font-semibold text-kumbh-spiritual-blue text-sm">
-                            {schedule.time}
-                          </h4>
-                          <Badge className={`text-xs ${getCrowdColor(schedule.crowd)}`}>
-                            {schedule.crowd} Crowd
-                          </Badge>
+                {DAILY_SCHEDULE.map((schedule) => {
+                  const Icon = scheduleIcons[schedule.id] ?? Clock;
+                  return (
+                    <div key={schedule.id} className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
+                      <div className="flex items-start gap-4">
+                        <div className="p-2 rounded-full bg-kumbh-saffron/10 flex-shrink-0">
+                          <Icon className="h-5 w-5 text-kumbh-saffron" />
+                        </div>
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-semibold text-kumbh-spiritual-blue text-sm">
+                              {formatScheduleHours(schedule)}
+                            </h4>
+                            <Badge className={`text-xs ${getCrowdColor(schedule.crowd)}`}>
+                              {schedule.crowd} Crowd
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {schedule.activity}
+                          </p>
                         </div>
-                        <p className="text-sm text-muted-foreground">
-                          {schedule.activity}
-                        </p>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 
                 <div className="bg-gradient-to-r from-kumbh-saffron/5 to-kumbh-gold/5 p-4 rounded-lg border-l-4 border-l-kumbh-saffron mt-6">
                   <h4 className="font-semibold text-kumbh-spiritual-blue mb-2">
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { History, Play, Pause, SkipBack, SkipForward, Radio } from 'lucide-react';
+import { usePlayback } from '@/hooks/use-playback';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import {
+  PLAYBACK_RATES,
+  goLive,
+  pausePlayback,
+  playPlayback,
+  seekPlayback,
+  setPlaybackRate,
+  stepPlayback
+} from '@/lib/crowd/playback';
+
+const PlaybackTimeline = () => {
+  const { cursor, playing, rate, frames, start, end } = usePlayback();
+  const snapshot = useCrowdSnapshot();
+  const isLive = cursor === null;
+  const position = cursor ?? frames - 1;
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          {/* Transport */}
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-kumbh-saffron" />
+            <Button
+              variant="outline"
+              size="icon"
+              title="Step back"
+              onClick={() => stepPlayback(-1)}
+              disabled={frames < 2 || position <= 0}
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={playing ? 'destructive' : 'sacred'}
+              size="icon"
+              title={playing ? 'Pause playback' : 'Play back'}
+              onClick={playing ? pausePlayback : playPlayback}
+              disabled={frames < 2}
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Step forward"
+              onClick={() => stepPlayback(1)}
+              disabled={isLive}
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Select value={String(rate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_RATES.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}x</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Scrubber */}
+          <div className="flex-1 flex items-center gap-3">
+            <span className="text-xs text-muted-foreground w-12">{frames > 0 ? formatTime(start) : '--:--'}</span>
+            <Slider
+              value={[Math.max(0, position)]}
+              onValueChange={([value]) => seekPlayback(value)}
+              max={Math.max(0, frames - 1)}
+              min={0}
+              step={1}
+              disabled={frames < 2}
+              className="flex-1"
+            />
+            <span className="text-xs text-muted-foreground w-12 text-right">{frames > 0 ? formatTime(end) : '--:--'}</span>
+          </div>
+
+          {/* Position */}
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium w-16 text-right">{formatTime(snapshot.timestamp)}</span>
+            {isLive ? (
+              <Badge className="bg-green-600">Live</Badge>
+            ) : (
+              <Button variant="outline" size="sm" onClick={goLive}>
+                <Radio className="h-4 w-4 mr-1" />
+                Go Live
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlaybackTimeline;
@@ -1,8 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { 
   AlertTriangle, 
   Shield, 
@@ -13,80 +22,140 @@ import {
   Users,
   Activity
 } from 'lucide-react';
+import IncidentDialog from '@/components/IncidentDialog';
+import { useBatch } from '@/hooks/use-batch';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import type { DensityThresholds } from '@/lib/crowd/density';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import { getCrowdHistory } from '@/lib/crowd/store';
+import { FORECASTERS, INTERVAL_LEVEL, getForecaster, type Forecaster } from '@/lib/forecast/forecasters';
+import { DEFAULT_HORIZON_MINUTES, RISK_HORIZON_MINUTES, predictZones } from '@/lib/forecast/predictions';
+import { BACKTEST_HORIZONS, runBacktest } from '@/lib/forecast/backtest';
+import type { PredictionFactor } from '@/lib/forecast/factors';
+import type { IncidentKind } from '@/lib/incidents/store';
+import { summarizeBatch } from '@/lib/simulation/batch';
 
 interface RiskPrediction {
   id: string;
+  zoneId: ZoneId;
   location: string;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-  timeToRisk: number; // minutes
+  timeToRisk: number | null; // minutes
   predictedCrowd: number;
-  factors: string[];
+  lower: number;
+  upper: number;
+  change: number; // predicted change from now, as a share
+  factors: PredictionFactor[];
 }
 
-interface MLMetrics {
-  accuracy: number;
-  precision: number;
-  recall: number;
-  f1Score: number;
+interface MLMetric {
+  key: 'accuracy' | 'precision' | 'recall' | 'f1Score';
+  label: string;
+  color: string;
 }
 
+const ML_METRICS: MLMetric[] = [
+  { key: 'accuracy', label: 'Accuracy', color: 'text-kumbh-spiritual-blue' },
+  { key: 'precision', label: 'Precision', color: 'text-kumbh-deep-saffron' },
+  { key: 'recall', label: 'Recall', color: 'text-kumbh-river-blue' },
+  { key: 'f1Score', label: 'F1-Score', color: 'text-kumbh-gold' }
+];
+
+// The backtest reruns once this many new snapshots have been published
+const BACKTEST_EVERY = 5;
+
+const factorConfig = {
+  weight: { label: 'Weight', color: 'hsl(var(--kumbh-saffron))' }
+} satisfies ChartConfig;
+
+// Share of the prediction each measured driver accounts for
+const FactorChart = ({ factors }: { factors: PredictionFactor[] }) => (
+  <ChartContainer config={factorConfig} className="aspect-auto h-40 w-full">
+    <BarChart data={factors} layout="vertical" margin={{ top: 0, right: 8, bottom: 0, left: 0 }}>
+      <XAxis type="number" domain={[0, 1]} hide />
+      <YAxis type="category" dataKey="label" width={96} tickLine={false} axisLine={false} />
+      <ChartTooltip
+        cursor={false}
+        content={
+          <ChartTooltipContent
+            hideLabel
+            formatter={(value, _name, item) => (
+              <div className="grid gap-0.5">
+                <span className="font-medium">{item.payload.label}: {Math.round(Number(value) * 100)}%</span>
+                <span className="text-muted-foreground">{item.payload.detail}</span>
+              </div>
+            )}
+          />
+        }
+      />
+      <Bar dataKey="weight" fill="var(--color-weight)" radius={3} isAnimationActive={false} />
+    </BarChart>
+  </ChartContainer>
+);
+
+const scoreHistory = (
+  forecaster: Forecaster,
+  horizonMinutes: number,
+  arrivalProfile: number[],
+  weather: number,
+  thresholds: DensityThresholds
+) => runBacktest(getCrowdHistory(), forecaster, { horizonMinutes, arrivalProfile, weather, thresholds });
+
 const RiskPrediction = () => {
-  const [predictions, setPredictions] = useState<RiskPrediction[]>([
-    {
-      id: '1',
-      location: 'Triveni Sangam',
-      riskLevel: 'critical',
-      confidence: 94,
-      timeToRisk: 15,
-      predictedCrowd: 85000,
-      factors: ['High inflow rate', 'Weather conditions', 'Historical patterns']
-    },
-    {
-      id: '2',
-      location: 'Ramkund Ghat',
-      riskLevel: 'high',
-      confidence: 87,
-      timeToRisk: 45,
-      predictedCrowd: 52000,
-      factors: ['Peak bathing time', 'Limited exit routes']
-    },
-    {
-      id: '3',
-      location: 'Kalaram Temple',
-      riskLevel: 'medium',
-      confidence: 76,
-      timeToRisk: 120,
-      predictedCrowd: 38000,
-      factors: ['Ongoing ceremony', 'Moderate crowd buildup']
-    }
-  ]);
+  const snapshot = useCrowdSnapshot();
+  const { params } = useSimulationRuntime();
+  const [forecasterId, setForecasterId] = useState(FORECASTERS[0].id);
+  const forecaster = getForecaster(forecasterId);
+  const [deployment, setDeployment] = useState<{ zoneId: ZoneId; kind: IncidentKind } | null>(null);
+  const thresholds = useDensityThresholds();
+  const { result: batch } = useBatch();
+  // Empirical chance of each zone turning critical, from the last Monte Carlo batch
+  const criticalChance = useMemo(
+    () =>
+      new Map(
+        batch ? summarizeBatch(batch, thresholds).map(zone => [zone.zoneId, zone.criticalProbability]) : []
+      ),
+    [batch, thresholds]
+  );
 
-  const [mlMetrics, setMlMetrics] = useState<MLMetrics>({
-    accuracy: 92.4,
-    precision: 89.7,
-    recall: 91.2,
-    f1Score: 90.4
-  });
+  const predictions: RiskPrediction[] = useMemo(
+    () =>
+      predictZones(snapshot, getCrowdHistory(), forecaster, {
+        arrivalProfile: params.arrivalProfile,
+        weather: params.weather,
+        closures: params.closures
+      }).map(prediction => ({
+        id: prediction.zoneId,
+        zoneId: prediction.zoneId,
+        location: getZone(prediction.zoneId).name,
+        riskLevel: prediction.riskLevel,
+        timeToRisk: prediction.timeToRisk,
+        predictedCrowd: prediction.predictedCrowd,
+        lower: prediction.lower,
+        upper: prediction.upper,
+        change: (prediction.predictedCrowd - prediction.count) / Math.max(prediction.count, 1),
+        factors: prediction.factors
+      })),
+    [snapshot, forecaster, params.arrivalProfile, params.weather, params.closures]
+  );
+
+  const [backtestHorizon, setBacktestHorizon] = useState(BACKTEST_HORIZONS[1]);
+  const history = getCrowdHistory();
+  const backtestRound = Math.floor(history.length / BACKTEST_EVERY);
+  const runStartedAt = history[0]?.timestamp;
+  const [backtest, setBacktest] = useState(() =>
+    scoreHistory(forecaster, backtestHorizon, params.arrivalProfile, params.weather, thresholds)
+  );
 
+  // The history grows in place, so the round and run start tell when it is worth scoring again
   useEffect(() => {
-    const interval = setInterval(() => {
-      setPredictions(prev => prev.map(prediction => ({
-        ...prediction,
-        confidence: Math.max(70, Math.min(100, prediction.confidence + (Math.random() - 0.5) * 5)),
-        timeToRisk: Math.max(5, prediction.timeToRisk + Math.floor((Math.random() - 0.5) * 10))
-      })));
-
-      setMlMetrics(prev => ({
-        accuracy: Math.max(85, Math.min(100, prev.accuracy + (Math.random() - 0.5) * 2)),
-        precision: Math.max(80, Math.min(100, prev.precision + (Math.random() - 0.5) * 3)),
-        recall: Math.max(80, Math.min(100, prev.recall + (Math.random() - 0.5) * 3)),
-        f1Score: Math.max(80, Math.min(100, prev.f1Score + (Math.random() - 0.5) * 2))
-      }));
-    }, 5000);
-
-    return () => clearInterval(interval);
-  }, []);
+    setBacktest(scoreHistory(forecaster, backtestHorizon, params.arrivalProfile, params.weather, thresholds));
+  }, [backtestRound, runStartedAt, forecaster, backtestHorizon, params.arrivalProfile, params.weather, thresholds]);
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
   const getRiskColor = (risk: string) => {
     switch (risk) {
@@ -113,41 +182,49 @@ const RiskPrediction = () => {
       {/* AI Model Performance */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Brain className="h-5 w-5 text-kumbh-saffron" />
-            AI Model Performance
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5 text-kumbh-saffron" />
+              AI Model Performance
+            </CardTitle>
+            <Select value={String(backtestHorizon)} onValueChange={(value) => setBacktestHorizon(Number(value))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKTEST_HORIZONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>Critical within {option}min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Backtest of {forecaster.name.toLowerCase()}: does a zone reach its safe capacity within {backtest.horizonMinutes} minutes?
+          </p>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-kumbh-spiritual-blue">
-                {mlMetrics.accuracy.toFixed(1)}%
-              </div>
-              <div className="text-sm text-muted-foreground">Accuracy</div>
-              <Progress value={mlMetrics.accuracy} className="mt-2" />
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-kumbh-deep-saffron">
-                {mlMetrics.precision.toFixed(1)}%
-              </div>
-              <div className="text-sm text-muted-foreground">Precision</div>
-              <Progress value={mlMetrics.precision} className="mt-2" />
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-kumbh-river-blue">
-                {mlMetrics.recall.toFixed(1)}%
-              </div>
-              <div className="text-sm text-muted-foreground">Recall</div>
-              <Progress value={mlMetrics.recall} className="mt-2" />
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-kumbh-gold">
-                {mlMetrics.f1Score.toFixed(1)}%
-              </div>
-              <div className="text-sm text-muted-foreground">F1-Score</div>
-              <Progress value={mlMetrics.f1Score} className="mt-2" />
-            </div>
+            {ML_METRICS.map(metric => {
+              const value = backtest[metric.key];
+              return (
+                <div key={metric.key} className="text-center">
+                  <div className={`text-2xl font-bold ${metric.color}`}>
+                    {value === null ? '—' : `${(value * 100).toFixed(1)}%`}
+                  </div>
+                  <div className="text-sm text-muted-foreground">{metric.label}</div>
+                  <Progress value={(value ?? 0) * 100} className="mt-2" />
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+            <span>
+              Window: {backtest.samples > 0 ? `${formatTime(backtest.start)} - ${formatTime(backtest.end)}` : 'not enough history yet'}
+            </span>
+            <span>{backtest.samples.toLocaleString()} forecasts across {backtest.zones} zones</span>
+            <span>
+              TP {backtest.matrix.truePositives} • FP {backtest.matrix.falsePositives} • FN {backtest.matrix.falseNegatives} • TN {backtest.matrix.trueNegatives}
+            </span>
           </div>
         </CardContent>
       </Card>
@@ -160,10 +237,23 @@ const RiskPrediction = () => {
               <AlertTriangle className="h-5 w-5 text-kumbh-saffron" />
               Predictive Risk Analysis
             </CardTitle>
-            <Badge variant="secondary" className="bg-kumbh-saffron/10">
-              AI Powered
-            </Badge>
+            <Select value={forecasterId} onValueChange={setForecasterId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECASTERS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          <p className="text-sm text-muted-foreground">
+            {forecaster.description}. Forecasts {DEFAULT_HORIZON_MINUTES} minutes ahead with {Math.round(INTERVAL_LEVEL * 100)}% intervals.
+            {batch
+              ? ` Chance of Critical from ${batch.runs.length} simulated runs of ${batch.name}.`
+              : ' Run a Monte Carlo batch for the chance of each zone turning critical.'}
+          </p>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -185,17 +275,19 @@ const RiskPrediction = () => {
                     </div>
                     <div className="text-right">
                       <div className="text-2xl font-bold text-kumbh-spiritual-blue">
-                        {prediction.confidence}%
+                        {prediction.lower.toLocaleString()}-{prediction.upper.toLocaleString()}
                       </div>
-                      <div className="text-sm text-muted-foreground">Confidence</div>
+                      <div className="text-sm text-muted-foreground">{Math.round(INTERVAL_LEVEL * 100)}% Interval</div>
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                     <div className="flex items-center gap-2">
                       <Clock className="h-4 w-4 text-muted-foreground" />
                       <div>
-                        <div className="font-semibold">{prediction.timeToRisk}min</div>
+                        <div className="font-semibold">
+                          {prediction.timeToRisk === null ? `>${RISK_HORIZON_MINUTES}min` : `${prediction.timeToRisk}min`}
+                        </div>
                         <div className="text-xs text-muted-foreground">Time to Risk</div>
                       </div>
                     </div>
@@ -209,21 +301,28 @@ const RiskPrediction = () => {
                     <div className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4 text-muted-foreground" />
                       <div>
-                        <div className="font-semibold">+12%</div>
-                        <div className="text-xs text-muted-foreground">Growth Rate</div>
+                        <div className="font-semibold">
+                          {prediction.change >= 0 ? '+' : ''}{Math.round(prediction.change * 100)}%
+                        </div>
+                        <div className="text-xs text-muted-foreground">Change in {DEFAULT_HORIZON_MINUTES}min</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Activity className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <div className="font-semibold">
+                          {criticalChance.has(prediction.zoneId)
+                            ? `${Math.round(criticalChance.get(prediction.zoneId)! * 100)}%`
+                            : '—'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">Chance of Critical</div>
                       </div>
                     </div>
                   </div>
 
                   <div className="space-y-2">
                     <h4 className="font-medium text-sm">Contributing Factors:</h4>
-                    <div className="flex flex-wrap gap-1">
-                      {prediction.factors.map((factor, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {factor}
-                        </Badge>
-                      ))}
-                    </div>
+                    <FactorChart factors={prediction.factors} />
                   </div>
 
                   {prediction.riskLevel === 'critical' && (
@@ -233,10 +332,18 @@ const RiskPrediction = () => {
                         <span className="font-semibold text-red-800">Immediate Action Required</span>
                       </div>
                       <div className="flex gap-2">
-                        <Button size="sm" variant="destructive">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setDeployment({ zoneId: prediction.zoneId, kind: 'crowd-control' })}
+                        >
                           Deploy Response Team
                         </Button>
-                        <Button size="sm" variant="outline">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDeployment({ zoneId: prediction.zoneId, kind: 'diversion' })}
+                        >
                           Alternative Routes
                         </Button>
                       </div>
@@ -248,6 +355,16 @@ const RiskPrediction = () => {
           </div>
         </CardContent>
       </Card>
+
+      {deployment && (
+        <IncidentDialog
+          open
+          onOpenChange={(open) => !open && setDeployment(null)}
+          zoneId={deployment.zoneId}
+          kind={deployment.kind}
+          priority="critical"
+        />
+      )}
     </div>
   );
 };
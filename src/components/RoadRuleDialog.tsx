@@ -0,0 +1,230 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { EDGES, getEdgeIndex, getNode } from '@/lib/simulation/network';
+import type { ClosureKind } from '@/lib/simulation/params';
+import {
+  CLOSURE_KINDS,
+  fromRoadRuleForm,
+  roadRuleFormSchema,
+  toRoadRuleForm,
+  type RoadRuleForm
+} from '@/lib/simulation/road-rules';
+import { setRouteClosures } from '@/lib/simulation/runtime';
+
+interface RoadRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Position of the closure to edit in the run's closures, or null to add a new one
+  index: number | null;
+}
+
+const NEW_RULE: RoadRuleForm = toRoadRuleForm({ edgeId: 'ramkund-approach' });
+
+const RoadRuleDialog = ({ open, onOpenChange, index }: RoadRuleDialogProps) => {
+  const { params } = useSimulationRuntime();
+  const closure = index !== null ? params.closures[index] : undefined;
+  const form = useForm<RoadRuleForm>({
+    resolver: zodResolver(roadRuleFormSchema),
+    defaultValues: closure ? toRoadRuleForm(closure) : NEW_RULE
+  });
+  const kind = form.watch('kind');
+  const edge = EDGES[getEdgeIndex(form.watch('edgeId'))];
+
+  useEffect(() => {
+    if (open) {
+      form.reset(closure ? toRoadRuleForm(closure) : NEW_RULE);
+    }
+  }, [open, closure, form]);
+
+  const handleSubmit = (values: RoadRuleForm) => {
+    const next = fromRoadRuleForm(values, params.startTime);
+    setRouteClosures(
+      index !== null ? params.closures.map((existing, position) => (position === index ? next : existing)) : [...params.closures, next]
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{closure ? 'Edit Road Closure' : 'New Road Closure'}</DialogTitle>
+          <DialogDescription>
+            The crowd model, route guidance and response units all keep to the closure while it is in force.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="edgeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Road</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('towards', EDGES[getEdgeIndex(value)].to);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {EDGES.map(item => (
+                          <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Restriction</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => field.onChange(value as ClosureKind)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(CLOSURE_KINDS) as ClosureKind[]).map(key => (
+                          <SelectItem key={key} value={key}>{CLOSURE_KINDS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {kind === 'one-way' && (
+              <FormField
+                control={form.control}
+                name="towards"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pilgrims Walk Towards</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {[edge.to, edge.from].map(node => (
+                          <SelectItem key={node} value={node}>{getNode(node).name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {kind === 'limited' && (
+              <FormField
+                control={form.control}
+                name="openPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Width Left Open (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={10} max={90} step={5} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      {edge.widthM} m road; barricades leave {((edge.widthM * Number(field.value)) / 100).toFixed(1)} m to walk.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormDescription>Empty for the start of the run.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="until"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Until</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormDescription>Empty to keep it in force.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="sacred">
+                Save Closure
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoadRuleDialog;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Construction, Pencil, Plus, Trash2 } from 'lucide-react';
+import RoadRuleDialog from '@/components/RoadRuleDialog';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { EDGES, getEdgeIndex } from '@/lib/simulation/network';
+import { isClosureActive, type ClosureKind } from '@/lib/simulation/params';
+import { CLOSURE_KINDS, describeClosure, describeClosureWindow } from '@/lib/simulation/road-rules';
+import { setRouteClosures } from '@/lib/simulation/runtime';
+
+const kindStyles: Record<ClosureKind, string> = {
+  closed: 'bg-red-500 text-white',
+  'one-way': 'bg-blue-600 text-white',
+  limited: 'bg-amber-500 text-white'
+};
+
+const RoadRulesPanel = () => {
+  const { params } = useSimulationRuntime();
+  const clock = useSimulationClock();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<number | null>(null);
+
+  const openDialog = (index: number | null) => {
+    setEditing(index);
+    setDialogOpen(true);
+  };
+
+  const status = (from?: number, until?: number) => {
+    if (from !== undefined && clock.time < from) return 'Upcoming';
+    if (until !== undefined && clock.time >= until) return 'Ended';
+    return 'In force';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Construction className="h-5 w-5 text-kumbh-saffron" />
+            Road Closures &amp; Corridors
+          </CardTitle>
+          <Button variant="sacred" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Closure
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {params.closures.length === 0 && (
+          <p className="text-sm text-muted-foreground">Every road is open in both directions.</p>
+        )}
+        {params.closures.map((closure, index) => {
+          const kind = closure.kind ?? 'closed';
+          const active = isClosureActive(closure, clock.time);
+          return (
+            <div
+              key={`${closure.edgeId}-${index}`}
+              className={`flex items-center gap-4 p-3 rounded-lg border bg-card/50 ${active ? '' : 'opacity-60'}`}
+            >
+              <Badge className={kindStyles[kind]}>{CLOSURE_KINDS[kind]}</Badge>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-sm">{EDGES[getEdgeIndex(closure.edgeId)]?.name ?? closure.edgeId}</span>
+                  <Badge variant="outline" className="text-xs">{status(closure.from, closure.until)}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {describeClosure(closure)} · {describeClosureWindow(closure)}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openDialog(index)} aria-label="Edit closure">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setRouteClosures(params.closures.filter((_, position) => position !== index))}
+                aria-label="Delete closure"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <RoadRuleDialog open={dialogOpen} onOpenChange={setDialogOpen} index={editing} />
+    </Card>
+  );
+};
+
+export default RoadRulesPanel;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Clock, Map as MapIcon, Route as RouteIcon } from 'lucide-react';
+import { useCrowdSnapshot } from '@/hooks/use-crowd';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { describeRoute, formatDistance, formatDuration, peakDensity } from '@/lib/routing/planner';
+import {
+  DEFAULT_ROUTE_START,
+  getRouteConditions,
+  planRequestedRoute,
+  setRouteRequest,
+  type RouteRequest
+} from '@/lib/routing/guidance';
+import type { Route } from '@/lib/routing/travel';
+
+interface RouteGuidanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Start with the nearest uncrowded zone as the destination
+  safe?: boolean;
+}
+
+const RouteGuidanceDialog = ({ open, onOpenChange, safe = false }: RouteGuidanceDialogProps) => {
+  const navigate = useNavigate();
+  const snapshot = useCrowdSnapshot();
+  const [request, setRequest] = useState<RouteRequest>({ from: DEFAULT_ROUTE_START, to: safe ? 'safe' : 'ramkund-ghat' });
+  const plan = planRequestedRoute(request, getRouteConditions(snapshot));
+
+  useEffect(() => {
+    if (open) {
+      setRequest(prev => ({ ...prev, to: safe ? 'safe' : prev.to === 'safe' ? 'ramkund-ghat' : prev.to }));
+    }
+  }, [open, safe]);
+
+  const showOnMap = () => {
+    setRouteRequest(request);
+    onOpenChange(false);
+    navigate('/', { state: { tab: 'heatmap' } });
+  };
+
+  const renderRoute = (route: Route, recommended: boolean) => (
+    <div
+      key={route.edges.join()}
+      className={`p-3 rounded-lg border space-y-1 ${recommended ? 'border-kumbh-saffron bg-kumbh-saffron/5' : 'bg-card/50'}`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-semibold">
+          <Clock className="h-4 w-4 text-kumbh-saffron" />
+          {formatDuration(route.seconds)}
+          <span className="text-sm font-normal text-muted-foreground">{formatDistance(route.lengthM)}</span>
+        </div>
+        {recommended ? (
+          <Badge className="bg-kumbh-saffron text-white">Recommended</Badge>
+        ) : (
+          <Badge variant="outline">Alternative</Badge>
+        )}
+      </div>
+      <p className="text-sm">Via {describeRoute(route) || 'the zone itself'}</p>
+      <p className="text-xs text-muted-foreground">
+        Busiest stretch {peakDensity(route, snapshot).toFixed(1)} persons/m²
+      </p>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RouteIcon className="h-5 w-5 text-kumbh-saffron" />
+            {safe ? 'Safe Route Guidance' : 'Route Guidance'}
+          </DialogTitle>
+          <DialogDescription>
+            Walking routes that avoid closed roads and account for the crowd on every road and in every zone on the way.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Select value={request.from} onValueChange={(value) => setRequest(prev => ({ from: value as ZoneId, to: prev.to === value ? 'safe' : prev.to }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ZONES.map(zone => (
+                  <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Select
+              value={request.to}
+              onValueChange={(value) => setRequest(prev => ({ ...prev, to: value as RouteRequest['to'] }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="safe">Nearest uncrowded area</SelectItem>
+                {ZONES.filter(zone => zone.id !== request.from).map(zone => (
+                  <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {plan ? (
+            <>
+              {request.to === 'safe' && (
+                <p className="text-sm text-muted-foreground">
+                  Nearest uncrowded area: <span className="font-medium text-foreground">{getZone(plan.to as ZoneId).name}</span>
+                </p>
+              )}
+              {renderRoute(plan.best, true)}
+              {plan.alternatives.map(route => renderRoute(route, false))}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Every route there is closed right now. Follow the instructions of police and volunteers on the ground.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button variant="sacred" onClick={showOnMap} disabled={!plan}>
+            <MapIcon className="h-4 w-4 mr-1" />
+            Show on Map
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RouteGuidanceDialog;
@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Bar, BarChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { GitCompare, Loader2 } from 'lucide-react';
+import { useDensityThresholds } from '@/hooks/use-density-thresholds';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { ZONES } from '@/lib/crowd/zones';
+import { diffOutcomes, summarizeRun, type RunOutcome } from '@/lib/simulation/compare';
+import type { RunResult } from '@/lib/simulation/run';
+import {
+  BUILT_IN_SCENARIOS,
+  loadSavedScenarios,
+  paramsToScenario,
+  scenarioToParams,
+  type Scenario
+} from '@/lib/simulation/scenarios';
+import { runInWorker } from '@/lib/simulation/worker-client';
+
+const SAMPLE_MINUTES = 5;
+const CURRENT_ID = 'current';
+
+type Metric = 'peakDensity' | 'minutesCritical' | 'exposure';
+
+const metricLabels: Record<Metric, string> = {
+  peakDensity: 'Peak Density (/m²)',
+  minutesCritical: 'Time Critical (min)',
+  exposure: 'Exposure (person-min)'
+};
+
+const SERIES_COLORS = [
+  'hsl(var(--kumbh-spiritual-blue))',
+  'hsl(var(--kumbh-saffron))',
+  'hsl(var(--kumbh-river-blue))',
+  'hsl(var(--kumbh-deep-saffron))',
+  'hsl(var(--kumbh-gold))'
+];
+
+const formatMetric = (metric: Metric, value: number) =>
+  metric === 'peakDensity' ? value.toFixed(2) : Math.round(value).toLocaleString();
+
+const formatDifference = (metric: Metric, value: number) =>
+  `${value > 0 ? '+' : ''}${formatMetric(metric, value)}`;
+
+interface ComparedRun {
+  name: string;
+  run: RunResult;
+}
+
+// One bar per scenario for each zone
+const ComparisonChart = ({
+  names,
+  rows,
+  metric,
+  critical
+}: {
+  names: string[];
+  rows: Record<string, number | string>[];
+  metric: Metric;
+  critical?: number;
+}) => {
+  const config: ChartConfig = {};
+  names.forEach((name, index) => {
+    config[`run${index}`] = { label: name, color: SERIES_COLORS[index % SERIES_COLORS.length] };
+  });
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full">
+      <BarChart data={rows} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+        <XAxis dataKey="zone" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+        <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value) => formatMetric(metric, Number(value))} />
+        <ChartTooltip
+          content={<ChartTooltipContent formatter={(value, name) => `${config[String(name)]?.label}: ${formatMetric(metric, Number(value))}`} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {critical !== undefined && <ReferenceLine y={critical} stroke="hsl(0 84% 60%)" strokeDasharray="4 3" />}
+        <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+        {names.map((_name, index) => (
+          <Bar key={`run${index}`} dataKey={`run${index}`} fill={`var(--color-run${index})`} radius={2} isAnimationActive={false} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const ScenarioComparison = () => {
+  const { params } = useSimulationRuntime();
+  const thresholds = useDensityThresholds();
+  const [selected, setSelected] = useState<string[]>([CURRENT_ID, 'festival-day']);
+  const [hours, setHours] = useState('6');
+  const [seed, setSeed] = useState(String(params.seed));
+  const [metric, setMetric] = useState<Metric>('peakDensity');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ComparedRun[]>([]);
+
+  const choices: Scenario[] = [
+    paramsToScenario(params, 'Current setup'),
+    ...BUILT_IN_SCENARIOS,
+    ...loadSavedScenarios()
+  ].map((item, index) => (index === 0 ? { ...item, id: CURRENT_ID } : item));
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(item => item !== id)));
+
+  const handleRun = async () => {
+    const scenarios = selected
+      .map(id => choices.find(item => item.id === id))
+      .filter((item): item is Scenario => item !== undefined);
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const results: ComparedRun[] = [];
+      // One at a time: the worker runs a single job and the runs share the machine anyway
+      for (const scenario of scenarios) {
+        const run = await runInWorker(
+          { ...scenarioToParams(scenario, params.startTime), seed: Number(seed) },
+          { durationMinutes: Number(hours) * 60, sampleEveryMinutes: SAMPLE_MINUTES }
+        );
+        results.push({ name: scenario.name, run });
+      }
+      setRuns(results);
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : 'Simulation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const outcomes: RunOutcome[] = runs.map(({ run }) => summarizeRun(run, SAMPLE_MINUTES, thresholds));
+  const names = runs.map(({ name }) => name);
+  const valueRows = ZONES.map(zone => ({
+    zone: zone.shortName,
+    ...Object.fromEntries(outcomes.map((outcome, index) => [`run${index}`, outcome.zones[zone.id][metric]]))
+  }));
+  const differences = outcomes.slice(1).map(outcome => diffOutcomes(outcomes[0], outcome));
+  const differenceRows = ZONES.map((zone, position) => ({
+    zone: zone.shortName,
+    ...Object.fromEntries(differences.map((difference, index) => [`run${index}`, difference[position][metric]]))
+  }));
+
+  const isValid =
+    selected.length >= 2 && Number(hours) > 0 && Number(hours) <= 24 && Number.isInteger(Number(seed)) && Number(seed) >= 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-kumbh-saffron" />
+            Scenario Comparison
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            Same Seed
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Scenarios</label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {choices.map(item => (
+              <label key={item.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(item.id)}
+                  onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                />
+                <span className="truncate">{item.name}</span>
+                {selected[0] === item.id && (
+                  <Badge variant="outline" className="text-xs">Baseline</Badge>
+                )}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The first scenario ticked is the baseline the others are measured against.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Run Hours</label>
+            <Input type="number" min={1} max={24} className="w-32" value={hours} onChange={(e) => setHours(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Seed</label>
+            <Input type="number" min={0} className="w-32" value={seed} onChange={(e) => setSeed(e.target.value)} />
+          </div>
+          <Button variant="sacred" onClick={handleRun} disabled={isRunning || !isValid}>
+            {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+            Compare {selected.length} Scenarios
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {runs.length > 0 && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scenario</TableHead>
+                  <TableHead className="text-right">Peak Density</TableHead>
+                  <TableHead className="text-right">Longest Critical</TableHead>
+                  <TableHead className="text-right">Exposure</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(({ name }, index) => {
+                  const outcome = outcomes[index];
+                  const peak = Math.max(...ZONES.map(zone => outcome.zones[zone.id].peakDensity));
+                  const worst = ZONES.find(zone => outcome.zones[zone.id].peakDensity === peak)!;
+                  const exposureChange = outcome.exposure - outcomes[0].exposure;
+                  return (
+                    <TableRow key={`${name}-${index}`}>
+                      <TableCell className="font-medium">
+                        {name}
+                        {index === 0 && <Badge variant="outline" className="ml-2 text-xs">Baseline</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {peak.toFixed(2)}/m² <span className="text-xs text-muted-foreground">at {worst.shortName}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{outcome.minutesCritical} min</TableCell>
+                      <TableCell className="text-right">
+                        {Math.round(outcome.exposure).toLocaleString()}
+                        {index > 0 && (
+                          <span className={`ml-2 text-xs ${exposureChange > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatDifference('exposure', exposureChange)}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-sm font-medium">By Zone</label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(metricLabels) as Metric[]).map(key => (
+                    <SelectItem key={key} value={key}>{metricLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ComparisonChart
+              names={names}
+              rows={valueRows}
+              metric={metric}
+              critical={metric === 'peakDensity' ? thresholds.critical : undefined}
+            />
+
+            {differences.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Change from {names[0]}</label>
+                <ComparisonChart names={names.slice(1)} rows={differenceRows} metric={metric} />
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Zones count as critical from {thresholds.critical} persons/m², sampled every {SAMPLE_MINUTES} minutes.
+              Exposure adds up everyone inside a zone for each minute it was critical.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScenarioComparison;
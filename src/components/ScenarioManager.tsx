@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FolderOpen, Save, Download, Upload, Trash2, Play } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { applyScenario } from '@/lib/simulation/runtime';
+import {
+  deleteScenario,
+  exportScenarios,
+  loadSavedScenarios,
+  paramsToScenario,
+  parseScenarios,
+  saveScenarios,
+  type Scenario
+} from '@/lib/simulation/scenarios';
+
+const ScenarioManager = () => {
+  const { params, scenario } = useSimulationRuntime();
+  const [saved, setSaved] = useState<Scenario[]>(loadSavedScenarios);
+  const [name, setName] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const current = paramsToScenario(params, name.trim());
+    setSaved(saveScenarios([current]));
+    setName('');
+    toast({ title: 'Scenario saved', description: `"${current.name}" can now be reloaded or exported.` });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseScenarios(await file.text());
+      setSaved(saveScenarios(imported));
+      toast({
+        title: 'Scenarios imported',
+        description: imported.map(item => item.name).join(', ')
+      });
+    } catch (importError) {
+      toast({
+        title: 'Import failed',
+        description: importError instanceof Error ? importError.message : 'Could not read the file.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleExport = (item: Scenario) => {
+    const filename = `${item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.scenario.json`;
+    exportScenarios([item], filename);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5 text-kumbh-saffron" />
+            Scenarios
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            {scenario ? scenario.name : 'Custom'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Save the live parameters */}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name this setup"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+          />
+          <Button variant="sacred" onClick={handleSave} disabled={!name.trim()}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+
+        {/* Saved scenarios */}
+        {saved.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved scenarios yet. Save the current setup or import a shared JSON file.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {saved.map(item => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{item.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.totalPilgrims.toLocaleString()} pilgrims · from {item.startHour.toString().padStart(2, '0')}:00 ·{' '}
+                    {item.events.length} events
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" title="Load" onClick={() => applyScenario(item)}>
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Export JSON" onClick={() => handleExport(item)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Delete" onClick={() => setSaved(deleteScenario(item.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScenarioManager;
@@ -0,0 +1,187 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { toast } from '@/hooks/use-toast';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { ZONES } from '@/lib/crowd/zones';
+import {
+  simulationConfigSchema,
+  toSimulationConfig,
+  type SimulationConfig
+} from '@/lib/simulation/params';
+import { applySimulationParams } from '@/lib/simulation/runtime';
+
+interface SimulationConfigDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SimulationConfigDialog = ({ open, onOpenChange }: SimulationConfigDialogProps) => {
+  const { params } = useSimulationRuntime();
+  const form = useForm<SimulationConfig>({
+    resolver: zodResolver(simulationConfigSchema),
+    defaultValues: toSimulationConfig(params)
+  });
+
+  // Start from the live parameters each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toSimulationConfig(params));
+    }
+  }, [open, params, form]);
+
+  const handleSubmit = (values: SimulationConfig) => {
+    applySimulationParams(values);
+    onOpenChange(false);
+    toast({
+      title: 'Parameters applied',
+      description: `Simulation restarted with seed ${values.seed}.`
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Simulation Parameters</DialogTitle>
+          <DialogDescription>
+            Applying new parameters restarts the run from its initial population.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="seed"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Random Seed</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="initialPopulation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Pilgrims</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={1000} {...field} />
+                    </FormControl>
+                    <FormDescription>On site at the busiest hour of the day</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="arrivalsPerHour"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Arrivals per Hour</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={1000} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="walkingSpeed.mean"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Walking Speed (m/s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.05} {...field} />
+                    </FormControl>
+                    <FormDescription>Free-flow speed on an empty road</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="walkingSpeed.sd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Speed Spread (m/s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.05} {...field} />
+                    </FormControl>
+                    <FormDescription>Standard deviation across pilgrims</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Zone Capacities</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {ZONES.map(zone => (
+                  <FormField
+                    key={zone.id}
+                    control={form.control}
+                    name={`zoneCapacities.${zone.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{zone.name}</FormLabel>
+                        <FormControl>
+                          <Input type="number" step={1000} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="sacred">
+                Apply & Restart
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SimulationConfigDialog;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +14,21 @@ import {
   Users,
   Activity
 } from 'lucide-react';
+import SimulationConfigDialog from '@/components/SimulationConfigDialog';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { MAX_SPEED, MIN_SPEED, setClockSpeed } from '@/lib/simulation/clock';
+import {
+  applyScenario,
+  resetSimulation,
+  setSimulationStartHour,
+  stopSimulation,
+  updateSimulationParams
+} from '@/lib/simulation/runtime';
+import { getScheduleWindow } from '@/lib/crowd/schedule';
+import { rainIntensity, weatherSpeedFactor } from '@/lib/simulation/conditions';
+import { BUILT_IN_SCENARIOS } from '@/lib/simulation/scenarios';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
 
 interface SimulationControlProps {
   isRunning: boolean;
@@ -21,15 +36,47 @@ interface SimulationControlProps {
 }
 
 const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
-  const [speed, setSpeed] = useState([1]);
-  const [totalPilgrims, setTotalPilgrims] = useState([50000]);
-  const [timeOfDay, setTimeOfDay] = useState([14]); // 14:00 (2 PM)
-  const [weatherIntensity, setWeatherIntensity] = useState([70]);
+  const clock = useSimulationClock();
+  const { status, summary, params, scenario } = useSimulationRuntime();
+  const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [totalPilgrims, setTotalPilgrims] = useState([params.initialPopulation]);
+  const [timeOfDay, setTimeOfDay] = useState([new Date(params.startTime).getHours()]);
+  const [weatherIntensity, setWeatherIntensity] = useState([params.weather]);
+
+  // Sliders follow the live parameters when a scenario or config replaces them
+  useEffect(() => {
+    setTotalPilgrims([params.initialPopulation]);
+    setTimeOfDay([new Date(params.startTime).getHours()]);
+    setWeatherIntensity([params.weather]);
+  }, [params]);
+
+  // Scales arrivals from now on by the same factor; the crowd already on site stays until a reset
+  const handlePilgrimsCommit = (value: number) => {
+    const scale = params.initialPopulation > 0 ? value / params.initialPopulation : 1;
+    updateSimulationParams({ initialPopulation: value, arrivalsPerHour: params.arrivalsPerHour * scale });
+  };
 
   const formatTime = (hour: number) => {
     return `${hour.toString().padStart(2, '0')}:00`;
   };
 
+  const getStatusLabel = () => {
+    switch (status) {
+      case 'running': return 'Running';
+      case 'paused': return 'Paused';
+      default: return 'Stopped';
+    }
+  };
+
+  const busiestZones = (Object.entries(summary.peaks) as [ZoneId, { count: number; time: number }][])
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, 3);
+
+  const formatDuration = (milliseconds: number) => {
+    const minutes = Math.round(milliseconds / 60000);
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
   const getWeatherDescription = (intensity: number) => {
     if (intensity < 30) return 'Clear';
     if (intensity < 60) return 'Partly Cloudy';
@@ -37,6 +84,14 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
     return 'Heavy Rain';
   };
 
+  // What the model does with the slider values, so operators can see why numbers move
+  const scheduleWindow = getScheduleWindow(timeOfDay[0]);
+  const getWeatherEffect = (intensity: number) => {
+    if (rainIntensity(intensity) === 0) return 'No effect on movement';
+    const slowdown = Math.round((1 - weatherSpeedFactor(intensity)) * 100);
+    return `Walkers ${slowdown}% slower, crowds shifting to covered areas`;
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Simulation Controls */}
@@ -52,10 +107,17 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
           <div className="flex items-center justify-between">
             <span className="text-sm font-medium">Status</span>
             <Badge variant={isRunning ? "default" : "secondary"} className={isRunning ? "bg-green-600" : ""}>
-              {isRunning ? 'Running' : 'Stopped'}
+              {getStatusLabel()}
             </Badge>
           </div>
 
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Simulated Time</span>
+            <span className="text-sm text-muted-foreground">
+              {new Date(clock.time).toLocaleString()}
+            </span>
+          </div>
+
           {/* Control Buttons */}
           <div className="grid grid-cols-4 gap-2">
             <Button
@@ -72,6 +134,8 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
               variant="outline"
               size="sm"
               className="flex flex-col gap-1 h-auto py-3"
+              onClick={stopSimulation}
+              disabled={status === 'stopped'}
             >
               <Square className="h-4 w-4" />
               <span className="text-xs">Stop</span>
@@ -81,6 +145,7 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
               variant="outline"
               size="sm"
               className="flex flex-col gap-1 h-auto py-3"
+              onClick={resetSimulation}
             >
               <RotateCcw className="h-4 w-4" />
               <span className="text-xs">Reset</span>
@@ -90,6 +155,7 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
               variant="outline"
               size="sm"
               className="flex flex-col gap-1 h-auto py-3"
+              onClick={() => setIsConfigOpen(true)}
             >
               <Settings className="h-4 w-4" />
               <span className="text-xs">Config</span>
@@ -103,20 +169,47 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
                 <Activity className="h-4 w-4" />
                 Simulation Speed
               </label>
-              <span className="text-sm text-muted-foreground">{speed[0]}x</span>
+              <span className="text-sm text-muted-foreground">{clock.speed.toFixed(1)}x</span>
             </div>
             <Slider
-              value={speed}
-              onValueChange={setSpeed}
-              max={5}
-              min={0.1}
+              value={[clock.speed]}
+              onValueChange={([value]) => setClockSpeed(value)}
+              max={MAX_SPEED}
+              min={MIN_SPEED}
               step={0.1}
               className="w-full"
             />
           </div>
+
+          {/* Run Results */}
+          {status === 'stopped' && (
+            <div className="rounded-lg border bg-accent/30 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Run Results</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDuration(summary.endedAt - summary.startedAt)} simulated
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Peak on site</span>
+                <span className="font-semibold">{summary.peakTotal.toLocaleString()}</span>
+              </div>
+              {busiestZones.map(([zoneId, peak]) => (
+                <div key={zoneId} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{getZone(zoneId).name}</span>
+                  <span>
+                    {peak.count.toLocaleString()} at{' '}
+                    {new Date(peak.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <SimulationConfigDialog open={isConfigOpen} onOpenChange={setIsConfigOpen} />
+
       {/* Environment Parameters */}
       <Card>
         <CardHeader>
@@ -140,7 +233,8 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
             <Slider
               value={totalPilgrims}
               onValueChange={setTotalPilgrims}
-              max={200000}
+              onValueCommit={([value]) => handlePilgrimsCommit(value)}
+              max={300000}
               min={10000}
               step={5000}
               className="w-full"
@@ -161,11 +255,15 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
             <Slider
               value={timeOfDay}
               onValueChange={setTimeOfDay}
+              onValueCommit={([value]) => setSimulationStartHour(value)}
               max={23}
               min={0}
               step={1}
               className="w-full"
             />
+            <p className="text-xs text-muted-foreground">
+              {scheduleWindow ? scheduleWindow.activity : 'Night - few arrivals'}
+            </p>
           </div>
 
           {/* Weather Conditions */}
@@ -179,29 +277,32 @@ const SimulationControl = ({ isRunning, onToggle }: SimulationControlProps) => {
             <Slider
               value={weatherIntensity}
               onValueChange={setWeatherIntensity}
+              onValueCommit={([value]) => updateSimulationParams({ weather: value })}
               max={100}
               min={0}
               step={5}
               className="w-full"
             />
+            <p className="text-xs text-muted-foreground">
+              {getWeatherEffect(weatherIntensity[0])}
+            </p>
           </div>
 
           {/* Quick Presets */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Quick Scenarios</label>
             <div className="grid grid-cols-2 gap-2">
-              <Button variant="outline" size="sm">
-                Peak Hours
-              </Button>
-              <Button variant="outline" size="sm">
-                Emergency
-              </Button>
-              <Button variant="outline" size="sm">
-                Normal Day
-              </Button>
-              <Button variant="outline" size="sm">
-                Festival Day
-              </Button>
+              {BUILT_IN_SCENARIOS.map(preset => (
+                <Button
+                  key={preset.id}
+                  variant={scenario?.id === preset.id ? "sacred" : "outline"}
+                  size="sm"
+                  title={preset.description}
+                  onClick={() => applyScenario(preset)}
+                >
+                  {preset.name}
+                </Button>
+              ))}
             </div>
           </div>
         </CardContent>
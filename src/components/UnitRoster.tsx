@@ -0,0 +1,66 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Truck } from 'lucide-react';
+import { useUnitStates } from '@/hooks/use-resources';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { UNIT_STATUSES, describeLocation, type UnitStatus } from '@/lib/resources/store';
+import { UNIT_TYPES, getUnit } from '@/lib/resources/units';
+
+const STATUS_COLORS: Record<UnitStatus, string> = {
+  available: 'bg-green-100 text-green-800 border-green-200',
+  'en-route': 'bg-orange-100 text-orange-800 border-orange-200',
+  'on-scene': 'bg-blue-100 text-blue-800 border-blue-200',
+  returning: 'bg-gray-100 text-gray-800 border-gray-200'
+};
+
+const UnitRoster = () => {
+  const units = useUnitStates();
+  const clock = useSimulationClock();
+  const free = units.filter(unit => unit.incidentId === null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5 text-kumbh-saffron" />
+            Response Units
+          </CardTitle>
+          <span className="text-xs text-muted-foreground">
+            {free} of {units.length} free
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {units.map(unit => {
+            const info = getUnit(unit.unitId);
+            return (
+              <div key={unit.unitId} className="flex items-center gap-3 p-3 rounded-lg border bg-card/50 text-sm">
+                <span className={`w-2 h-2 rounded-full ${UNIT_TYPES[info.type].color}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{info.callSign}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {describeLocation(unit)}
+                    {unit.incidentId && ` · ${unit.incidentId}`}
+                  </div>
+                </div>
+                {unit.eta !== null && (
+                  <span className="text-xs text-muted-foreground">
+                    {Math.max(0, Math.round((unit.eta - clock.time) / 60000))} min
+                  </span>
+                )}
+                <Badge variant="outline" className={STATUS_COLORS[unit.status]}>
+                  {UNIT_STATUSES[unit.status]}
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnitRoster;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { FlaskConical, Loader2, Users, Clock, AlertTriangle } from 'lucide-react';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { createDefaultParams } from '@/lib/simulation/params';
+import { runInWorker } from '@/lib/simulation/worker-client';
+import type { ZonePeak } from '@/lib/simulation/run';
+
+// How long the arrival surge lasts, and how long the run continues after it begins
+const SURGE_MINUTES = 60;
+const RUN_MINUTES = 360;
+
+const WhatIfAnalysis = () => {
+  const clock = useSimulationClock();
+  const [zoneId, setZoneId] = useState<ZoneId>('ramkund-ghat');
+  const [arrivals, setArrivals] = useState('200000');
+  const [hour, setHour] = useState('4');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ zoneId: ZoneId; peak: ZonePeak } | null>(null);
+
+  const handleRun = async () => {
+    const surgeAt = new Date(clock.time);
+    surgeAt.setHours(Number(hour), 0, 0, 0);
+    const params = createDefaultParams(surgeAt.getTime() - 60 * 60000);
+    params.pulses = [
+      { at: surgeAt.getTime(), durationMinutes: SURGE_MINUTES, count: Number(arrivals), destination: zoneId }
+    ];
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const run = await runInWorker(params, { durationMinutes: RUN_MINUTES, sampleEveryMinutes: 5 });
+      setResult({ zoneId, peak: run.peaks[zoneId] });
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : 'Simulation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const isValid = Number(arrivals) > 0 && Number(hour) >= 0 && Number(hour) <= 23;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-kumbh-saffron" />
+            What-If Analysis
+          </CardTitle>
+          <Badge variant="secondary" className="bg-kumbh-saffron/10">
+            Headless Run
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Destination</label>
+            <Select value={zoneId} onValueChange={(value) => setZoneId(value as ZoneId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ZONES.filter(zone => zone.kind !== 'transit').map(zone => (
+                  <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Arrivals</label>
+            <Input type="number" min={0} step={10000} value={arrivals} onChange={(e) => setArrivals(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Arrival Hour</label>
+            <Input type="number" min={0} max={23} value={hour} onChange={(e) => setHour(e.target.value)} />
+          </div>
+          <Button variant="sacred" onClick={handleRun} disabled={isRunning || !isValid}>
+            {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+            Run Scenario
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {result && (
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <Users className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+              <div className="text-2xl font-bold text-kumbh-spiritual-blue">
+                {result.peak.count.toLocaleString()}
+              </div>
+              <div className="text-sm text-muted-foreground">Peak at {getZone(result.zoneId).shortName}</div>
+            </div>
+            <div>
+              <Clock className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+              <div className="text-2xl font-bold text-kumbh-deep-saffron">
+                {new Date(result.peak.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+              <div className="text-sm text-muted-foreground">Time of Peak</div>
+            </div>
+            <div>
+              <AlertTriangle className="h-5 w-5 mx-auto text-kumbh-saffron mb-1" />
+              <div className="text-2xl font-bold text-kumbh-river-blue">
+                {result.peak.minutesAtCapacity} min
+              </div>
+              <div className="text-sm text-muted-foreground">At Capacity</div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WhatIfAnalysis;
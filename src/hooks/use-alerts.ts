@@ -0,0 +1,26 @@
+import * as React from "react"
+
+import { getAlerts, subscribeToAlerts } from "@/lib/alerts/engine"
+import { getAlertRules, subscribeToAlertRules } from "@/lib/alerts/rules"
+
+export function useAlerts() {
+  const [alerts, setAlerts] = React.useState(getAlerts)
+
+  React.useEffect(() => {
+    setAlerts(getAlerts())
+    return subscribeToAlerts(setAlerts)
+  }, [])
+
+  return alerts
+}
+
+export function useAlertRules() {
+  const [rules, setRules] = React.useState(getAlertRules)
+
+  React.useEffect(() => {
+    setRules(getAlertRules())
+    return subscribeToAlertRules(setRules)
+  }, [])
+
+  return rules
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getBatchState, subscribeToBatch } from "@/lib/simulation/batch"
+
+export function useBatch() {
+  const [state, setState] = React.useState(getBatchState)
+
+  React.useEffect(() => {
+    setState(getBatchState())
+    return subscribeToBatch(setState)
+  }, [])
+
+  return state
+}
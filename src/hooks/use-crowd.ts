@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import { getDisplayedSnapshot, subscribeToPlayback } from "@/lib/crowd/playback"
+import { subscribeToCrowd } from "@/lib/crowd/store"
+
+// The snapshot views draw, which follows the playback cursor when rewinding
+export function useCrowdSnapshot() {
+  const [snapshot, setSnapshot] = React.useState(getDisplayedSnapshot)
+
+  React.useEffect(() => {
+    const update = () => setSnapshot(getDisplayedSnapshot())
+    update()
+    const unsubscribeCrowd = subscribeToCrowd(update)
+    const unsubscribePlayback = subscribeToPlayback(update)
+    return () => {
+      unsubscribeCrowd()
+      unsubscribePlayback()
+    }
+  }, [])
+
+  return snapshot
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getDensityThresholds, subscribeToDensityThresholds } from "@/lib/crowd/density"
+
+export function useDensityThresholds() {
+  const [thresholds, setThresholds] = React.useState(getDensityThresholds)
+
+  React.useEffect(() => {
+    setThresholds(getDensityThresholds())
+    return subscribeToDensityThresholds(setThresholds)
+  }, [])
+
+  return thresholds
+}
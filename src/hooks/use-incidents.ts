@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getIncidentState, subscribeToIncidents } from "@/lib/incidents/store"
+
+export function useIncidents() {
+  const [state, setState] = React.useState(getIncidentState)
+
+  React.useEffect(() => {
+    setState(getIncidentState())
+    return subscribeToIncidents(setState)
+  }, [])
+
+  return state
+}
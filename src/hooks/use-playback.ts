@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import { getPlaybackState, subscribeToPlayback } from "@/lib/crowd/playback"
+import { getCrowdHistory, subscribeToCrowd } from "@/lib/crowd/store"
+
+function readTimeline() {
+  const history = getCrowdHistory()
+  return {
+    ...getPlaybackState(),
+    frames: history.length,
+    start: history[0]?.timestamp ?? 0,
+    end: history[history.length - 1]?.timestamp ?? 0,
+  }
+}
+
+export function usePlayback() {
+  const [timeline, setTimeline] = React.useState(readTimeline)
+
+  React.useEffect(() => {
+    const update = () => setTimeline(readTimeline())
+    update()
+    const unsubscribeCrowd = subscribeToCrowd(update)
+    const unsubscribePlayback = subscribeToPlayback(update)
+    return () => {
+      unsubscribeCrowd()
+      unsubscribePlayback()
+    }
+  }, [])
+
+  return timeline
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getUnitStates, subscribeToUnits } from "@/lib/resources/store"
+
+export function useUnitStates() {
+  const [units, setUnits] = React.useState(getUnitStates)
+
+  React.useEffect(() => {
+    setUnits(getUnitStates())
+    return subscribeToUnits(setUnits)
+  }, [])
+
+  return units
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getRouteRequest, subscribeToRouteRequest } from "@/lib/routing/guidance"
+
+export function useRouteRequest() {
+  const [request, setRequest] = React.useState(getRouteRequest)
+
+  React.useEffect(() => {
+    setRequest(getRouteRequest())
+    return subscribeToRouteRequest(setRequest)
+  }, [])
+
+  return request
+}
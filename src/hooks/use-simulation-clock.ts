@@ -0,0 +1,29 @@
+import * as React from "react"
+
+import {
+  getClockState,
+  onClockTick,
+  subscribeToClock,
+  type ClockState,
+} from "@/lib/simulation/clock"
+
+export function useSimulationClock() {
+  const [state, setState] = React.useState(getClockState)
+
+  React.useEffect(() => {
+    setState(getClockState())
+    return subscribeToClock(setState)
+  }, [])
+
+  return state
+}
+
+export function useClockTick(handler: (stepSeconds: number, state: ClockState) => void) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(
+    () => onClockTick((stepSeconds, state) => handlerRef.current(stepSeconds, state)),
+    []
+  )
+}
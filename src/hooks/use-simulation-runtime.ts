@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { getRuntimeState, subscribeToRuntime } from "@/lib/simulation/runtime"
+
+export function useSimulationRuntime() {
+  const [state, setState] = React.useState(getRuntimeState)
+
+  React.useEffect(() => {
+    setState(getRuntimeState())
+    return subscribeToRuntime(setState)
+  }, [])
+
+  return state
+}
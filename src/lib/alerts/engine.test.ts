@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DENSITY_STANDARDS, setDensityThresholds } from '@/lib/crowd/density';
+import { publishCrowdReading } from '@/lib/crowd/store';
+import { ZONES, getZone } from '@/lib/crowd/zones';
+import { getAlerts, resolveAlert } from './engine';
+import { DEFAULT_ALERT_RULES, deleteAlertRule, getAlertRules, resetAlertRules, saveAlertRule, type AlertRule } from './rules';
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+const RAMKUND = getZone('ramkund-ghat');
+const [WALKWAY, QUEUING] = DENSITY_STANDARDS;
+
+const RULE: AlertRule = {
+  id: 'test-density',
+  name: 'Dense',
+  metric: 'density',
+  comparison: 'above',
+  threshold: 2,
+  densityLevel: null,
+  sustainMinutes: 0,
+  severity: 'medium',
+  escalateAfterMinutes: null,
+  zoneIds: ['ramkund-ghat'],
+  enabled: true,
+};
+
+function replaceRules(rules: AlertRule[]) {
+  getAlertRules().forEach((rule) => deleteAlertRule(rule.id));
+  rules.forEach(saveAlertRule);
+}
+
+// Each test runs on a day of its own, so alerts left from earlier tests are told apart
+let start = new Date('2027-07-22T06:00:00').getTime();
+
+// Publishes Ramkund at `density` persons/m² and every other zone empty; minute 0 restarts the run
+function publishAt(minute: number, density: number) {
+  const counts = new Map(ZONES.map((zone) => [zone.id, zone.id === RAMKUND.id ? Math.round(density * zone.areaM2) : 0]));
+  publishCrowdReading({ tick: minute, timestamp: start + minute * MINUTE, counts, particles: new Float32Array() }, minute === 0);
+}
+
+const alertsFor = (ruleId: string) => getAlerts().filter((alert) => alert.ruleId === ruleId && alert.raisedAt >= start);
+const openAlertsFor = (ruleId: string) => alertsFor(ruleId).filter((alert) => alert.status !== 'resolved');
+
+beforeEach(() => {
+  start += DAY;
+  setDensityThresholds(WALKWAY.thresholds);
+});
+
+afterEach(() => {
+  resetAlertRules();
+  setDensityThresholds(WALKWAY.thresholds);
+});
+
+describe('alert engine', () => {
+  it('raises an alert only once the breach has held for the sustain time', () => {
+    replaceRules([{ ...RULE, sustainMinutes: 3 }]);
+
+    for (let minute = 0; minute <= 2; minute++) publishAt(minute, 3);
+    expect(alertsFor(RULE.id)).toHaveLength(0);
+
+    publishAt(3, 3);
+    const [alert] = alertsFor(RULE.id);
+    expect(alert.status).toBe('active');
+    expect(alert.raisedAt).toBe(start + 3 * MINUTE);
+  });
+
+  it('forgets a breach that lapses before the sustain time', () => {
+    replaceRules([{ ...RULE, sustainMinutes: 3 }]);
+
+    publishAt(0, 3);
+    publishAt(1, 3);
+    publishAt(2, 1);
+    publishAt(3, 3);
+    publishAt(4, 3);
+
+    expect(alertsFor(RULE.id)).toHaveLength(0);
+  });
+
+  it('keeps one open alert per rule and zone however long the breach lasts', () => {
+    replaceRules([{ ...RULE, zoneIds: null }]);
+
+    for (let minute = 0; minute <= 10; minute++) publishAt(minute, 3 + minute / 10);
+
+    const alerts = alertsFor(RULE.id);
+    expect(alerts.map((alert) => alert.zoneId)).toEqual([RAMKUND.id]);
+    expect(alerts[0].peakValue).toBeCloseTo(4, 2);
+  });
+
+  it('escalates a breach left open past its escalation time', () => {
+    replaceRules([{ ...RULE, escalateAfterMinutes: 5 }]);
+
+    for (let minute = 0; minute <= 4; minute++) publishAt(minute, 3);
+    expect(openAlertsFor(RULE.id)[0].severity).toBe('medium');
+
+    publishAt(5, 3);
+    const [alert] = openAlertsFor(RULE.id);
+    expect(alert.severity).toBe('high');
+    expect(alert.timeline.map((event) => event.kind)).toEqual(['raised', 'escalated']);
+  });
+
+  it('resolves an alert once the condition has stayed clear', () => {
+    replaceRules([RULE]);
+
+    publishAt(0, 3);
+    publishAt(1, 1);
+    expect(openAlertsFor(RULE.id)).toHaveLength(1);
+
+    publishAt(2, 1);
+    publishAt(3, 1);
+    const [alert] = alertsFor(RULE.id);
+    expect(alert.status).toBe('resolved');
+    expect(alert.resolvedAt).toBe(start + 3 * MINUTE);
+    expect(alert.timeline.at(-1)?.note).toBe('Condition cleared');
+  });
+
+  it('does not reopen an alert resolved by hand until the breach clears and recurs', () => {
+    replaceRules([RULE]);
+
+    publishAt(0, 3);
+    resolveAlert(alertsFor(RULE.id)[0].id, 'Test', start);
+    publishAt(1, 3);
+    expect(openAlertsFor(RULE.id)).toHaveLength(0);
+
+    publishAt(2, 1);
+    publishAt(3, 3);
+    expect(openAlertsFor(RULE.id)).toHaveLength(1);
+  });
+
+  it('compares a density level rule against the thresholds in force', () => {
+    replaceRules([{ ...RULE, threshold: 4, densityLevel: 'critical' }]);
+
+    setDensityThresholds(QUEUING.thresholds);
+    publishAt(0, 3);
+    expect(alertsFor(RULE.id)).toHaveLength(0);
+
+    setDensityThresholds(WALKWAY.thresholds);
+    publishAt(1, 3);
+    const [alert] = alertsFor(RULE.id);
+    expect(alert.threshold).toBe(WALKWAY.thresholds.critical);
+  });
+});
+
+describe('default alert rules', () => {
+  it('raise a crush density alert once a zone has stayed past critical density', () => {
+    replaceRules(DEFAULT_ALERT_RULES.filter((rule) => rule.id === 'crush-density'));
+
+    for (let minute = 0; minute <= 3; minute++) publishAt(minute, WALKWAY.thresholds.critical + 0.5);
+
+    expect(openAlertsFor('crush-density').map((alert) => alert.zoneId)).toEqual([RAMKUND.id]);
+  });
+});
@@ -0,0 +1,327 @@
+import { getCrowdHistory, subscribeToCrowd, type CrowdSnapshot, type ZoneReading } from '@/lib/crowd/store';
+import type { ZoneId } from '@/lib/crowd/zones';
+import { FORECASTERS } from '@/lib/forecast/forecasters';
+import { predictZone, zoneCountHistory } from '@/lib/forecast/predictions';
+import { getRuntimeState } from '@/lib/simulation/runtime';
+import {
+  SEVERITIES,
+  getAlertRules,
+  ruleThreshold,
+  subscribeToAlertRules,
+  type AlertMetric,
+  type AlertRule,
+  type AlertSeverity,
+} from './rules';
+
+export type AlertStatus = 'active' | 'acknowledged' | 'resolved';
+
+export interface AlertEvent {
+  time: number;
+  kind: 'raised' | 'escalated' | 'acknowledged' | 'resolved';
+  severity: AlertSeverity;
+  value: number | null;
+  by?: string;
+  note?: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  zoneId: ZoneId;
+  title: string;
+  // What the rule watched when it fired, kept in case the rule is edited later
+  metric: AlertMetric;
+  threshold: number;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  // Simulated epoch milliseconds
+  raisedAt: number;
+  updatedAt: number;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+  resolvedAt: number | null;
+  // Rule metric at the latest evaluation, and its worst value while open
+  value: number | null;
+  peakValue: number | null;
+  timeline: AlertEvent[];
+}
+
+type Listener = (alerts: Alert[]) => void;
+
+// Who acknowledgements and hand resolutions are recorded against until operators sign in
+export const DEFAULT_OPERATOR = 'Control room';
+
+// A breach must stay clear this long before its alert resolves, so a flickering value does not reopen it
+const CLEAR_MINUTES = 2;
+// Resolved alerts kept once the list grows past this many
+const ALERT_LIMIT = 500;
+// Recent snapshots the time-to-critical forecast is fitted to
+const FORECAST_WINDOW = 60;
+
+const MINUTE = 60000;
+
+// Where each rule and zone pair stands between evaluations
+interface Breach {
+  since: number | null; // when the condition started holding
+  clearSince: number | null; // when it stopped holding, while an alert is open
+  alertId: string | null;
+  escalatedAt: number;
+}
+
+const listeners: Listener[] = [];
+
+let memoryState: Alert[] = [];
+let breaches = new Map<string, Breach>();
+let lastTimestamp: number | null = null;
+let nextId = 1;
+
+function emit(alerts: Alert[]) {
+  memoryState = alerts;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function forecastMinutes(snapshot: CrowdSnapshot, zoneId: ZoneId) {
+  const { params } = getRuntimeState();
+  const history = getCrowdHistory().slice(-FORECAST_WINDOW);
+  const prediction = predictZone(zoneId, zoneCountHistory(history, zoneId, snapshot.timestamp), FORECASTERS[0], {
+    arrivalProfile: params.arrivalProfile,
+    weather: params.weather,
+  });
+  return prediction.timeToRisk;
+}
+
+// The rule's metric for one zone; null when it has no value, e.g. no crossing within the forecast
+function measure(rule: AlertRule, reading: ZoneReading, snapshot: CrowdSnapshot): number | null {
+  switch (rule.metric) {
+    case 'density':
+      return reading.density;
+    case 'occupancy':
+      return reading.intensity;
+    case 'net-inflow':
+      return reading.flow.inflowRate - reading.flow.outflowRate;
+    case 'time-to-critical':
+      return forecastMinutes(snapshot, reading.zoneId);
+  }
+}
+
+function breached(rule: AlertRule, threshold: number, value: number | null) {
+  if (value === null) return false;
+  return rule.comparison === 'above' ? value > threshold : value < threshold;
+}
+
+function isWorse(rule: AlertRule, value: number | null, than: number | null) {
+  if (value === null) return false;
+  if (than === null) return true;
+  return rule.comparison === 'above' ? value > than : value < than;
+}
+
+function raiseSeverity(severity: AlertSeverity) {
+  return SEVERITIES[Math.min(SEVERITIES.indexOf(severity) + 1, SEVERITIES.length - 1)];
+}
+
+function resolve(alert: Alert, time: number, note: string, by?: string): Alert {
+  return {
+    ...alert,
+    status: 'resolved',
+    updatedAt: time,
+    resolvedAt: time,
+    timeline: [...alert.timeline, { time, kind: 'resolved', severity: alert.severity, value: alert.value, by, note }],
+  };
+}
+
+// Drops the oldest resolved alerts once the list is over its limit
+function prune(alerts: Alert[]) {
+  let excess = alerts.length - ALERT_LIMIT;
+  if (excess <= 0) return alerts;
+  return alerts.filter((alert) => {
+    if (excess > 0 && alert.status === 'resolved') {
+      excess -= 1;
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Checks every enabled rule against every zone it watches in `snapshot`:
+ * raises an alert once a condition has held for the rule's sustain time,
+ * keeps one open alert per rule and zone, escalates it while the breach
+ * persists, and resolves it once the condition has been clear for a while.
+ */
+function evaluate(snapshot: CrowdSnapshot) {
+  const time = snapshot.timestamp;
+  const alerts = new Map(memoryState.map((alert) => [alert.id, alert]));
+  const order = memoryState.map((alert) => alert.id);
+  const seen = new Set<string>();
+
+  getAlertRules().forEach((rule) => {
+    if (!rule.enabled) return;
+    const threshold = ruleThreshold(rule);
+    snapshot.zones.forEach((reading) => {
+      if (rule.zoneIds && !rule.zoneIds.includes(reading.zoneId)) return;
+      const key = `${rule.id}:${reading.zoneId}`;
+      seen.add(key);
+      const value = measure(rule, reading, snapshot);
+      const breach = breaches.get(key) ?? { since: null, clearSince: null, alertId: null, escalatedAt: time };
+      const open = breach.alertId ? alerts.get(breach.alertId) : undefined;
+
+      if (!breached(rule, threshold, value)) {
+        breach.since = null;
+        if (open?.status === 'resolved') {
+          // Resolved by hand: the next breach may raise a fresh alert
+          breach.alertId = null;
+        } else if (open) {
+          breach.clearSince = breach.clearSince ?? time;
+          if (time - breach.clearSince >= CLEAR_MINUTES * MINUTE) {
+            alerts.set(open.id, resolve(open, time, 'Condition cleared'));
+            breach.alertId = null;
+            breach.clearSince = null;
+          } else {
+            alerts.set(open.id, { ...open, value, updatedAt: time });
+          }
+        }
+        breaches.set(key, breach);
+        return;
+      }
+
+      breach.since = breach.since ?? time;
+      breach.clearSince = null;
+
+      // An alert resolved by hand while still in breach stays quiet until the condition clears
+      if (open && open.status !== 'resolved') {
+        let alert: Alert = {
+          ...open,
+          value,
+          peakValue: isWorse(rule, value, open.peakValue) ? value : open.peakValue,
+          updatedAt: time,
+        };
+        const due =
+          rule.escalateAfterMinutes !== null && time - breach.escalatedAt >= rule.escalateAfterMinutes * MINUTE;
+        if (due && alert.severity !== 'critical') {
+          const severity = raiseSeverity(alert.severity);
+          // An escalation needs acknowledging again
+          alert = {
+            ...alert,
+            severity,
+            status: 'active',
+            timeline: [...alert.timeline, { time, kind: 'escalated', severity, value }],
+          };
+          breach.escalatedAt = time;
+        }
+        alerts.set(alert.id, alert);
+      } else if (!open && time - breach.since >= rule.sustainMinutes * MINUTE) {
+        const id = `alert-${nextId++}`;
+        alerts.set(id, {
+          id,
+          ruleId: rule.id,
+          zoneId: reading.zoneId,
+          title: rule.name,
+          metric: rule.metric,
+          threshold,
+          severity: rule.severity,
+          status: 'active',
+          raisedAt: time,
+          updatedAt: time,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          value,
+          peakValue: value,
+          timeline: [{ time, kind: 'raised', severity: rule.severity, value }],
+        });
+        order.push(id);
+        breach.alertId = id;
+        breach.escalatedAt = time;
+      }
+      breaches.set(key, breach);
+    });
+  });
+
+  // Rules that were disabled, deleted or narrowed no longer watch these zones
+  breaches.forEach((breach, key) => {
+    if (seen.has(key)) return;
+    const open = breach.alertId ? alerts.get(breach.alertId) : undefined;
+    if (open && open.status !== 'resolved') {
+      alerts.set(open.id, resolve(open, time, 'Rule no longer applies'));
+    }
+    breaches.delete(key);
+  });
+
+  emit(prune(order.map((id) => alerts.get(id))));
+}
+
+// Closes every open alert, e.g. when the run restarts and the breaches it saw are gone
+function resolveAll(time: number, note: string) {
+  breaches = new Map();
+  emit(memoryState.map((alert) => (alert.status === 'resolved' ? alert : resolve(alert, time, note))));
+}
+
+subscribeToCrowd((snapshot) => {
+  const history = getCrowdHistory();
+  // A republish of the same instant, e.g. after new density thresholds, is not a new reading
+  if (snapshot.timestamp === lastTimestamp && history.length > 1) return;
+  if (history.length === 1) {
+    resolveAll(lastTimestamp ?? snapshot.timestamp, 'Run restarted');
+  }
+  lastTimestamp = snapshot.timestamp;
+  evaluate(snapshot);
+});
+
+subscribeToAlertRules(() => {
+  const history = getCrowdHistory();
+  const latest = history[history.length - 1];
+  if (latest) evaluate(latest);
+});
+
+export function getAlerts() {
+  return memoryState;
+}
+
+export function subscribeToAlerts(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function acknowledgeAlert(id: string, by: string, time: number) {
+  emit(
+    memoryState.map((alert) =>
+      alert.id === id && alert.status === 'active'
+        ? {
+            ...alert,
+            status: 'acknowledged',
+            updatedAt: time,
+            acknowledgedAt: time,
+            acknowledgedBy: by,
+            timeline: [...alert.timeline, { time, kind: 'acknowledged', severity: alert.severity, value: alert.value, by }],
+          }
+        : alert
+    )
+  );
+}
+
+/** Closes an alert by hand; the same breach is not raised again until it clears and recurs. */
+export function resolveAlert(id: string, by: string, time: number) {
+  emit(
+    memoryState.map((alert) =>
+      alert.id === id && alert.status !== 'resolved'
+        ? resolve(alert, time, 'Resolved by operator', by)
+        : alert
+    )
+  );
+}
+
+/** Open alerts, most severe first, then most recently raised. */
+export function getOpenAlerts(alerts: readonly Alert[]) {
+  return alerts
+    .filter((alert) => alert.status !== 'resolved')
+    .sort(
+      (a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity) || b.raisedAt - a.raisedAt
+    );
+}
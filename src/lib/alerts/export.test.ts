@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Alert } from './engine';
+import { alertsToCsv } from './export';
+
+const ALERT: Alert = {
+  id: 'alert-1',
+  ruleId: 'rule-1',
+  zoneId: 'ramkund-ghat',
+  title: 'Dense',
+  metric: 'net-inflow',
+  threshold: 300,
+  severity: 'medium',
+  status: 'acknowledged',
+  raisedAt: Date.UTC(2027, 6, 22, 6),
+  updatedAt: Date.UTC(2027, 6, 22, 6),
+  acknowledgedAt: Date.UTC(2027, 6, 22, 6, 5),
+  acknowledgedBy: 'Control room',
+  resolvedAt: null,
+  value: -12,
+  peakValue: 340,
+  timeline: [],
+};
+
+const cells = (csv: string) => csv.split('\n')[1];
+
+describe('alertsToCsv', () => {
+  it('writes one row per alert under the header', () => {
+    expect(alertsToCsv([ALERT]).split('\n')).toEqual([
+      'id,rule,zone,severity,status,metric,threshold,value,peak_value,raised_at,acknowledged_at,acknowledged_by,resolved_at',
+      'alert-1,Dense,Ramkund Ghat,medium,acknowledged,net-inflow,300,-12,340,2027-07-22T06:00:00.000Z,2027-07-22T06:05:00.000Z,Control room,',
+    ]);
+  });
+
+  it('quotes cells holding commas, quotes or line breaks', () => {
+    expect(cells(alertsToCsv([{ ...ALERT, title: 'Dense, "very"' }]))).toContain(',"Dense, ""very""",');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    ['=1+1', '+1', '-1', '@SUM(A1)'].forEach((title) => {
+      expect(cells(alertsToCsv([{ ...ALERT, title }]))).toContain(`,'${title},`);
+    });
+    expect(cells(alertsToCsv([{ ...ALERT, acknowledgedBy: '=HYPERLINK("x")' }]))).toContain(`,"'=HYPERLINK(""x"")",`);
+  });
+});
@@ -0,0 +1,63 @@
+import { getZone } from '@/lib/crowd/zones';
+import type { Alert } from './engine';
+
+export const ALERT_CSV_FIELDS = [
+  'id',
+  'rule',
+  'zone',
+  'severity',
+  'status',
+  'metric',
+  'threshold',
+  'value',
+  'peak_value',
+  'raised_at',
+  'acknowledged_at',
+  'acknowledged_by',
+  'resolved_at',
+] as const;
+
+// Quotes a cell when it holds a comma, quote or line break, and defuses text a
+// spreadsheet would run as a formula (rule and operator names are typed in by hand)
+function toCsvCell(value: string | number | null) {
+  if (value === null) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toIso(time: number | null) {
+  return time === null ? null : new Date(time).toISOString();
+}
+
+export function alertsToCsv(alerts: readonly Alert[]) {
+  const rows = alerts.map((alert) =>
+    [
+      alert.id,
+      alert.title,
+      getZone(alert.zoneId).name,
+      alert.severity,
+      alert.status,
+      alert.metric,
+      alert.threshold,
+      alert.value,
+      alert.peakValue,
+      toIso(alert.raisedAt),
+      toIso(alert.acknowledgedAt),
+      alert.acknowledgedBy,
+      toIso(alert.resolvedAt),
+    ]
+      .map(toCsvCell)
+      .join(',')
+  );
+  return [ALERT_CSV_FIELDS.join(','), ...rows].join('\n');
+}
+
+export function exportAlertsCsv(alerts: readonly Alert[], filename: string) {
+  const blob = new Blob([alertsToCsv(alerts)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
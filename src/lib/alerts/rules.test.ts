@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DENSITY_STANDARDS } from '@/lib/crowd/density';
+import { DEFAULT_ALERT_RULES, describeRule, ruleThreshold, type AlertRule } from './rules';
+
+const [WALKWAY, QUEUING] = DENSITY_STANDARDS;
+const CRUSH = DEFAULT_ALERT_RULES.find((rule) => rule.id === 'crush-density')!;
+
+// Loads the rules module afresh over `stored` as the saved rules
+async function loadStoredRules(stored: unknown) {
+  vi.resetModules();
+  vi.stubGlobal('localStorage', {
+    getItem: () => JSON.stringify(stored),
+    setItem: () => undefined,
+  });
+  const { getAlertRules } = await import('./rules');
+  return getAlertRules();
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ruleThreshold', () => {
+  it('follows the density level in the thresholds given', () => {
+    expect(ruleThreshold(CRUSH, WALKWAY.thresholds)).toBe(WALKWAY.thresholds.critical);
+    expect(ruleThreshold(CRUSH, QUEUING.thresholds)).toBe(QUEUING.thresholds.critical);
+    expect(describeRule(CRUSH, QUEUING.thresholds)).toBe('Density above critical (3.57 p/m²) for 3 min');
+  });
+
+  it('uses the rule\'s own threshold when it follows no level', () => {
+    const rule: AlertRule = { ...CRUSH, densityLevel: null, threshold: 4.5 };
+
+    expect(ruleThreshold(rule, WALKWAY.thresholds)).toBe(4.5);
+  });
+});
+
+describe('saved rules', () => {
+  it('move an untouched crush density rule onto the critical level', async () => {
+    const { densityLevel: _, ...legacy } = { ...CRUSH, threshold: 4 };
+
+    const [rule] = await loadStoredRules([legacy]);
+
+    expect(rule.densityLevel).toBe('critical');
+    expect(rule.threshold).toBe(4);
+  });
+
+  it('keep every other saved threshold as it was', async () => {
+    const { densityLevel: _, ...edited } = { ...CRUSH, threshold: 3 };
+    const { densityLevel: __, ...custom } = { ...CRUSH, id: 'rule-custom', threshold: 4 };
+
+    const rules = await loadStoredRules([edited, custom]);
+
+    expect(rules.map((rule) => [rule.threshold, rule.densityLevel])).toEqual([
+      [3, null],
+      [4, null],
+    ]);
+  });
+
+  it('load as saved once they carry a level', async () => {
+    const rules = await loadStoredRules([{ ...CRUSH, densityLevel: 'high' }]);
+
+    expect(rules[0].densityLevel).toBe('high');
+  });
+});
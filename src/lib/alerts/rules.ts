@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { getDensityThresholds, type DensityThresholds } from '@/lib/crowd/density';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+
+const STORAGE_KEY = 'kumbh-flow.alert-rules';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type DensityThresholdLevel = keyof DensityThresholds;
+
+// Zone measurements a rule can watch
+export type AlertMetric = 'density' | 'occupancy' | 'net-inflow' | 'time-to-critical';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  comparison: 'above' | 'below';
+  threshold: number;
+  // Density rules only: the level whose live threshold the rule follows in place of `threshold`
+  densityLevel: DensityThresholdLevel | null;
+  // How long the condition must hold before an alert is raised
+  sustainMinutes: number;
+  severity: AlertSeverity;
+  // A breach still open this long after it was raised or last escalated goes up one severity; null never escalates
+  escalateAfterMinutes: number | null;
+  // Zones the rule watches; null watches every zone
+  zoneIds: ZoneId[] | null;
+  enabled: boolean;
+}
+
+type Listener = (rules: AlertRule[]) => void;
+
+export const SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit: string }> = {
+  density: { label: 'Density', unit: 'p/m²' },
+  occupancy: { label: 'Share of safe capacity', unit: '%' },
+  'net-inflow': { label: 'Net inflow', unit: 'pilgrims/min' },
+  'time-to-critical': { label: 'Forecast reaches critical within', unit: 'min' },
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'crush-density',
+    name: 'Crush density',
+    metric: 'density',
+    comparison: 'above',
+    threshold: 4,
+    densityLevel: 'critical',
+    sustainMinutes: 3,
+    severity: 'high',
+    escalateAfterMinutes: 10,
+    zoneIds: null,
+    enabled: true,
+  },
+  {
+    id: 'critical-forecast',
+    name: 'Critical within 15 minutes',
+    metric: 'time-to-critical',
+    comparison: 'below',
+    threshold: 15,
+    densityLevel: null,
+    sustainMinutes: 0,
+    severity: 'medium',
+    escalateAfterMinutes: 15,
+    zoneIds: null,
+    enabled: true,
+  },
+  {
+    id: 'near-capacity',
+    name: 'Near safe capacity',
+    metric: 'occupancy',
+    comparison: 'above',
+    threshold: 90,
+    densityLevel: null,
+    sustainMinutes: 5,
+    severity: 'medium',
+    escalateAfterMinutes: 20,
+    zoneIds: null,
+    enabled: true,
+  },
+  {
+    id: 'inflow-surge',
+    name: 'Inflow surge',
+    metric: 'net-inflow',
+    comparison: 'above',
+    threshold: 300,
+    densityLevel: null,
+    sustainMinutes: 5,
+    severity: 'low',
+    escalateAfterMinutes: null,
+    zoneIds: null,
+    enabled: true,
+  },
+];
+
+const zoneIds = ZONES.map((zone) => zone.id) as [ZoneId, ...ZoneId[]];
+
+export const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Name the rule'),
+  metric: z.enum(['density', 'occupancy', 'net-inflow', 'time-to-critical']),
+  comparison: z.enum(['above', 'below']),
+  threshold: z.number().finite(),
+  densityLevel: z.enum(['medium', 'high', 'critical']).nullable(),
+  sustainMinutes: z.number().min(0, 'Cannot be negative').max(1440),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  escalateAfterMinutes: z.number().positive('Must be more than 0 minutes').max(1440).nullable(),
+  zoneIds: z.array(z.enum(zoneIds)).min(1, 'Pick at least one zone').nullable(),
+  enabled: z.boolean(),
+});
+
+// A rule as entered in the rule dialog: 0 minutes never escalates, and no zones picked watches every zone
+export const alertRuleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name the rule').max(60),
+  metric: z.enum(['density', 'occupancy', 'net-inflow', 'time-to-critical']),
+  comparison: z.enum(['above', 'below']),
+  threshold: z.coerce.number(),
+  // 'fixed' uses the threshold as entered
+  densityLevel: z.enum(['fixed', 'medium', 'high', 'critical']),
+  sustainMinutes: z.coerce.number().min(0, 'Cannot be negative').max(1440),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  escalateAfterMinutes: z.coerce.number().min(0, 'Cannot be negative').max(1440),
+  zoneIds: z.array(z.enum(zoneIds)),
+});
+
+export type AlertRuleForm = z.infer<typeof alertRuleFormSchema>;
+
+const listeners: Listener[] = [];
+
+// Rules saved before density rules could follow a level have no `densityLevel`
+const storedRuleSchema = alertRuleSchema.extend({ densityLevel: alertRuleSchema.shape.densityLevel.optional() });
+
+// The crush-density default once shipped with a fixed 4 p/m² that zones never reached; an untouched
+// copy follows the critical level like the current default, and every other saved rule keeps its value
+function migrateRule(rule: z.infer<typeof storedRuleSchema>): AlertRule {
+  if (rule.densityLevel !== undefined) return rule as AlertRule;
+  const legacyCrush = rule.id === 'crush-density' && rule.metric === 'density' && rule.threshold === 4;
+  return { ...rule, densityLevel: legacyCrush ? 'critical' : null } as AlertRule;
+}
+
+function loadRules(): AlertRule[] {
+  if (typeof localStorage === 'undefined') return DEFAULT_ALERT_RULES;
+  try {
+    const result = z.array(storedRuleSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    return result.success ? result.data.map(migrateRule) : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+let memoryState: AlertRule[] = loadRules();
+
+function emit(rules: AlertRule[]) {
+  memoryState = rules;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  }
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+export function getAlertRules() {
+  return memoryState;
+}
+
+export function subscribeToAlertRules(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** Adds the rule, or replaces the one with the same id. */
+export function saveAlertRule(rule: AlertRule) {
+  const exists = memoryState.some((existing) => existing.id === rule.id);
+  emit(exists ? memoryState.map((existing) => (existing.id === rule.id ? rule : existing)) : [...memoryState, rule]);
+}
+
+export function deleteAlertRule(id: string) {
+  emit(memoryState.filter((rule) => rule.id !== id));
+}
+
+export function resetAlertRules() {
+  emit(DEFAULT_ALERT_RULES);
+}
+
+export function toAlertRuleForm(rule: AlertRule): AlertRuleForm {
+  return {
+    name: rule.name,
+    metric: rule.metric,
+    comparison: rule.comparison,
+    threshold: rule.threshold,
+    densityLevel: rule.densityLevel ?? 'fixed',
+    sustainMinutes: rule.sustainMinutes,
+    severity: rule.severity,
+    escalateAfterMinutes: rule.escalateAfterMinutes ?? 0,
+    zoneIds: rule.zoneIds ?? [],
+  };
+}
+
+/** The rule entered in the dialog; pass the rule being edited to keep its id and switch. */
+export function fromAlertRuleForm(form: AlertRuleForm, existing?: AlertRule): AlertRule {
+  return {
+    id: existing?.id ?? `rule-${Date.now().toString(36)}`,
+    name: form.name,
+    metric: form.metric,
+    // A forecast crossing only ever matters when it comes sooner than the threshold
+    comparison: form.metric === 'time-to-critical' ? 'below' : form.comparison,
+    threshold: form.threshold,
+    densityLevel: form.metric === 'density' && form.densityLevel !== 'fixed' ? form.densityLevel : null,
+    sustainMinutes: form.sustainMinutes,
+    severity: form.severity,
+    escalateAfterMinutes: form.escalateAfterMinutes > 0 ? form.escalateAfterMinutes : null,
+    zoneIds: form.zoneIds.length > 0 ? form.zoneIds : null,
+    enabled: existing?.enabled ?? true,
+  };
+}
+
+export function setAlertRuleEnabled(id: string, enabled: boolean) {
+  emit(memoryState.map((rule) => (rule.id === id ? { ...rule, enabled } : rule)));
+}
+
+/** The value a rule compares against: its density level's threshold in `thresholds`, or its own. */
+export function ruleThreshold(rule: AlertRule, thresholds: DensityThresholds = getDensityThresholds()) {
+  return rule.metric === 'density' && rule.densityLevel ? thresholds[rule.densityLevel] : rule.threshold;
+}
+
+export function formatMetric(metric: AlertMetric, value: number | null) {
+  if (value === null) return '—';
+  const digits = metric === 'density' ? 2 : 0;
+  return `${value.toFixed(digits)} ${ALERT_METRICS[metric].unit}`;
+}
+
+export function describeRule(rule: AlertRule, thresholds: DensityThresholds = getDensityThresholds()) {
+  const { metric, comparison, densityLevel, sustainMinutes } = rule;
+  const { label, unit } = ALERT_METRICS[metric];
+  const threshold = ruleThreshold(rule, thresholds);
+  const limit = metric === 'density' && densityLevel ? `${densityLevel} (${threshold} ${unit})` : `${threshold} ${unit}`;
+  const condition = metric === 'time-to-critical' ? `${label} ${limit}` : `${label} ${comparison} ${limit}`;
+  return sustainMinutes > 0 ? `${condition} for ${sustainMinutes} min` : condition;
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import type { DensityLevel } from './store';
+import type { Zone } from './zones';
+
+const STORAGE_KEY = 'kumbh-flow.density-thresholds';
+
+// Persons/m² at which each level begins; anything below `medium` is low
+export interface DensityThresholds {
+  medium: number;
+  high: number;
+  critical: number;
+}
+
+export interface DensityStandard {
+  id: string;
+  name: string;
+  description: string;
+  thresholds: DensityThresholds;
+}
+
+type Listener = (thresholds: DensityThresholds) => void;
+
+// Fruin's level-of-service bands, grouped into the four levels the views show
+export const DENSITY_STANDARDS: DensityStandard[] = [
+  {
+    id: 'fruin-walkway',
+    name: 'Fruin walkway',
+    description: 'Moving crowds: LOS A-C low, D medium, E high, F critical',
+    thresholds: { medium: 0.72, high: 1.08, critical: 2.17 },
+  },
+  {
+    id: 'fruin-queuing',
+    name: 'Fruin queuing',
+    description: 'Standing crowds: LOS A-B low, C medium, D high, E-F critical',
+    thresholds: { medium: 1.11, high: 1.54, critical: 3.57 },
+  },
+];
+
+export const densityThresholdsSchema = z
+  .object({
+    medium: z.number().positive(),
+    high: z.number().positive(),
+    critical: z.number().positive(),
+  })
+  .refine(({ medium, high, critical }) => medium < high && high < critical, {
+    message: 'Thresholds must increase from medium to critical',
+  });
+
+const listeners: Listener[] = [];
+
+function loadThresholds(): DensityThresholds {
+  const fallback = DENSITY_STANDARDS[0].thresholds;
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const result = densityThresholdsSchema.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    return result.success ? (result.data as DensityThresholds) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+let memoryState: DensityThresholds = loadThresholds();
+
+export function getDensityThresholds() {
+  return memoryState;
+}
+
+/** Replaces the thresholds every view classifies by, and remembers them for the next visit. */
+export function setDensityThresholds(thresholds: DensityThresholds) {
+  memoryState = thresholds;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+  }
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+export function subscribeToDensityThresholds(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** The standard whose bands match `thresholds`, if they came from one. */
+export function findDensityStandard(thresholds: DensityThresholds) {
+  return DENSITY_STANDARDS.find(
+    (standard) =>
+      standard.thresholds.medium === thresholds.medium &&
+      standard.thresholds.high === thresholds.high &&
+      standard.thresholds.critical === thresholds.critical
+  );
+}
+
+export function classifyDensity(density: number, thresholds = memoryState): DensityLevel {
+  if (density < thresholds.medium) return 'low';
+  if (density < thresholds.high) return 'medium';
+  if (density < thresholds.critical) return 'high';
+  return 'critical';
+}
+
+/** Persons/m² across the zone's usable area. */
+export function zoneDensity(zone: Zone, count: number) {
+  return zone.areaM2 > 0 ? count / zone.areaM2 : 0;
+}
+
+/** Most pilgrims the zone holds before its density turns critical. */
+export function getSafeCapacity(zone: Zone, thresholds = memoryState) {
+  return Math.floor(zone.areaM2 * thresholds.critical);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateCrowdRows, createObservedDataset, parseCrowdCsv } from './observations';
+
+const HEADER = 'timestamp,time,zone,lat,lon,count';
+
+describe('parseCrowdCsv', () => {
+  it('reports malformed rows by line and keeps the rest', () => {
+    const { rows, errors } = parseCrowdCsv(
+      [
+        HEADER,
+        '2025-08-22T10:00:00,0,Ramkund Ghat,20.007,73.7925,40',
+        'not a date,0,Ramkund Ghat,20.007,73.7925,40',
+        '2025-08-22T10:00:00,0,Ramkund Ghat,20.007,73.7925,-5',
+        '',
+        '2025-08-22T10:00:00,0,,20.007,73.7925,10',
+        '2025-08-22T10:00:00,0,"Kalaram Temple",20.0066,73.7947,12',
+      ].join('\n')
+    );
+
+    expect(rows.map((row) => row.count)).toEqual([40, 12]);
+    expect(errors.map((error) => error.line)).toEqual([3, 4, 6]);
+    expect(errors[0].message).toMatch(/^timestamp:/);
+    expect(errors[1].message).toBe('count: Cannot be negative');
+  });
+
+  it('reads the columns in any order', () => {
+    const { rows } = parseCrowdCsv('count,zone,lon,lat,time,timestamp\n7,Ramkund Ghat,73.7925,20.007,3,2025-08-22T10:00:00');
+
+    expect(rows).toEqual([
+      { timestamp: Date.parse('2025-08-22T10:00:00'), time: 3, zone: 'Ramkund Ghat', lat: 20.007, lon: 73.7925, count: 7 },
+    ]);
+  });
+
+  it('fails the file when a column is missing', () => {
+    expect(() => parseCrowdCsv('timestamp,zone,count\n')).toThrow('CSV is missing columns: time, lat, lon');
+  });
+});
+
+describe('aggregateCrowdRows', () => {
+  it('takes the latest frame in a bucket rather than summing frames finer than it', () => {
+    // Frames every 30 seconds, two points per zone in each, into 2-minute buckets
+    const lines = [HEADER];
+    for (let frame = 0; frame < 6; frame++) {
+      const timestamp = new Date(Date.UTC(2025, 7, 22, 10, 0, frame * 30)).toISOString();
+      lines.push(`${timestamp},${frame},Ramkund Ghat,20.007,73.7925,${100 + frame}`);
+      lines.push(`${timestamp},${frame},Ramkund Ghat,20.0072,73.7927,10`);
+      lines.push(`${timestamp},${frame},CBS Bus Stand,20.0004,73.7891,50`);
+    }
+    const { rows } = parseCrowdCsv(lines.join('\n'));
+
+    const { buckets, zoneIds } = aggregateCrowdRows(rows, 2);
+
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0].counts.get('ramkund-ghat')).toBe(103 + 10);
+    expect(buckets[0].counts.get('cbs-bus-stand')).toBe(50);
+    expect(buckets[0].points.filter((point) => point.zoneId === 'ramkund-ghat')).toHaveLength(2);
+    expect(buckets[1].counts.get('ramkund-ghat')).toBe(105 + 10);
+    expect(zoneIds.sort()).toEqual(['cbs-bus-stand', 'ramkund-ghat']);
+  });
+
+  it('does not let an earlier frame listed later replace a later one', () => {
+    const { rows } = parseCrowdCsv(
+      [
+        HEADER,
+        '2025-08-22T10:01:00Z,1,Ramkund Ghat,20.007,73.7925,80',
+        '2025-08-22T10:00:00Z,0,Ramkund Ghat,20.007,73.7925,30',
+      ].join('\n')
+    );
+
+    expect(aggregateCrowdRows(rows, 2).buckets[0].counts.get('ramkund-ghat')).toBe(80);
+  });
+
+  it('skips rows for zones outside the registry', () => {
+    const dataset = createObservedDataset(
+      'test.csv',
+      [
+        HEADER,
+        '2025-08-22T10:00:00Z,0,Ramkund Ghat,20.007,73.7925,30',
+        '2025-08-22T10:00:00Z,0,Somewhere Else,20.0,73.7,30',
+      ].join('\n')
+    );
+
+    expect(dataset.unmatchedZones).toEqual(['Somewhere Else']);
+    expect(dataset.zoneIds).toEqual(['ramkund-ghat']);
+    expect(dataset.rowCount).toBe(2);
+  });
+});
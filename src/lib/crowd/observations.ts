@@ -0,0 +1,221 @@
+import { z } from 'zod';
+import { findZoneByName, type ZoneId } from './zones';
+
+// Columns of the Nashik crowd export (Kepler dataset `nashik_crowd_heatmap_small`)
+export const CROWD_CSV_FIELDS = ['timestamp', 'time', 'zone', 'lat', 'lon', 'count'] as const;
+
+export const NASHIK_CROWD_CSV_URL = '/data/nashik_crowd_heatmap_small.csv';
+
+const numberField = z.string().trim().min(1, 'Required').pipe(z.coerce.number());
+
+export const crowdRowSchema = z.object({
+  timestamp: z
+    .string()
+    .trim()
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'Not a valid date and time')
+    .transform((value) => Date.parse(value)),
+  time: numberField.pipe(z.number().int().min(0)),
+  zone: z.string().trim().min(1, 'Required'),
+  lat: numberField.pipe(z.number().min(-90).max(90)),
+  lon: numberField.pipe(z.number().min(-180).max(180)),
+  count: numberField.pipe(z.number().int().min(0, 'Cannot be negative')),
+});
+
+export interface CrowdRow {
+  timestamp: number; // epoch milliseconds
+  time: number; // frame index in the export
+  zone: string;
+  lat: number;
+  lon: number;
+  count: number;
+}
+
+export interface CrowdRowError {
+  line: number;
+  message: string;
+}
+
+// One measured point, attributed to a registry zone
+export interface ObservedPoint {
+  zoneId: ZoneId;
+  lat: number;
+  lon: number;
+  count: number;
+}
+
+export interface ObservedBucket {
+  start: number; // epoch milliseconds
+  counts: Map<ZoneId, number>;
+  points: ObservedPoint[];
+}
+
+export interface ObservedDataset {
+  name: string;
+  bucketMinutes: number;
+  start: number;
+  end: number; // start of the last bucket
+  zoneIds: ZoneId[];
+  buckets: ObservedBucket[];
+  rowCount: number;
+  errors: CrowdRowError[];
+  // Zone names in the file with no match in the registry; their rows are skipped
+  unmatchedZones: string[];
+}
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Parses a crowd CSV with the export's columns, in any order. Invalid rows are
+ * reported with their line number and left out; a missing column fails the file.
+ */
+export function parseCrowdCsv(text: string) {
+  const lines = text.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map((name) => name.trim().toLowerCase());
+  const missing = CROWD_CSV_FIELDS.filter((field) => !header.includes(field));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  const rows: CrowdRow[] = [];
+  const errors: CrowdRowError[] = [];
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim() === '') return;
+    const cells = splitCsvLine(line);
+    const record = Object.fromEntries(CROWD_CSV_FIELDS.map((field) => [field, cells[header.indexOf(field)] ?? '']));
+    const result = crowdRowSchema.safeParse(record);
+    if (result.success) {
+      rows.push(result.data as CrowdRow);
+    } else {
+      const issue = result.error.issues[0];
+      errors.push({ line: index + 2, message: `${issue.path.join('.')}: ${issue.message}` });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Sums point counts per registry zone within fixed time buckets. When a bucket
+ * spans several frames, each zone takes its latest frame in it, so finer
+ * exports are not counted once per frame.
+ */
+export function aggregateCrowdRows(rows: CrowdRow[], bucketMinutes: number) {
+  const bucketMs = bucketMinutes * 60000;
+  const buckets = new Map<number, ObservedBucket>();
+  // Timestamp of the frame each zone's count in a bucket comes from
+  const frames = new Map<number, Map<ZoneId, number>>();
+  const zoneIds = new Set<ZoneId>();
+  const unmatched = new Set<string>();
+
+  rows.forEach((row) => {
+    const zone = findZoneByName(row.zone);
+    if (!zone) {
+      unmatched.add(row.zone);
+      return;
+    }
+    const start = Math.floor(row.timestamp / bucketMs) * bucketMs;
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { start, counts: new Map(), points: [] };
+      buckets.set(start, bucket);
+      frames.set(start, new Map());
+    }
+    const bucketFrames = frames.get(start)!;
+    const frame = bucketFrames.get(zone.id) ?? -Infinity;
+    if (row.timestamp < frame) return;
+    if (row.timestamp > frame) {
+      bucketFrames.set(zone.id, row.timestamp);
+      bucket.counts.set(zone.id, 0);
+      bucket.points = bucket.points.filter((point) => point.zoneId !== zone.id);
+    }
+    bucket.counts.set(zone.id, bucket.counts.get(zone.id)! + row.count);
+    bucket.points.push({ zoneId: zone.id, lat: row.lat, lon: row.lon, count: row.count });
+    zoneIds.add(zone.id);
+  });
+
+  return {
+    buckets: Array.from(buckets.values()).sort((a, b) => a.start - b.start),
+    zoneIds: Array.from(zoneIds),
+    unmatchedZones: Array.from(unmatched),
+  };
+}
+
+export function createObservedDataset(name: string, text: string, bucketMinutes = 2): ObservedDataset {
+  const { rows, errors } = parseCrowdCsv(text);
+  const { buckets, zoneIds, unmatchedZones } = aggregateCrowdRows(rows, bucketMinutes);
+  if (buckets.length === 0) {
+    throw new Error('CSV has no valid rows for known zones');
+  }
+  return {
+    name,
+    bucketMinutes,
+    start: buckets[0].start,
+    end: buckets[buckets.length - 1].start,
+    zoneIds,
+    buckets,
+    rowCount: rows.length,
+    errors,
+    unmatchedZones,
+  };
+}
+
+export async function fetchObservedDataset(url = NASHIK_CROWD_CSV_URL, bucketMinutes = 2) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load ${url} (${response.status})`);
+  }
+  const name = url.split('/').pop() ?? url;
+  return createObservedDataset(name, await response.text(), bucketMinutes);
+}
+
+/** Latest bucket that has started by `time`, or undefined before the data begins. */
+export function getObservedBucket(dataset: ObservedDataset, time: number) {
+  let found: ObservedBucket | undefined;
+  for (const bucket of dataset.buckets) {
+    if (bucket.start > time) break;
+    found = bucket;
+  }
+  return found;
+}
+
+/**
+ * The measured points at their recorded positions, packed as
+ * [lon, lat, load] triples like the model's particles.
+ */
+export function observedParticles(bucket: ObservedBucket) {
+  const peak = Math.max(1, ...bucket.points.map((point) => point.count));
+  const particles = new Float32Array(bucket.points.length * 3);
+  bucket.points.forEach((point, i) => {
+    particles[i * 3] = point.lon;
+    particles[i * 3 + 1] = point.lat;
+    particles[i * 3 + 2] = point.count / peak;
+  });
+  return particles;
+}
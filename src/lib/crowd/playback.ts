@@ -0,0 +1,132 @@
+import {
+  getCrowdHistory,
+  getCrowdSnapshot,
+  subscribeToCrowd,
+  type CrowdSnapshot,
+} from './store';
+
+export interface PlaybackState {
+  // Index into the crowd history being shown, or null to follow the live feed
+  cursor: number | null;
+  playing: boolean;
+  rate: number; // recorded snapshots shown per second
+}
+
+type Listener = (state: PlaybackState) => void;
+
+export const PLAYBACK_RATES = [0.5, 1, 2, 4, 8];
+
+const listeners: Listener[] = [];
+
+let memoryState: PlaybackState = {
+  cursor: null,
+  playing: false,
+  rate: 1,
+};
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function emit(state: PlaybackState) {
+  memoryState = state;
+  schedule();
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function lastIndex() {
+  return getCrowdHistory().length - 1;
+}
+
+// Advances one snapshot per frame while playing; reaching the newest snapshot returns to live
+function advance() {
+  timer = null;
+  const { cursor } = memoryState;
+  if (cursor === null || cursor >= lastIndex()) {
+    emit({ ...memoryState, cursor: null, playing: false });
+  } else {
+    emit({ ...memoryState, cursor: cursor + 1 });
+  }
+}
+
+function schedule() {
+  const shouldRun = memoryState.playing && memoryState.cursor !== null;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (shouldRun) {
+    timer = setTimeout(advance, 1000 / memoryState.rate);
+  }
+}
+
+// Keeps the cursor on the same snapshot as the history grows, trims or restarts
+let historyLength = getCrowdHistory().length;
+let oldestTick = getCrowdHistory()[0]?.tick;
+subscribeToCrowd(() => {
+  const history = getCrowdHistory();
+  const length = history.length;
+  // A full history drops its oldest snapshot; a republish of the same history keeps it
+  const trimmed = length === historyLength && history[0]?.tick !== oldestTick;
+  historyLength = length;
+  oldestTick = history[0]?.tick;
+  const { cursor } = memoryState;
+  if (cursor === null) return;
+  if (length === 1) {
+    emit({ ...memoryState, cursor: null, playing: false });
+  } else if (trimmed) {
+    emit({ ...memoryState, cursor: Math.max(0, cursor - 1) });
+  }
+});
+
+export function getPlaybackState() {
+  return memoryState;
+}
+
+export function subscribeToPlayback(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** The snapshot every view should draw: the live one, or the one under the playback cursor. */
+export function getDisplayedSnapshot(): CrowdSnapshot {
+  const { cursor } = memoryState;
+  const history = getCrowdHistory();
+  if (cursor === null || history.length === 0) {
+    return getCrowdSnapshot();
+  }
+  return history[Math.min(cursor, history.length - 1)];
+}
+
+export function seekPlayback(index: number) {
+  const cursor = Math.max(0, Math.min(Math.round(index), lastIndex()));
+  emit({ ...memoryState, cursor });
+}
+
+export function stepPlayback(frames: number) {
+  const from = memoryState.cursor ?? lastIndex();
+  emit({ ...memoryState, cursor: Math.max(0, Math.min(from + frames, lastIndex())), playing: false });
+}
+
+/** Plays the history forward; from live, starts again from the oldest snapshot. */
+export function playPlayback() {
+  const cursor = memoryState.cursor === null || memoryState.cursor >= lastIndex() ? 0 : memoryState.cursor;
+  emit({ ...memoryState, cursor, playing: true });
+}
+
+export function pausePlayback() {
+  emit({ ...memoryState, playing: false });
+}
+
+export function setPlaybackRate(rate: number) {
+  emit({ ...memoryState, rate });
+}
+
+export function goLive() {
+  emit({ ...memoryState, cursor: null, playing: false });
+}
@@ -0,0 +1,110 @@
+import type { NodeId } from '@/lib/simulation/network';
+import { ZONES, type ZoneId, type ZoneKind } from './zones';
+
+export type ScheduleCrowd = 'Low' | 'Medium' | 'High' | 'Very High';
+
+export interface ScheduleWindow {
+  id: string;
+  startHour: number;
+  endHour: number; // exclusive
+  activity: string;
+  crowd: ScheduleCrowd;
+  // Kind of place most pilgrims head for during the window
+  focus: ZoneKind;
+}
+
+export const DAILY_SCHEDULE: ScheduleWindow[] = [
+  { id: 'brahma-muhurta', startHour: 4, endHour: 6, activity: 'Brahma Muhurta - Most Auspicious Bathing Time', crowd: 'Low', focus: 'ghat' },
+  { id: 'morning-prayers', startHour: 6, endHour: 10, activity: 'Morning Prayers & Temple Visits', crowd: 'Medium', focus: 'temple' },
+  { id: 'satsang', startHour: 10, endHour: 16, activity: 'Satsang & Cultural Programs', crowd: 'High', focus: 'district' },
+  { id: 'evening-aarti', startHour: 16, endHour: 19, activity: 'Evening Aarti & Sacred Baths', crowd: 'Very High', focus: 'ghat' },
+  { id: 'discourses', startHour: 19, endHour: 22, activity: 'Spiritual Discourses', crowd: 'Medium', focus: 'temple' },
+];
+
+export type EventImportance = 'high' | 'highest';
+
+export interface MajorEvent {
+  id: string;
+  date: string; // local date, YYYY-MM-DD
+  title: string;
+  time: string; // as announced
+  startHour: number | null; // null for all-day events
+  type: string;
+  importance: EventImportance;
+  location: string;
+  // Zones the event draws pilgrims to
+  zoneIds: ZoneId[];
+  // Extra pilgrims expected for the event, shared across its zones
+  pilgrims: number;
+  // How long the bathing or darshan window stays open from the start
+  windowHours: number;
+  // Akhara procession to the bath, from where it forms to the ghat, arriving as the bath begins
+  processionPath?: NodeId[];
+}
+
+const zonesOfKind = (kind: ZoneKind) => ZONES.filter((zone) => zone.kind === kind).map((zone) => zone.id);
+
+// Routes the akhara processions take to the ghats, through Panchavati and past Tapovan
+const TO_RAMKUND: NodeId[] = ['tapovan-road', 'panchavati-karanja', 'ramkund-ghat'];
+const TO_SANGAM: NodeId[] = ['panchavati-karanja', 'tapovan-road', 'triveni-sangam'];
+
+export const MAJOR_EVENTS: MajorEvent[] = [
+  {
+    id: 'kumbh-begins', date: '2027-07-15', title: 'Kumbh Mela Begins', time: '04:00 AM', startHour: 4, type: 'Shahi Snan',
+    importance: 'high', location: 'Triveni Sangam', zoneIds: ['triveni-sangam'],
+    pilgrims: 120000, windowHours: 4, processionPath: TO_SANGAM,
+  },
+  {
+    id: 'makar-sankranti', date: '2027-07-22', title: 'Makar Sankranti', time: '05:30 AM', startHour: 5.5, type: 'Royal Bath',
+    importance: 'highest', location: 'Ramkund Ghat', zoneIds: ['ramkund-ghat'],
+    pilgrims: 250000, windowHours: 5, processionPath: TO_RAMKUND,
+  },
+  {
+    id: 'mauni-amavasya', date: '2027-08-05', title: 'Mauni Amavasya', time: '04:00 AM', startHour: 4, type: 'Shahi Snan',
+    importance: 'highest', location: 'All Major Ghats', zoneIds: zonesOfKind('ghat'),
+    pilgrims: 400000, windowHours: 6, processionPath: [...TO_RAMKUND, 'godavari-ghat'],
+  },
+  {
+    id: 'basant-panchami', date: '2027-08-19', title: 'Basant Panchami', time: '06:00 AM', startHour: 6, type: 'Sacred Bath',
+    importance: 'high', location: 'Godavari Ghat', zoneIds: ['godavari-ghat'],
+    pilgrims: 100000, windowHours: 4,
+  },
+  {
+    id: 'maghi-purnima', date: '2027-09-02', title: 'Maghi Purnima', time: '05:00 AM', startHour: 5, type: 'Royal Bath',
+    importance: 'highest', location: 'Triveni Sangam', zoneIds: ['triveni-sangam'],
+    pilgrims: 250000, windowHours: 5, processionPath: TO_SANGAM,
+  },
+  {
+    id: 'maha-shivratri', date: '2027-09-15', title: 'Maha Shivratri', time: 'All Day', startHour: null, type: 'Festival',
+    importance: 'high', location: 'All Temples', zoneIds: zonesOfKind('temple'),
+    pilgrims: 150000, windowHours: 24,
+  },
+];
+
+/** When the event starts, in epoch milliseconds; all-day events start at midnight. */
+export function getEventStart(event: MajorEvent) {
+  const [year, month, day] = event.date.split('-').map(Number);
+  const hour = event.startHour ?? 0;
+  return new Date(year, month - 1, day, Math.floor(hour), Math.round((hour % 1) * 60)).getTime();
+}
+
+/** The zone's major event closest to `time`, before or after it. */
+export function findNearestEvent(zoneId: ZoneId, time: number) {
+  let nearest: { event: MajorEvent; hoursAway: number } | undefined;
+  MAJOR_EVENTS.filter((event) => event.zoneIds.includes(zoneId)).forEach((event) => {
+    const hoursAway = (getEventStart(event) - time) / 3600000;
+    if (!nearest || Math.abs(hoursAway) < Math.abs(nearest.hoursAway)) {
+      nearest = { event, hoursAway };
+    }
+  });
+  return nearest;
+}
+
+export function getScheduleWindow(hour: number) {
+  return DAILY_SCHEDULE.find((window) => hour >= window.startHour && hour < window.endHour);
+}
+
+export function formatScheduleHours(window: ScheduleWindow) {
+  const pad = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+  return `${pad(window.startHour)} - ${pad(window.endHour)}`;
+}
@@ -0,0 +1,77 @@
+import type { Trend } from './store';
+
+export interface ZoneSample {
+  time: number;
+  count: number;
+  inflow: number; // pilgrims who entered since the previous sample
+  outflow: number; // pilgrims who left since the previous sample
+}
+
+// Rates are per simulated minute
+export interface ZoneTrend {
+  inflowRate: number;
+  outflowRate: number;
+  slope: number; // pilgrims/min, least-squares over the window
+  acceleration: number; // pilgrims/min², change in slope between the window's halves
+  direction: Trend;
+}
+
+// Samples kept per zone: half an hour of simulated time at one tick per minute
+export const SERIES_LENGTH = 30;
+// Share of the current count per minute the slope must exceed to count as a trend
+const TREND_TOLERANCE = 0.001;
+// Fewest samples a least-squares slope is fitted to
+const MIN_FIT_SAMPLES = 3;
+
+const MINUTE = 60000;
+
+/** The series with `sample` appended, dropping the oldest once it is full. */
+export function appendSample(series: readonly ZoneSample[], sample: ZoneSample): ZoneSample[] {
+  const next = [...series, sample];
+  return next.length > SERIES_LENGTH ? next.slice(next.length - SERIES_LENGTH) : next;
+}
+
+/** Flows between two counts when the producer does not report them: net change only. */
+export function netFlows(previous: number | undefined, count: number) {
+  const change = previous === undefined ? 0 : count - previous;
+  return { inflow: Math.max(0, change), outflow: Math.max(0, -change) };
+}
+
+function fitSlope(samples: readonly ZoneSample[]) {
+  if (samples.length < 2) return 0;
+  const origin = samples[0].time;
+  const xs = samples.map((sample) => (sample.time - origin) / MINUTE);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = samples.reduce((sum, sample) => sum + sample.count, 0) / samples.length;
+  let covariance = 0;
+  let variance = 0;
+  samples.forEach((sample, i) => {
+    covariance += (xs[i] - meanX) * (sample.count - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  });
+  return variance > 0 ? covariance / variance : 0;
+}
+
+export function analyseSeries(series: readonly ZoneSample[]): ZoneTrend {
+  const latest = series[series.length - 1];
+  const minutes = series.length > 1 ? (latest.time - series[0].time) / MINUTE : 0;
+  // The first sample's flows happened before the window opened
+  const flows = series.slice(1);
+  const inflowRate = minutes > 0 ? flows.reduce((sum, sample) => sum + sample.inflow, 0) / minutes : 0;
+  const outflowRate = minutes > 0 ? flows.reduce((sum, sample) => sum + sample.outflow, 0) / minutes : 0;
+
+  const slope = fitSlope(series);
+  const half = Math.floor(series.length / 2);
+  const older = series.slice(0, half + 1);
+  const recent = series.slice(half);
+  const acceleration =
+    older.length >= MIN_FIT_SAMPLES && recent.length >= MIN_FIT_SAMPLES && minutes > 0
+      ? (fitSlope(recent) - fitSlope(older)) / (minutes / 2)
+      : 0;
+
+  const relative = latest ? slope / Math.max(latest.count, 1) : 0;
+  const direction: Trend =
+    relative > TREND_TOLERANCE ? 'increasing' : relative < -TREND_TOLERANCE ? 'decreasing' : 'stable';
+
+  return { inflowRate, outflowRate, slope, acceleration, direction };
+}
@@ -0,0 +1,165 @@
+import { ZONES, getZone, type ZoneId } from './zones';
+import {
+  classifyDensity,
+  getDensityThresholds,
+  getSafeCapacity,
+  subscribeToDensityThresholds,
+  zoneDensity,
+} from './density';
+import { analyseSeries, appendSample, netFlows, type ZoneSample, type ZoneTrend } from './series';
+
+export type DensityLevel = 'low' | 'medium' | 'high' | 'critical';
+export type Trend = 'increasing' | 'decreasing' | 'stable';
+
+export interface ZoneReading {
+  zoneId: ZoneId;
+  count: number;
+  density: number; // persons/m² over the zone's usable area
+  safeCapacity: number;
+  intensity: number; // share of the safe capacity in use, 0-100
+  level: DensityLevel;
+  trend: Trend;
+  // Recent counts, oldest first, and the rates derived from them
+  series: ZoneSample[];
+  flow: ZoneTrend;
+}
+
+export interface CrowdSnapshot {
+  tick: number;
+  timestamp: number;
+  total: number;
+  zones: ZoneReading[];
+  // Sampled agents as [lon, lat, load] triples
+  particles: Float32Array;
+  // Persons per m² on each road of the walking network, when the producer models roads
+  edgeDensities: number[];
+}
+
+// What a producer (the crowd model, or recorded data) reports for one instant
+export interface CrowdReading {
+  tick: number;
+  timestamp: number;
+  counts: Map<ZoneId, number>;
+  // Pilgrims in and out of each zone since the previous reading, when the producer tracks them
+  flows?: Map<ZoneId, { inflow: number; outflow: number }>;
+  particles: Float32Array;
+  edgeDensities?: number[];
+}
+
+type Listener = (snapshot: CrowdSnapshot) => void;
+
+// Snapshots kept for playback: a simulated day at one tick per minute
+export const HISTORY_LIMIT = 1440;
+
+// Derives a zone's density, level, load and trend from its recent counts under the current thresholds
+function measureZone(zoneId: ZoneId, series: ZoneSample[]): ZoneReading {
+  const zone = getZone(zoneId);
+  const { count } = series[series.length - 1];
+  const flow = analyseSeries(series);
+  const thresholds = getDensityThresholds();
+  const density = zoneDensity(zone, count);
+  const safeCapacity = getSafeCapacity(zone, thresholds);
+  return {
+    zoneId,
+    count,
+    density,
+    safeCapacity,
+    intensity: Math.min((count / Math.max(safeCapacity, 1)) * 100, 100),
+    level: classifyDensity(density, thresholds),
+    trend: flow.direction,
+    series,
+    flow,
+  };
+}
+
+function createSnapshot(
+  { tick, timestamp, counts, flows, particles, edgeDensities = [] }: CrowdReading,
+  previous: CrowdSnapshot | null
+): CrowdSnapshot {
+  // Views show the zones the producer reports on; recorded data may cover only some
+  const zones = ZONES.filter((zone) => counts.has(zone.id)).map((zone) => {
+    const count = counts.get(zone.id);
+    const series = previous?.zones.find((reading) => reading.zoneId === zone.id)?.series ?? [];
+    const { inflow, outflow } = flows?.get(zone.id) ?? netFlows(series[series.length - 1]?.count, count);
+    return measureZone(zone.id, appendSample(series, { time: timestamp, count, inflow, outflow }));
+  });
+
+  return {
+    tick,
+    timestamp,
+    total: zones.reduce((sum, reading) => sum + reading.count, 0),
+    zones,
+    particles,
+    edgeDensities,
+  };
+}
+
+const listeners: Listener[] = [];
+
+// Published snapshots since the last restart, oldest first
+let history: CrowdSnapshot[] = [];
+
+let memorySnapshot = createSnapshot(
+  {
+    tick: 0,
+    timestamp: Date.now(),
+    counts: new Map(ZONES.map((zone) => [zone.id, zone.baseline])),
+    particles: new Float32Array(),
+  },
+  null
+);
+
+function notify() {
+  listeners.forEach((listener) => {
+    listener(memorySnapshot);
+  });
+}
+
+/**
+ * Publishes the next instant to every view. Pass `restart` when the reading
+ * does not follow on from the previous one, e.g. after a reset.
+ */
+export function publishCrowdReading(reading: CrowdReading, restart = false) {
+  memorySnapshot = createSnapshot(reading, restart ? null : memorySnapshot);
+  if (restart) {
+    history = [];
+  }
+  history.push(memorySnapshot);
+  if (history.length > HISTORY_LIMIT) {
+    history.shift();
+  }
+  notify();
+}
+
+// New thresholds relabel what has already been published, so playback agrees with the live view
+subscribeToDensityThresholds(() => {
+  const reclassify = (snapshot: CrowdSnapshot): CrowdSnapshot => ({
+    ...snapshot,
+    zones: snapshot.zones.map((reading) => measureZone(reading.zoneId, reading.series)),
+  });
+  history = history.map(reclassify);
+  memorySnapshot = history[history.length - 1] ?? reclassify(memorySnapshot);
+  notify();
+});
+
+export function getCrowdSnapshot() {
+  return memorySnapshot;
+}
+
+export function getCrowdHistory(): readonly CrowdSnapshot[] {
+  return history;
+}
+
+export function subscribeToCrowd(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function getZoneReading(snapshot: CrowdSnapshot, zoneId: ZoneId) {
+  return snapshot.zones.find((reading) => reading.zoneId === zoneId);
+}
@@ -0,0 +1,169 @@
+import { polygonAreaM2 } from '@/lib/geo/measure';
+import type { LngLat } from '@/lib/geo/projection';
+
+export type ZoneId =
+  | 'ramkund-ghat'
+  | 'triveni-sangam'
+  | 'sita-gufha'
+  | 'kalaram-temple'
+  | 'godavari-ghat'
+  | 'panchavati'
+  | 'college-road'
+  | 'satpur'
+  | 'sula-vineyards'
+  | 'cbs-bus-stand'
+  | 'nashik-road-station';
+
+export type ZoneKind = 'ghat' | 'temple' | 'district' | 'transit';
+
+export interface Zone {
+  id: ZoneId;
+  name: string;
+  shortName: string;
+  kind: ZoneKind;
+  center: LngLat;
+  // Outline of the area pilgrims occupy, as an open ring
+  boundary: LngLat[];
+  // Usable standing area inside the boundary, in m²
+  areaM2: number;
+  // Typical occupancy used to seed the crowd state
+  baseline: number;
+  // Most pilgrims the zone is planned to hold in comfort; crowds can press in past it
+  capacity: number;
+  // Offers shelter from rain (temple halls, caves, dharamshalas, station concourses)
+  covered: boolean;
+}
+
+const ZONE_DEFINITIONS: Omit<Zone, 'areaM2'>[] = [
+  {
+    id: 'ramkund-ghat', name: 'Ramkund Ghat', shortName: 'Ramkund', kind: 'ghat',
+    center: [73.7925, 20.007],
+    boundary: [
+      [73.793621, 20.007], [73.793548, 20.007316], [73.793061, 20.007507], [73.7925, 20.007538],
+      [73.791939, 20.007507], [73.791452, 20.007316], [73.791379, 20.007], [73.791606, 20.006731],
+      [73.791939, 20.006493], [73.7925, 20.006368], [73.793061, 20.006493], [73.793394, 20.006731]
+    ],
+    baseline: 45000, capacity: 60000, covered: false,
+  },
+  {
+    id: 'triveni-sangam', name: 'Triveni Sangam', shortName: 'Triveni', kind: 'ghat',
+    center: [73.8125, 20.0042],
+    boundary: [
+      [73.813965, 20.0042], [73.813741, 20.004574], [73.81314, 20.004779], [73.8125, 20.004886],
+      [73.811767, 20.004863], [73.811259, 20.004574], [73.811219, 20.0042], [73.811362, 20.003857],
+      [73.811767, 20.003537], [73.8125, 20.003452], [73.81314, 20.003621], [73.813638, 20.003857]
+    ],
+    baseline: 78000, capacity: 90000, covered: false,
+  },
+  {
+    id: 'sita-gufha', name: 'Sita Gufha', shortName: 'Sita Gufha', kind: 'temple',
+    center: [73.7968, 20.0093],
+    boundary: [
+      [73.797434, 20.0093], [73.797295, 20.009568], [73.797074, 20.009745], [73.7968, 20.009873],
+      [73.796483, 20.009816], [73.796305, 20.009568], [73.796252, 20.0093], [73.796271, 20.009013],
+      [73.796483, 20.008784], [73.7968, 20.008763], [73.797074, 20.008855], [73.797329, 20.009013]
+    ],
+    baseline: 22000, capacity: 30000, covered: true,
+  },
+  {
+    id: 'kalaram-temple', name: 'Kalaram Temple', shortName: 'Kalaram', kind: 'temple',
+    center: [73.795, 20.0108],
+    boundary: [
+      [73.795771, 20.0108], [73.795608, 20.01113], [73.795377, 20.011414], [73.795, 20.011574],
+      [73.794615, 20.011428], [73.794392, 20.01113], [73.794246, 20.0108], [73.794287, 20.010414],
+      [73.794615, 20.010172], [73.795, 20.01014], [73.795377, 20.010186], [73.795713, 20.010414]
+    ],
+    baseline: 38000, capacity: 50000, covered: true,
+  },
+  {
+    id: 'godavari-ghat', name: 'Godavari Ghat', shortName: 'Godavari', kind: 'ghat',
+    center: [73.788, 20.0047],
+    boundary: [
+      [73.788912, 20.0047], [73.788797, 20.004941], [73.788515, 20.005165], [73.788, 20.005233],
+      [73.787544, 20.005112], [73.787203, 20.004941], [73.786971, 20.0047], [73.787115, 20.004433],
+      [73.787544, 20.004288], [73.788, 20.00422], [73.788515, 20.004235], [73.788885, 20.004433]
+    ],
+    baseline: 31000, capacity: 45000, covered: false,
+  },
+  {
+    id: 'panchavati', name: 'Panchavati', shortName: 'Panchavati', kind: 'district',
+    center: [73.7861, 20.0118],
+    boundary: [
+      [73.78673, 20.0118], [73.786705, 20.012128], [73.786468, 20.012397], [73.7861, 20.012426],
+      [73.785785, 20.012313], [73.785495, 20.012128], [73.785366, 20.0118], [73.785522, 20.011487],
+      [73.785785, 20.011287], [73.7861, 20.011144], [73.786468, 20.011203], [73.786678, 20.011487]
+    ],
+    baseline: 12000, capacity: 40000, covered: true,
+  },
+  {
+    id: 'college-road', name: 'College Road', shortName: 'College Rd', kind: 'district',
+    center: [73.7804, 20.0],
+    boundary: [
+      [73.780809, 20], [73.78079, 20.000211], [73.780614, 20.000348], [73.7804, 20.000362],
+      [73.780196, 20.000333], [73.78001, 20.000211], [73.779972, 20], [73.780066, 19.999818],
+      [73.780196, 19.999667], [73.7804, 19.999577], [73.780614, 19.999652], [73.780734, 19.999818]
+    ],
+    baseline: 6000, capacity: 15000, covered: true,
+  },
+  {
+    id: 'satpur', name: 'Satpur', shortName: 'Satpur', kind: 'district',
+    center: [73.7298, 19.9854],
+    boundary: [
+      [73.73024, 19.9854], [73.730184, 19.985608], [73.729998, 19.985722], [73.7298, 19.985769],
+      [73.72958, 19.985758], [73.729416, 19.985608], [73.729405, 19.9854], [73.72946, 19.985216],
+      [73.72958, 19.985042], [73.7298, 19.984984], [73.729998, 19.985078], [73.73014, 19.985216]
+    ],
+    baseline: 5000, capacity: 15000, covered: false,
+  },
+  {
+    id: 'sula-vineyards', name: 'Sula Vineyards', shortName: 'Sula', kind: 'district',
+    center: [73.7159, 20.012],
+    boundary: [
+      [73.716229, 20.012], [73.716161, 20.012141], [73.71604, 20.012229], [73.7159, 20.01229],
+      [73.715735, 20.012268], [73.715639, 20.012141], [73.715619, 20.012], [73.715633, 20.011855],
+      [73.715735, 20.011732], [73.7159, 20.011716], [73.71604, 20.011771], [73.716167, 20.011855]
+    ],
+    baseline: 3000, capacity: 8000, covered: false,
+  },
+  {
+    id: 'cbs-bus-stand', name: 'CBS Bus Stand', shortName: 'CBS', kind: 'transit',
+    center: [73.7896, 19.997],
+    boundary: [
+      [73.790098, 19.997], [73.789987, 19.99721], [73.789833, 19.997379], [73.7896, 19.997487],
+      [73.78935, 19.997405], [73.789213, 19.99721], [73.789133, 19.997], [73.789152, 19.996757],
+      [73.78935, 19.996595], [73.7896, 19.99658], [73.789833, 19.996621], [73.790048, 19.996757]
+    ],
+    baseline: 8000, capacity: 20000, covered: true,
+  },
+  {
+    id: 'nashik-road-station', name: 'Nashik Road Station', shortName: 'Nashik Rd', kind: 'transit',
+    center: [73.8018, 19.9833],
+    boundary: [
+      [73.802316, 19.9833], [73.802236, 19.983536], [73.802082, 19.983758], [73.8018, 19.983841],
+      [73.801542, 19.983719], [73.801364, 19.983536], [73.801237, 19.9833], [73.801302, 19.98303],
+      [73.801542, 19.982881], [73.8018, 19.982827], [73.802082, 19.982842], [73.802298, 19.98303]
+    ],
+    baseline: 10000, capacity: 25000, covered: true,
+  },
+];
+
+export const ZONES: Zone[] = ZONE_DEFINITIONS.map((zone) => ({
+  ...zone,
+  areaM2: Math.round(polygonAreaM2(zone.boundary)),
+}));
+
+const zonesById = new Map(ZONES.map((zone) => [zone.id, zone]));
+
+/** Looks a zone up by its display name, as used in recorded datasets. */
+export function findZoneByName(name: string): Zone | undefined {
+  const key = name.trim().toLowerCase();
+  return ZONES.find((zone) => zone.name.toLowerCase() === key);
+}
+
+export function getZone(id: ZoneId): Zone {
+  const zone = zonesById.get(id);
+  if (!zone) {
+    throw new Error(`Unknown zone: ${id}`);
+  }
+  return zone;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { CrowdSnapshot, ZoneReading } from '@/lib/crowd/store';
+import { getZone } from '@/lib/crowd/zones';
+import { runBacktest } from './backtest';
+import type { Forecaster } from './forecasters';
+
+const START = new Date('2027-07-22T06:00:00').getTime();
+const MINUTE = 60000;
+const THRESHOLDS = { medium: 0.5, high: 0.8, critical: 1 };
+const SAFE = getZone('ramkund-ghat').areaM2 * THRESHOLDS.critical;
+
+// Predicts the zone stays as it is now
+const persistence: Forecaster = {
+  id: 'persistence',
+  name: 'Persistence',
+  description: 'Latest count',
+  forecast: (history, times) => {
+    const count = history[history.length - 1]?.count ?? 0;
+    return times.map((time) => ({ time, count, lower: count, upper: count }));
+  },
+};
+
+// Ramkund's count every 5 minutes; no other zone reports
+function history(counts: number[]): CrowdSnapshot[] {
+  return counts.map((count, i) => ({
+    tick: i,
+    timestamp: START + i * 5 * MINUTE,
+    total: count,
+    zones: [{ zoneId: 'ramkund-ghat', count } as ZoneReading],
+    particles: new Float32Array(),
+    edgeDensities: [],
+  }));
+}
+
+const OPTIONS = { horizonMinutes: 5, arrivalProfile: new Array(24).fill(1), weather: 0, stride: 1, warmUp: 1 };
+
+describe('runBacktest', () => {
+  it('scores each forecast against what happened within the horizon', () => {
+    const result = runBacktest(history([0, SAFE, SAFE, 0, 0, 0]), persistence, { ...OPTIONS, thresholds: THRESHOLDS });
+
+    // Missed the rise, caught the peak, held on past it, then two quiet calls
+    expect(result.matrix).toEqual({ truePositives: 1, falsePositives: 1, falseNegatives: 1, trueNegatives: 2 });
+    expect(result.samples).toBe(5);
+    expect(result.zones).toBe(1);
+    expect(result.accuracy).toBeCloseTo(3 / 5);
+    expect(result.precision).toBeCloseTo(0.5);
+    expect(result.recall).toBeCloseTo(0.5);
+    expect(result.f1Score).toBeCloseTo(0.5);
+    expect(result.start).toBe(START);
+    expect(result.end).toBe(START + 20 * MINUTE);
+  });
+
+  it('leaves the shares undefined when nothing is predicted or reached', () => {
+    const thresholds = { ...THRESHOLDS, critical: 100 };
+
+    const result = runBacktest(history([0, SAFE, SAFE, 0, 0, 0]), persistence, { ...OPTIONS, thresholds });
+
+    expect(result.matrix.trueNegatives).toBe(5);
+    expect(result.accuracy).toBe(1);
+    expect(result.precision).toBeNull();
+    expect(result.recall).toBeNull();
+    expect(result.f1Score).toBeNull();
+  });
+
+  it('leaves out forecasts whose horizon runs past the history', () => {
+    const result = runBacktest(history([0, 0, 0]), persistence, { ...OPTIONS, horizonMinutes: 15 });
+
+    expect(result.samples).toBe(0);
+    expect(result.zones).toBe(0);
+    expect(result.accuracy).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { getDensityThresholds, getSafeCapacity, type DensityThresholds } from '@/lib/crowd/density';
+import type { CrowdSnapshot } from '@/lib/crowd/store';
+import { ZONES } from '@/lib/crowd/zones';
+import type { Forecaster } from './forecasters';
+import { zoneCountHistory } from './predictions';
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+}
+
+export interface BacktestResult {
+  forecasterId: string;
+  horizonMinutes: number;
+  // Span of the issue times that could be scored
+  start: number;
+  end: number;
+  samples: number; // scored forecasts, one per zone per issue time
+  zones: number;
+  matrix: ConfusionMatrix;
+  // Shares from 0 to 1, or null when nothing defines them (e.g. no predicted positives for precision)
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  f1Score: number | null;
+}
+
+export interface BacktestOptions {
+  horizonMinutes: number;
+  arrivalProfile: number[];
+  weather: number;
+  // Issue a forecast every `stride` snapshots
+  stride?: number;
+  // Snapshots a zone needs before its first forecast is issued
+  warmUp?: number;
+  // Bands that set each zone's safe capacity; the live ones by default
+  thresholds?: DensityThresholds;
+}
+
+export const BACKTEST_HORIZONS = [15, 30, 60];
+const DEFAULT_STRIDE = 5;
+const DEFAULT_WARM_UP = 10;
+const STEP_MINUTES = 5;
+
+const MINUTE = 60000;
+
+function ratio(numerator: number, denominator: number) {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Replays the published history, issuing a forecast for every zone at each
+ * step, and scores "will the zone reach its safe capacity within the
+ * horizon" against what the history shows happened next. Steps whose
+ * horizon runs past the end of the history are left out.
+ */
+export function runBacktest(
+  history: readonly CrowdSnapshot[],
+  forecaster: Forecaster,
+  {
+    horizonMinutes,
+    arrivalProfile,
+    weather,
+    stride = DEFAULT_STRIDE,
+    warmUp = DEFAULT_WARM_UP,
+    thresholds = getDensityThresholds(),
+  }: BacktestOptions
+): BacktestResult {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+  const horizon = horizonMinutes * MINUTE;
+  const last = history[history.length - 1]?.timestamp ?? 0;
+  let start = Infinity;
+  let end = -Infinity;
+  let zones = 0;
+
+  ZONES.forEach((zone) => {
+    const series = zoneCountHistory(history, zone.id, last);
+    const safeCapacity = getSafeCapacity(zone, thresholds);
+    let scored = false;
+
+    for (let i = warmUp - 1; i < series.length; i += stride) {
+      const issuedAt = series[i].time;
+      if (issuedAt + horizon > last) break;
+
+      const times: number[] = [];
+      for (let minute = STEP_MINUTES; minute <= horizonMinutes; minute += STEP_MINUTES) {
+        times.push(issuedAt + minute * MINUTE);
+      }
+      const forecast = forecaster.forecast(series.slice(0, i + 1), times, { zone, arrivalProfile, weather });
+      const predicted = forecast.some((point) => point.count >= safeCapacity);
+
+      let actual = false;
+      for (let j = i + 1; j < series.length && series[j].time <= issuedAt + horizon; j++) {
+        if (series[j].count >= safeCapacity) {
+          actual = true;
+          break;
+        }
+      }
+
+      if (predicted && actual) matrix.truePositives += 1;
+      else if (predicted) matrix.falsePositives += 1;
+      else if (actual) matrix.falseNegatives += 1;
+      else matrix.trueNegatives += 1;
+      start = Math.min(start, issuedAt);
+      end = Math.max(end, issuedAt);
+      scored = true;
+    }
+    if (scored) zones += 1;
+  });
+
+  const { truePositives, falsePositives, falseNegatives, trueNegatives } = matrix;
+  const samples = truePositives + falsePositives + falseNegatives + trueNegatives;
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  return {
+    forecasterId: forecaster.id,
+    horizonMinutes,
+    start: samples > 0 ? start : last,
+    end: samples > 0 ? end : last,
+    samples,
+    zones,
+    matrix,
+    accuracy: ratio(truePositives + trueNegatives, samples),
+    precision,
+    recall,
+    f1Score:
+      precision !== null && recall !== null && precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : null,
+  };
+}
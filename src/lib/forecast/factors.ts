@@ -0,0 +1,117 @@
+import { findNearestEvent, getScheduleWindow, type ScheduleCrowd } from '@/lib/crowd/schedule';
+import type { ZoneReading } from '@/lib/crowd/store';
+import type { Zone } from '@/lib/crowd/zones';
+import { rainIntensity } from '@/lib/simulation/conditions';
+import { EDGES } from '@/lib/simulation/network';
+import type { RouteClosure } from '@/lib/simulation/params';
+import { canWalk, findRoadRules } from '@/lib/simulation/road-rules';
+
+export type FactorId = 'inflow' | 'load' | 'event' | 'schedule' | 'weather' | 'exits';
+
+export interface PredictionFactor {
+  id: FactorId;
+  label: string;
+  detail: string;
+  // Share of the prediction attributed to this driver; a prediction's weights sum to 1
+  weight: number;
+}
+
+export interface FactorContext {
+  reading: ZoneReading;
+  time: number;
+  horizonMinutes: number;
+  weather: number;
+  closures: RouteClosure[];
+}
+
+// How strongly each crowd level of the daily schedule drives arrivals
+const SCHEDULE_PRESSURE: Record<ScheduleCrowd, number> = {
+  Low: 0.25,
+  Medium: 0.5,
+  High: 0.75,
+  'Very High': 1,
+};
+// Schedule pressure on zones the current activity is not focused on
+const OFF_FOCUS_SHARE = 0.4;
+const NIGHT_PRESSURE = 0.1;
+// An event's pull halves every this many hours away from it
+const EVENT_HALF_LIFE_HOURS = 24;
+// Events further away than this are not mentioned
+const EVENT_WINDOW_HOURS = 72;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+function formatHours(hours: number) {
+  const span = Math.abs(hours);
+  const text = span >= 24 ? `${Math.round(span / 24)} days` : `${Math.round(span)}h`;
+  return hours >= 0 ? `in ${text}` : `${text} ago`;
+}
+
+/**
+ * Scores the measurable drivers behind a zone's forecast, each from 0 to 1,
+ * and reports them as shares of their total so the weights sum to 1.
+ */
+export function explainPrediction(zone: Zone, { reading, time, horizonMinutes, weather, closures }: FactorContext) {
+  const factors: PredictionFactor[] = [];
+  const headroom = Math.max(reading.safeCapacity - reading.count, 1);
+  const netRate = reading.flow.inflowRate - reading.flow.outflowRate;
+
+  factors.push({
+    id: 'inflow',
+    label: 'Inflow rate',
+    detail: `${Math.round(reading.flow.inflowRate)}/min in, ${Math.round(reading.flow.outflowRate)}/min out`,
+    weight: clamp01((Math.max(0, netRate) * horizonMinutes) / headroom),
+  });
+
+  factors.push({
+    id: 'load',
+    label: 'Current load',
+    detail: `${Math.round(reading.intensity)}% of safe capacity`,
+    weight: clamp01(reading.count / Math.max(reading.safeCapacity, 1)),
+  });
+
+  const nearest = findNearestEvent(zone.id, time);
+  const eventInRange = nearest && Math.abs(nearest.hoursAway) <= EVENT_WINDOW_HOURS;
+  factors.push({
+    id: 'event',
+    label: 'Major event',
+    detail: eventInRange ? `${nearest.event.title} ${formatHours(nearest.hoursAway)}` : 'None within 3 days',
+    weight: eventInRange
+      ? 0.5 ** (Math.abs(nearest.hoursAway) / EVENT_HALF_LIFE_HOURS) * (nearest.event.importance === 'highest' ? 1 : 0.7)
+      : 0,
+  });
+
+  const window = getScheduleWindow(new Date(time + horizonMinutes * 60000).getHours());
+  factors.push({
+    id: 'schedule',
+    label: 'Daily schedule',
+    detail: window ? window.activity : 'Night hours',
+    weight: window ? SCHEDULE_PRESSURE[window.crowd] * (window.focus === zone.kind ? 1 : OFF_FOCUS_SHARE) : NIGHT_PRESSURE,
+  });
+
+  const rain = rainIntensity(weather);
+  factors.push({
+    id: 'weather',
+    label: 'Weather',
+    detail: rain === 0 ? 'Dry' : zone.covered ? 'Rain draws pilgrims under cover' : 'Rain keeps pilgrims off open ground',
+    weight: zone.covered ? rain : 0,
+  });
+
+  // Roads out of the zone that pilgrims may still walk away along
+  const rules = findRoadRules(closures, time);
+  const routes = EDGES.map((edge, index) => ({ edge, index })).filter(
+    ({ edge }) => edge.from === zone.id || edge.to === zone.id
+  );
+  const open = routes.filter(({ index }) => canWalk(rules, index, zone.id)).length;
+  factors.push({
+    id: 'exits',
+    label: 'Exit routes',
+    detail: `${open} of ${routes.length} routes open`,
+    weight: open === 0 ? 1 : 1 / (open + 1),
+  });
+
+  const total = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  return factors
+    .map((factor) => ({ ...factor, weight: total > 0 ? factor.weight / total : 0 }))
+    .sort((a, b) => b.weight - a.weight);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getZone } from '@/lib/crowd/zones';
+import { FORECASTERS, getForecaster, holtForecaster, seasonalHourForecaster, type CountSample } from './forecasters';
+
+const START = new Date('2027-07-22T06:00:00').getTime();
+const MINUTE = 60000;
+const CONTEXT = { zone: getZone('ramkund-ghat'), arrivalProfile: new Array(24).fill(1), weather: 0 };
+
+const series = (counts: number[], stepMinutes = 5): CountSample[] =>
+  counts.map((count, i) => ({ time: START + i * stepMinutes * MINUTE, count }));
+
+describe('holtForecaster', () => {
+  it('extends a steady trend', () => {
+    const history = series(Array.from({ length: 20 }, (_, i) => 1000 + 50 * i));
+    const last = history[history.length - 1];
+
+    const [point] = holtForecaster.forecast(history, [last.time + 10 * MINUTE], CONTEXT);
+
+    expect(point.count).toBeCloseTo(last.count + 100, 0);
+  });
+
+  it('widens the interval further ahead', () => {
+    const history = series([1000, 1200, 900, 1100, 1050, 1300, 950, 1150]);
+    const last = history[history.length - 1].time;
+
+    const [near, far] = holtForecaster.forecast(history, [last + 5 * MINUTE, last + 60 * MINUTE], CONTEXT);
+
+    expect(far.upper - far.lower).toBeGreaterThan(near.upper - near.lower);
+    expect(near.lower).toBeLessThanOrEqual(near.count);
+    expect(near.upper).toBeGreaterThanOrEqual(near.count);
+  });
+});
+
+describe('forecasters', () => {
+  it('forecast nothing but zeros from an empty history', () => {
+    FORECASTERS.forEach((forecaster) => {
+      expect(forecaster.forecast([], [START], CONTEXT)).toEqual([{ time: START, count: 0, lower: 0, upper: 0 }]);
+    });
+  });
+
+  it('never forecast a negative count', () => {
+    const history = series([5000, 4000, 3000, 2000, 1000, 0]);
+    const last = history[history.length - 1].time;
+
+    FORECASTERS.forEach((forecaster) => {
+      const points = forecaster.forecast(history, [last + 30 * MINUTE, last + 60 * MINUTE], CONTEXT);
+      points.forEach((point) => {
+        expect(point.count).toBeGreaterThanOrEqual(0);
+        expect(point.lower).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+
+  it('starts the seasonal forecast from the current count', () => {
+    const history = series([2000, 2100, 2050, 2080]);
+    const last = history[history.length - 1];
+
+    const [point] = seasonalHourForecaster.forecast(history, [last.time], CONTEXT);
+
+    expect(point.count).toBe(last.count);
+  });
+
+  it('fall back to the first forecaster for an unknown id', () => {
+    expect(getForecaster('no-such-model')).toBe(FORECASTERS[0]);
+    expect(getForecaster('seasonal-hour')).toBe(seasonalHourForecaster);
+  });
+});
@@ -0,0 +1,150 @@
+import { ZONES, type Zone } from '@/lib/crowd/zones';
+import { presenceAt, zoneAttraction } from '@/lib/simulation/conditions';
+
+export interface CountSample {
+  time: number;
+  count: number;
+}
+
+export interface ForecastPoint {
+  time: number;
+  count: number;
+  // Bounds of the prediction interval at `INTERVAL_LEVEL`
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastContext {
+  zone: Zone;
+  // Hourly arrival multipliers, 0-23, and weather the crowd is expected to follow
+  arrivalProfile: number[];
+  weather: number;
+}
+
+/** Anything that turns a zone's count history into counts at future instants. */
+export interface Forecaster {
+  id: string;
+  name: string;
+  description: string;
+  forecast(history: readonly CountSample[], times: number[], context: ForecastContext): ForecastPoint[];
+}
+
+export const INTERVAL_LEVEL = 0.9;
+// Two-sided normal quantile for INTERVAL_LEVEL
+const INTERVAL_Z = 1.645;
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+
+// Holt smoothing weights for the level and the per-minute trend
+const LEVEL_ALPHA = 0.5;
+const TREND_BETA = 0.2;
+// Fewest samples a learned hourly mean is trusted from
+const MIN_HOURLY_SAMPLES = 5;
+
+function meanStepMinutes(history: readonly CountSample[]) {
+  if (history.length < 2) return 1;
+  return Math.max((history[history.length - 1].time - history[0].time) / MINUTE / (history.length - 1), 1e-6);
+}
+
+function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+}
+
+// Interval widening with lead time: one-step error grows like a random walk
+function toPoint(time: number, count: number, sigma: number, steps: number): ForecastPoint {
+  const spread = INTERVAL_Z * sigma * Math.sqrt(Math.max(1, steps));
+  const value = Math.max(0, count);
+  return { time, count: value, lower: Math.max(0, value - spread), upper: value + spread };
+}
+
+/** Holt's linear exponential smoothing: a smoothed level plus a smoothed per-minute trend. */
+export const holtForecaster: Forecaster = {
+  id: 'holt',
+  name: 'Exponential smoothing',
+  description: 'Extends the smoothed level along its recent trend',
+  forecast(history, times) {
+    const latest = history[history.length - 1];
+    if (!latest) return times.map((time) => toPoint(time, 0, 0, 1));
+
+    let level = history[0].count;
+    let trend = 0;
+    const errors: number[] = [];
+    for (let i = 1; i < history.length; i++) {
+      const minutes = (history[i].time - history[i - 1].time) / MINUTE;
+      const predicted = level + trend * minutes;
+      errors.push(history[i].count - predicted);
+      const nextLevel = LEVEL_ALPHA * history[i].count + (1 - LEVEL_ALPHA) * predicted;
+      if (minutes > 0) {
+        trend = TREND_BETA * ((nextLevel - level) / minutes) + (1 - TREND_BETA) * trend;
+      }
+      level = nextLevel;
+    }
+
+    const sigma = standardDeviation(errors);
+    const step = meanStepMinutes(history);
+    return times.map((time) => {
+      const minutes = (time - latest.time) / MINUTE;
+      return toPoint(time, level + trend * minutes, sigma, minutes / step);
+    });
+  },
+};
+
+// Expected count share of a zone at each hour, from the schedule the crowd model follows
+function scheduleIndex({ zone, arrivalProfile, weather }: ForecastContext, hour: number) {
+  const total = ZONES.reduce((sum, other) => sum + zoneAttraction(other, hour, weather), 0);
+  return presenceAt(arrivalProfile, hour) * (zoneAttraction(zone, hour, weather) / Math.max(total, 1));
+}
+
+/**
+ * Seasonal-by-hour baseline: scales the current count by how the zone's
+ * hourly mean changes between now and the target hour. Hours the history
+ * has not yet covered fall back to the daily schedule's shape.
+ */
+export const seasonalHourForecaster: Forecaster = {
+  id: 'seasonal-hour',
+  name: 'Seasonal by hour',
+  description: 'Follows the hour-of-day pattern learned so far and the daily schedule',
+  forecast(history, times, context) {
+    const latest = history[history.length - 1];
+    if (!latest) return times.map((time) => toPoint(time, 0, 0, 1));
+
+    const sums = new Array(24).fill(0);
+    const samples = new Array(24).fill(0);
+    history.forEach(({ time, count }) => {
+      const hour = new Date(time).getHours();
+      sums[hour] += count;
+      samples[hour] += 1;
+    });
+    const learned = (hour: number) =>
+      samples[hour] >= MIN_HOURLY_SAMPLES ? sums[hour] / samples[hour] : undefined;
+
+    const nowHour = new Date(latest.time).getHours();
+    const ratio = (hour: number) => {
+      const target = learned(hour);
+      const current = learned(nowHour);
+      if (target !== undefined && current !== undefined && current > 0) return target / current;
+      return scheduleIndex(context, hour) / Math.max(scheduleIndex(context, nowHour), 1e-9);
+    };
+
+    // Residuals of the same rule applied one step back give the interval width
+    const errors = history.slice(1).map((sample, i) => sample.count - history[i].count);
+    const sigma = standardDeviation(errors);
+    const step = meanStepMinutes(history);
+    return times.map((time) => {
+      const minutes = (time - latest.time) / MINUTE;
+      // Blend from the current count into the hourly pattern over the first hour ahead
+      const weight = Math.min(1, (time - latest.time) / HOUR);
+      const seasonal = latest.count * ratio(new Date(time).getHours());
+      return toPoint(time, latest.count + (seasonal - latest.count) * weight, sigma, minutes / step);
+    });
+  },
+};
+
+export const FORECASTERS: Forecaster[] = [holtForecaster, seasonalHourForecaster];
+
+export function getForecaster(id: string) {
+  return FORECASTERS.find((forecaster) => forecaster.id === id) ?? FORECASTERS[0];
+}
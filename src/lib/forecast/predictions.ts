@@ -0,0 +1,123 @@
+import { classifyDensity, getSafeCapacity, zoneDensity } from '@/lib/crowd/density';
+import type { CrowdSnapshot, DensityLevel } from '@/lib/crowd/store';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import type { RouteClosure } from '@/lib/simulation/params';
+import { explainPrediction, type PredictionFactor } from './factors';
+import type { CountSample, ForecastContext, ForecastPoint, Forecaster } from './forecasters';
+
+export interface ZonePrediction {
+  zoneId: ZoneId;
+  forecasterId: string;
+  count: number; // now
+  // Forecast at the end of the horizon
+  predictedCrowd: number;
+  lower: number;
+  upper: number;
+  riskLevel: DensityLevel;
+  safeCapacity: number;
+  // Minutes until the forecast first reaches the safe capacity: 0 if it already has, null if not within RISK_HORIZON_MINUTES
+  timeToRisk: number | null;
+  points: ForecastPoint[];
+}
+
+export interface PredictionOptions {
+  // Hourly arrival multipliers and weather the crowd is expected to follow
+  arrivalProfile: number[];
+  weather: number;
+  horizonMinutes?: number;
+  stepMinutes?: number;
+  // Road closures in force, for the exit-route factor
+  closures?: RouteClosure[];
+}
+
+export interface ExplainedPrediction extends ZonePrediction {
+  factors: PredictionFactor[];
+}
+
+export const DEFAULT_HORIZON_MINUTES = 60;
+// How far ahead the forecast is searched for a capacity crossing
+export const RISK_HORIZON_MINUTES = 180;
+const STEP_MINUTES = 5;
+
+const MINUTE = 60000;
+
+/** One zone's counts across `history`, up to and including the instant `until`. */
+export function zoneCountHistory(history: readonly CrowdSnapshot[], zoneId: ZoneId, until: number): CountSample[] {
+  const samples: CountSample[] = [];
+  for (const snapshot of history) {
+    if (snapshot.timestamp > until) break;
+    const reading = snapshot.zones.find((zone) => zone.zoneId === zoneId);
+    if (reading) samples.push({ time: snapshot.timestamp, count: reading.count });
+  }
+  return samples;
+}
+
+export function predictZone(
+  zoneId: ZoneId,
+  history: readonly CountSample[],
+  forecaster: Forecaster,
+  { arrivalProfile, weather, horizonMinutes = DEFAULT_HORIZON_MINUTES, stepMinutes = STEP_MINUTES }: PredictionOptions
+): ZonePrediction {
+  const zone = getZone(zoneId);
+  const latest = history[history.length - 1];
+  const now = latest?.time ?? 0;
+  const count = latest?.count ?? 0;
+  const context: ForecastContext = { zone, arrivalProfile, weather };
+
+  const lastMinute = Math.max(horizonMinutes, RISK_HORIZON_MINUTES);
+  const times: number[] = [];
+  for (let minute = stepMinutes; minute <= lastMinute; minute += stepMinutes) {
+    times.push(now + minute * MINUTE);
+  }
+  const points = forecaster.forecast(history, times, context);
+  const atHorizon =
+    points.find((point) => point.time >= now + horizonMinutes * MINUTE) ?? points[points.length - 1];
+
+  const safeCapacity = getSafeCapacity(zone);
+  const crossing = points.find((point) => point.count >= safeCapacity);
+  const timeToRisk =
+    count >= safeCapacity ? 0 : crossing ? Math.round((crossing.time - now) / MINUTE) : null;
+
+  const predictedCrowd = Math.round(atHorizon?.count ?? count);
+  return {
+    zoneId,
+    forecasterId: forecaster.id,
+    count,
+    predictedCrowd,
+    lower: Math.round(atHorizon?.lower ?? count),
+    upper: Math.round(atHorizon?.upper ?? count),
+    riskLevel: classifyDensity(zoneDensity(zone, predictedCrowd)),
+    safeCapacity,
+    timeToRisk,
+    points: points.filter((point) => point.time <= now + horizonMinutes * MINUTE),
+  };
+}
+
+/**
+ * Forecasts every zone in `snapshot` from the published history up to it,
+ * with the drivers behind each forecast, most urgent first: soonest to
+ * reach capacity, then highest predicted load.
+ */
+export function predictZones(
+  snapshot: CrowdSnapshot,
+  history: readonly CrowdSnapshot[],
+  forecaster: Forecaster,
+  options: PredictionOptions
+): ExplainedPrediction[] {
+  return snapshot.zones
+    .map((reading) => ({
+      ...predictZone(reading.zoneId, zoneCountHistory(history, reading.zoneId, snapshot.timestamp), forecaster, options),
+      factors: explainPrediction(getZone(reading.zoneId), {
+        reading,
+        time: snapshot.timestamp,
+        horizonMinutes: options.horizonMinutes ?? DEFAULT_HORIZON_MINUTES,
+        weather: options.weather,
+        closures: options.closures ?? [],
+      }),
+    }))
+    .sort(
+      (a, b) =>
+        (a.timeToRisk ?? Infinity) - (b.timeToRisk ?? Infinity) ||
+        b.predictedCrowd / b.safeCapacity - a.predictedCrowd / a.safeCapacity
+    );
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import type { LngLat } from './projection';
+
+// Served with the app so the map needs no tile server or network access.
+// Zone outlines come from the zone registry rather than this file.
+export const BASEMAP_URL = '/geo/nashik-basemap.geojson';
+
+export type BasemapKind = 'river' | 'road';
+
+export interface BasemapFeature {
+  type: 'Feature';
+  properties: {
+    kind: BasemapKind;
+    name: string;
+    edgeId?: string; // walking-network edge the road carries
+  };
+  geometry:
+    | { type: 'LineString'; coordinates: LngLat[] }
+    | { type: 'Polygon'; coordinates: LngLat[][] };
+}
+
+export interface Basemap {
+  type: 'FeatureCollection';
+  features: BasemapFeature[];
+}
+
+// How each basemap layer is drawn
+export const MAP_STYLE = {
+  background: '#f8f5ef',
+  river: { stroke: '#7db7d9', width: 10 },
+  road: { stroke: '#c9c2b6', width: 3 },
+  zone: { stroke: '#1e3a8a', width: 1.5, idle: 'rgba(148, 163, 184, 0.25)' },
+  label: { fill: '#1e3a8a', size: 11 },
+};
+
+const lngLat = z.tuple([z.number(), z.number()]);
+
+const basemapSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(
+    z.object({
+      type: z.literal('Feature'),
+      properties: z.object({
+        kind: z.enum(['river', 'road']),
+        name: z.string(),
+        edgeId: z.string().optional(),
+      }),
+      geometry: z.discriminatedUnion('type', [
+        z.object({ type: z.literal('LineString'), coordinates: z.array(lngLat) }),
+        z.object({ type: z.literal('Polygon'), coordinates: z.array(z.array(lngLat)) }),
+      ]),
+    })
+  ),
+});
+
+export async function fetchBasemap(url = BASEMAP_URL): Promise<Basemap> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load the base map (${response.status})`);
+  }
+  const result = basemapSchema.safeParse(await response.json());
+  if (!result.success) {
+    throw new Error('Base map file is not valid GeoJSON for this app');
+  }
+  return result.data as Basemap;
+}
+
+export function featureCoordinates(feature: BasemapFeature): LngLat[] {
+  return feature.geometry.type === 'Polygon' ? feature.geometry.coordinates[0] : feature.geometry.coordinates;
+}
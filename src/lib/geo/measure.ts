@@ -0,0 +1,38 @@
+import type { LngLat } from './projection';
+
+const EARTH_RADIUS_M = 6371008.8;
+const RADIANS = Math.PI / 180;
+
+// Metres per degree of longitude and latitude around `lat`; accurate over a few kilometres
+function metresPerDegree(lat: number) {
+  const perLat = EARTH_RADIUS_M * RADIANS;
+  return { lon: perLat * Math.cos(lat * RADIANS), lat: perLat };
+}
+
+/** Great-circle distance between two points, in metres. */
+export function distanceM([lon1, lat1]: LngLat, [lon2, lat2]: LngLat) {
+  const dLat = (lat2 - lat1) * RADIANS;
+  const dLon = (lon2 - lon1) * RADIANS;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * RADIANS) * Math.cos(lat2 * RADIANS) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** The point `east` and `north` metres away from `origin`. */
+export function offsetLngLat([lon, lat]: LngLat, east: number, north: number): LngLat {
+  const scale = metresPerDegree(lat);
+  return [lon + east / scale.lon, lat + north / scale.lat];
+}
+
+/** Area enclosed by a ring of coordinates, in square metres. The ring may be open or closed. */
+export function polygonAreaM2(ring: LngLat[]) {
+  if (ring.length < 3) return 0;
+  const scale = metresPerDegree(ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length);
+  let twiceArea = 0;
+  ring.forEach(([lon, lat], i) => {
+    const [nextLon, nextLat] = ring[(i + 1) % ring.length];
+    twiceArea += lon * scale.lon * nextLat * scale.lat - nextLon * scale.lon * lat * scale.lat;
+  });
+  return Math.abs(twiceArea) / 2;
+}
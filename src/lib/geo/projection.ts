@@ -0,0 +1,88 @@
+// [longitude, latitude] in degrees, in GeoJSON order
+export type LngLat = [number, number];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Screen placement of the Web Mercator world square, which spans 0..1 on both axes
+export interface Viewport {
+  center: Point; // world units
+  scale: number; // pixels per world unit
+  width: number;
+  height: number;
+}
+
+const MAX_LATITUDE = 85.05112878;
+
+export function projectMercator([lon, lat]: LngLat): Point {
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: (lon + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  };
+}
+
+export function unprojectMercator({ x, y }: Point): LngLat {
+  const lon = x * 360 - 180;
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI;
+  return [lon, lat];
+}
+
+export function getBounds(coordinates: LngLat[]): [LngLat, LngLat] {
+  const lons = coordinates.map(([lon]) => lon);
+  const lats = coordinates.map(([, lat]) => lat);
+  return [
+    [Math.min(...lons), Math.min(...lats)],
+    [Math.max(...lons), Math.max(...lats)],
+  ];
+}
+
+/** A viewport showing the whole of `bounds` with `padding` pixels to spare on every side. */
+export function fitViewport(bounds: [LngLat, LngLat], width: number, height: number, padding = 24): Viewport {
+  const min = projectMercator([bounds[0][0], bounds[1][1]]);
+  const max = projectMercator([bounds[1][0], bounds[0][1]]);
+  const spanX = Math.max(max.x - min.x, 1e-9);
+  const spanY = Math.max(max.y - min.y, 1e-9);
+  return {
+    center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 },
+    scale: Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY),
+    width,
+    height,
+  };
+}
+
+export function toScreen(viewport: Viewport, lngLat: LngLat): Point {
+  const world = projectMercator(lngLat);
+  return {
+    x: (world.x - viewport.center.x) * viewport.scale + viewport.width / 2,
+    y: (world.y - viewport.center.y) * viewport.scale + viewport.height / 2,
+  };
+}
+
+export function panViewport(viewport: Viewport, dx: number, dy: number): Viewport {
+  return {
+    ...viewport,
+    center: { x: viewport.center.x - dx / viewport.scale, y: viewport.center.y - dy / viewport.scale },
+  };
+}
+
+/** Zooms by `factor` while keeping the world point under `anchor` (screen pixels) in place. */
+export function zoomViewport(viewport: Viewport, factor: number, anchor?: Point): Viewport {
+  const screen = anchor ?? { x: viewport.width / 2, y: viewport.height / 2 };
+  const world = {
+    x: viewport.center.x + (screen.x - viewport.width / 2) / viewport.scale,
+    y: viewport.center.y + (screen.y - viewport.height / 2) / viewport.scale,
+  };
+  const scale = viewport.scale * factor;
+  return {
+    ...viewport,
+    scale,
+    center: {
+      x: world.x - (screen.x - viewport.width / 2) / scale,
+      y: world.y - (screen.y - viewport.height / 2) / scale,
+    },
+  };
+}
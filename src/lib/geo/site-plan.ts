@@ -0,0 +1,27 @@
+import { ZONES } from '@/lib/crowd/zones';
+import { projectMercator, type LngLat, type Point } from './projection';
+
+// Width-to-height ratio of the site plan shared by the 2D heat map and the 3D ground plane
+export const SITE_PLAN_ASPECT = 2;
+
+// Share of each edge kept clear so markers and labels stay inside the frame
+const MARGIN = 0.08;
+
+const corners = ZONES.flatMap((zone) => zone.boundary).map(projectMercator);
+const min = { x: Math.min(...corners.map((p) => p.x)), y: Math.min(...corners.map((p) => p.y)) };
+const max = { x: Math.max(...corners.map((p) => p.x)), y: Math.max(...corners.map((p) => p.y)) };
+const center = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 };
+// Frame widths per Mercator unit, equal on both axes so distances keep their proportions
+const scale = Math.min((1 - MARGIN * 2) / (max.x - min.x), (1 - MARGIN * 2) / ((max.y - min.y) * SITE_PLAN_ASPECT));
+
+/**
+ * Places a coordinate on the site plan as percentages of its width and height,
+ * with north up. Every zone and road of the registry falls inside 0..100.
+ */
+export function toSitePlan(lngLat: LngLat): Point {
+  const world = projectMercator(lngLat);
+  return {
+    x: 50 + (world.x - center.x) * scale * 100,
+    y: 50 + (world.y - center.y) * scale * SITE_PLAN_ASPECT * 100,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { assignUnits, getIncidentLog, getIncidentState, releaseUnit, reportIncident, setIncidentStatus } from './store';
+
+const TIME = new Date('2027-07-22T06:00:00').getTime();
+const MINUTE = 60000;
+
+const report = () =>
+  reportIncident({ zoneId: 'ramkund-ghat', kind: 'crowd-control', priority: 'high', description: '' }, TIME, 'Test');
+
+const find = (id: string) => getIncidentState().incidents.find((incident) => incident.id === id)!;
+
+describe('incident store', () => {
+  it('dispatches a reported incident on its first assignment', () => {
+    const { id } = report();
+
+    assignUnits(id, ['police-1'], TIME + MINUTE, 'Test');
+
+    expect(find(id)).toMatchObject({ status: 'dispatched', unitIds: ['police-1'], dispatchedAt: TIME + MINUTE });
+  });
+
+  it('moves a dispatched incident back to reported when its last unit is released', () => {
+    const { id } = report();
+    assignUnits(id, ['police-2', 'police-3'], TIME + MINUTE, 'Test');
+
+    releaseUnit(id, 'police-2', TIME + 2 * MINUTE, 'Test');
+    expect(find(id).status).toBe('dispatched');
+
+    releaseUnit(id, 'police-3', TIME + 3 * MINUTE, 'Test');
+    expect(find(id)).toMatchObject({ status: 'reported', unitIds: [], dispatchedAt: null });
+    expect(getIncidentLog(getIncidentState(), id).map((item) => [item.action, item.detail])).toEqual([
+      ['created', 'Crowd control at Ramkund Ghat, high priority'],
+      ['assigned', 'Police 2, Police 3'],
+      ['status', 'Reported → Dispatched'],
+      ['released', 'Police 2'],
+      ['released', 'Police 3'],
+      ['status', 'Dispatched → Reported'],
+    ]);
+  });
+
+  it('keeps an incident on scene when its last unit is released', () => {
+    const { id } = report();
+    assignUnits(id, ['police-4'], TIME + MINUTE, 'Test');
+    setIncidentStatus(id, 'on-scene', TIME + 2 * MINUTE, 'Test');
+
+    releaseUnit(id, 'police-4', TIME + 3 * MINUTE, 'Test');
+
+    expect(find(id).status).toBe('on-scene');
+  });
+
+  it('will not assign a unit committed to another open incident', () => {
+    const first = report();
+    const second = report();
+    assignUnits(first.id, ['ambulance-1'], TIME, 'Test');
+
+    expect(() => assignUnits(second.id, ['ambulance-1'], TIME, 'Test')).toThrow(
+      'Ambulance 1 is committed to another incident'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import type { AlertSeverity } from '@/lib/alerts/rules';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import { getUnit, type UnitType } from '@/lib/resources/units';
+
+export type IncidentKind = 'crowd-control' | 'medical' | 'fire' | 'lost-person' | 'diversion';
+export type IncidentStatus = 'reported' | 'dispatched' | 'on-scene' | 'resolved';
+
+export interface Incident {
+  id: string;
+  zoneId: ZoneId;
+  kind: IncidentKind;
+  priority: AlertSeverity;
+  description: string;
+  status: IncidentStatus;
+  unitIds: string[];
+  // Simulated epoch milliseconds of each status change
+  reportedAt: number;
+  dispatchedAt: number | null;
+  onSceneAt: number | null;
+  resolvedAt: number | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  incidentId: string;
+  time: number;
+  by: string;
+  action: 'created' | 'assigned' | 'released' | 'status';
+  detail: string;
+}
+
+export interface IncidentState {
+  incidents: Incident[];
+  // Every change to every incident, oldest first
+  log: AuditEntry[];
+}
+
+type Listener = (state: IncidentState) => void;
+
+export const INCIDENT_KINDS: Record<IncidentKind, { label: string; units: UnitType[] }> = {
+  'crowd-control': { label: 'Crowd control', units: ['police', 'volunteer'] },
+  medical: { label: 'Medical emergency', units: ['medical'] },
+  fire: { label: 'Fire', units: ['fire', 'medical'] },
+  'lost-person': { label: 'Lost person', units: ['volunteer', 'police'] },
+  diversion: { label: 'Crowd diversion', units: ['police', 'volunteer'] },
+};
+
+export const INCIDENT_STATUSES: Record<IncidentStatus, string> = {
+  reported: 'Reported',
+  dispatched: 'Dispatched',
+  'on-scene': 'On scene',
+  resolved: 'Resolved',
+};
+
+// The status an incident moves to next in the normal course of a response
+const NEXT_STATUS: Partial<Record<IncidentStatus, IncidentStatus>> = {
+  dispatched: 'on-scene',
+  'on-scene': 'resolved',
+};
+
+const listeners: Listener[] = [];
+
+let memoryState: IncidentState = { incidents: [], log: [] };
+let nextId = 1;
+let nextEntryId = 1;
+
+function emit(state: IncidentState) {
+  memoryState = state;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function entry(incidentId: string, time: number, by: string, action: AuditEntry['action'], detail: string): AuditEntry {
+  return { id: nextEntryId++, incidentId, time, by, action, detail };
+}
+
+function findOpen(id: string) {
+  const incident = memoryState.incidents.find((candidate) => candidate.id === id);
+  if (!incident) {
+    throw new Error(`Unknown incident: ${id}`);
+  }
+  if (incident.status === 'resolved') {
+    throw new Error(`Incident ${id} is already resolved`);
+  }
+  return incident;
+}
+
+function update(incident: Incident, entries: AuditEntry[]) {
+  emit({
+    incidents: memoryState.incidents.map((candidate) => (candidate.id === incident.id ? incident : candidate)),
+    log: [...memoryState.log, ...entries],
+  });
+}
+
+export function getIncidentState() {
+  return memoryState;
+}
+
+export function subscribeToIncidents(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** Units committed to an incident that is not yet resolved. */
+export function getCommittedUnitIds(incidents: readonly Incident[]) {
+  return new Set(
+    incidents.filter((incident) => incident.status !== 'resolved').flatMap((incident) => incident.unitIds)
+  );
+}
+
+export function getNextStatus(status: IncidentStatus) {
+  return NEXT_STATUS[status];
+}
+
+export function getIncidentLog(state: IncidentState, incidentId: string) {
+  return state.log.filter((item) => item.incidentId === incidentId);
+}
+
+/** Opens an incident in a zone; assigning units to it afterwards dispatches them. */
+export function reportIncident(
+  { zoneId, kind, priority, description }: Pick<Incident, 'zoneId' | 'kind' | 'priority' | 'description'>,
+  time: number,
+  by: string
+) {
+  const incident: Incident = {
+    id: `INC-${String(nextId++).padStart(3, '0')}`,
+    zoneId,
+    kind,
+    priority,
+    description,
+    status: 'reported',
+    unitIds: [],
+    reportedAt: time,
+    dispatchedAt: null,
+    onSceneAt: null,
+    resolvedAt: null,
+  };
+  emit({
+    incidents: [...memoryState.incidents, incident],
+    log: [
+      ...memoryState.log,
+      entry(
+        incident.id,
+        time,
+        by,
+        'created',
+        `${INCIDENT_KINDS[kind].label} at ${getZone(zoneId).name}, ${priority} priority`
+      ),
+    ],
+  });
+  return incident;
+}
+
+/**
+ * Commits units from the roster to an open incident. The first assignment
+ * moves a reported incident to dispatched. Units already committed
+ * elsewhere cannot be assigned.
+ */
+export function assignUnits(id: string, unitIds: string[], time: number, by: string) {
+  const incident = findOpen(id);
+  const committed = getCommittedUnitIds(memoryState.incidents);
+  const added = unitIds.filter((unitId) => !incident.unitIds.includes(unitId));
+  const busy = added.find((unitId) => committed.has(unitId));
+  if (busy) {
+    throw new Error(`${getUnit(busy).callSign} is committed to another incident`);
+  }
+  if (added.length === 0) return;
+
+  const entries = [entry(id, time, by, 'assigned', added.map((unitId) => getUnit(unitId).callSign).join(', '))];
+  const dispatch = incident.status === 'reported';
+  if (dispatch) {
+    entries.push(entry(id, time, by, 'status', `${INCIDENT_STATUSES.reported} → ${INCIDENT_STATUSES.dispatched}`));
+  }
+  update(
+    {
+      ...incident,
+      unitIds: [...incident.unitIds, ...added],
+      status: dispatch ? 'dispatched' : incident.status,
+      dispatchedAt: dispatch ? time : incident.dispatchedAt,
+    },
+    entries
+  );
+}
+
+/**
+ * Stands a unit down from an incident that is still open. Releasing the last
+ * unit of a dispatched incident moves it back to reported.
+ */
+export function releaseUnit(id: string, unitId: string, time: number, by: string) {
+  const incident = findOpen(id);
+  if (!incident.unitIds.includes(unitId)) return;
+  const unitIds = incident.unitIds.filter((candidate) => candidate !== unitId);
+  const entries = [entry(id, time, by, 'released', getUnit(unitId).callSign)];
+  const recall = unitIds.length === 0 && incident.status === 'dispatched';
+  if (recall) {
+    entries.push(entry(id, time, by, 'status', `${INCIDENT_STATUSES.dispatched} → ${INCIDENT_STATUSES.reported}`));
+  }
+  update(
+    {
+      ...incident,
+      unitIds,
+      status: recall ? 'reported' : incident.status,
+      dispatchedAt: recall ? null : incident.dispatchedAt,
+    },
+    entries
+  );
+}
+
+/** Moves an incident to `status`: on scene once dispatched, or resolved from any open status. */
+export function setIncidentStatus(id: string, status: IncidentStatus, time: number, by: string) {
+  const incident = findOpen(id);
+  if (status !== 'resolved' && NEXT_STATUS[incident.status] !== status) {
+    throw new Error(`Incident ${id} cannot go from ${incident.status} to ${status}`);
+  }
+  update(
+    {
+      ...incident,
+      status,
+      onSceneAt: status === 'on-scene' ? time : incident.onSceneAt,
+      resolvedAt: status === 'resolved' ? time : incident.resolvedAt,
+    },
+    [entry(id, time, by, 'status', `${INCIDENT_STATUSES[incident.status]} → ${INCIDENT_STATUSES[status]}`)]
+  );
+}
@@ -0,0 +1,299 @@
+import { getCrowdHistory, getCrowdSnapshot, subscribeToCrowd, type CrowdSnapshot } from '@/lib/crowd/store';
+import type { ZoneId } from '@/lib/crowd/zones';
+import type { LngLat } from '@/lib/geo/projection';
+import {
+  INCIDENT_KINDS,
+  assignUnits,
+  getIncidentState,
+  setIncidentStatus,
+  subscribeToIncidents,
+  type Incident,
+  type IncidentState,
+} from '@/lib/incidents/store';
+import { edgeSeconds, findFastestRoutes } from '@/lib/routing/travel';
+import { EDGES, getNode, getOtherEnd, type NodeId } from '@/lib/simulation/network';
+import { findRoadRules, type RoadRules } from '@/lib/simulation/road-rules';
+import { getRuntimeState } from '@/lib/simulation/runtime';
+import { RESPONSE_UNITS, UNIT_TYPES, getUnit, type ResponseUnit, type UnitType } from './units';
+
+export type UnitStatus = 'available' | 'en-route' | 'on-scene' | 'returning';
+
+export interface UnitState {
+  unitId: string;
+  status: UnitStatus;
+  incidentId: string | null;
+  // Where the unit is heading: its incident's zone, or its base on the way back
+  destination: NodeId | null;
+  // The node the unit last left or reached, and the roads still ahead as EDGES indices, the first being the one it is on
+  node: NodeId;
+  path: number[];
+  progressM: number; // metres travelled along path[0]
+  position: LngLat;
+  eta: number | null; // simulated epoch milliseconds, while the unit is moving
+}
+
+export interface Arrival {
+  unitId: string;
+  seconds: number;
+}
+
+type Listener = (units: UnitState[]) => void;
+
+export const UNIT_STATUSES: Record<UnitStatus, string> = {
+  available: 'Available',
+  'en-route': 'En route',
+  'on-scene': 'On scene',
+  returning: 'Returning',
+};
+
+type Leg = Pick<UnitState, 'node' | 'path' | 'progressM'>;
+
+const listeners: Listener[] = [];
+
+let memoryState: UnitState[] = RESPONSE_UNITS.map(station);
+let lastTimestamp = getCrowdSnapshot().timestamp;
+
+function emit(units: UnitState[]) {
+  memoryState = units;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function station(unit: ResponseUnit): UnitState {
+  return {
+    unitId: unit.id,
+    status: 'available',
+    incidentId: null,
+    destination: null,
+    node: unit.base,
+    path: [],
+    progressM: 0,
+    position: getNode(unit.base).position,
+    eta: null,
+  };
+}
+
+function speedOf(unitId: string) {
+  return UNIT_TYPES[getUnit(unitId).type].speed;
+}
+
+function roadRules(time: number) {
+  return findRoadRules(getRuntimeState().params.closures, time);
+}
+
+/** Seconds the unit needs for the roads still ahead at the crowd densities in `snapshot`. */
+function remainingSeconds(unit: UnitState, snapshot: CrowdSnapshot) {
+  const speed = speedOf(unit.unitId);
+  return unit.path.reduce((sum, index, position) => {
+    const share = position === 0 ? 1 - unit.progressM / EDGES[index].lengthM : 1;
+    return sum + edgeSeconds(snapshot, index, speed) * share;
+  }, 0);
+}
+
+/**
+ * Fastest way from where the unit is to `destination`. A unit part-way along
+ * a road may carry on to its far end or turn back, whichever is quicker.
+ */
+function planLeg(unit: UnitState, destination: NodeId, snapshot: CrowdSnapshot, rules: RoadRules) {
+  const speed = speedOf(unit.unitId);
+  if (unit.path.length === 0) {
+    const route = findFastestRoutes(unit.node, speed, snapshot, rules).route(destination);
+    return route && { leg: { node: unit.node, path: route.edges, progressM: 0 }, seconds: route.seconds };
+  }
+
+  const index = unit.path[0];
+  const edge = EDGES[index];
+  const ahead = getOtherEnd(edge, unit.node);
+  const full = edgeSeconds(snapshot, index, speed);
+  const share = unit.progressM / edge.lengthM;
+  const options = [
+    { start: ahead, leg: { node: unit.node, progressM: unit.progressM }, seconds: full * (1 - share) },
+    { start: unit.node, leg: { node: ahead, progressM: edge.lengthM - unit.progressM }, seconds: full * share },
+  ];
+  let best: { leg: Leg; seconds: number } | null = null;
+  for (const { start, leg, seconds } of options) {
+    const route = findFastestRoutes(start, speed, snapshot, rules).route(destination);
+    if (route && (!best || seconds + route.seconds < best.seconds)) {
+      best = { leg: { ...leg, path: [index, ...route.edges] }, seconds: seconds + route.seconds };
+    }
+  }
+  return best;
+}
+
+/** Position on the map and arrival time, from where the unit is along its path. */
+function track(unit: UnitState, snapshot: CrowdSnapshot): UnitState {
+  const from = getNode(unit.node).position;
+  let position = from;
+  if (unit.path.length > 0) {
+    const edge = EDGES[unit.path[0]];
+    const to = getNode(getOtherEnd(edge, unit.node)).position;
+    const share = unit.progressM / edge.lengthM;
+    position = [from[0] + (to[0] - from[0]) * share, from[1] + (to[1] - from[1]) * share];
+  }
+  const moving = unit.destination !== null && (unit.path.length > 0 || unit.node === unit.destination);
+  return {
+    ...unit,
+    position,
+    eta: moving ? snapshot.timestamp + remainingSeconds(unit, snapshot) * 1000 : null,
+  };
+}
+
+/** Sends a unit towards `destination`; it waits where it is while every route there is closed. */
+function head(
+  unit: UnitState,
+  destination: NodeId,
+  changes: Pick<UnitState, 'status' | 'incidentId'>,
+  snapshot: CrowdSnapshot,
+  rules: RoadRules
+) {
+  const plan = planLeg(unit, destination, snapshot, rules);
+  return track({ ...unit, ...changes, ...(plan?.leg ?? {}), destination }, snapshot);
+}
+
+/** Moves a unit `seconds` further along its path at the speed the crowd on each road allows. */
+function advance(unit: UnitState, seconds: number, snapshot: CrowdSnapshot): UnitState {
+  const speed = speedOf(unit.unitId);
+  const path = [...unit.path];
+  let { node, progressM } = unit;
+  let left = seconds;
+  while (left > 0 && path.length > 0) {
+    const edge = EDGES[path[0]];
+    const full = edgeSeconds(snapshot, path[0], speed);
+    const needed = full * (1 - progressM / edge.lengthM);
+    if (needed > left) {
+      progressM += (edge.lengthM * left) / full;
+      left = 0;
+    } else {
+      left -= needed;
+      node = getOtherEnd(edge, node);
+      path.shift();
+      progressM = 0;
+    }
+  }
+  return { ...unit, node, path, progressM };
+}
+
+// Dispatches newly assigned units and sends released ones, or those whose incident closed, back to base
+function reconcile(state: IncidentState) {
+  const snapshot = getCrowdSnapshot();
+  const rules = roadRules(snapshot.timestamp);
+  const assigned = new Map<string, Incident>();
+  state.incidents
+    .filter((incident) => incident.status !== 'resolved')
+    .forEach((incident) => incident.unitIds.forEach((unitId) => assigned.set(unitId, incident)));
+
+  let changed = false;
+  const units = memoryState.map((unit) => {
+    const incident = assigned.get(unit.unitId);
+    if (incident && unit.incidentId !== incident.id) {
+      changed = true;
+      return head(unit, incident.zoneId, { status: 'en-route', incidentId: incident.id }, snapshot, rules);
+    }
+    if (!incident && unit.incidentId !== null) {
+      changed = true;
+      return head(unit, getUnit(unit.unitId).base, { status: 'returning', incidentId: null }, snapshot, rules);
+    }
+    return unit;
+  });
+  if (changed) emit(units);
+}
+
+subscribeToCrowd((snapshot) => {
+  const history = getCrowdHistory();
+  // A republish of the same instant, e.g. after new density thresholds, is not a new reading
+  if (snapshot.timestamp === lastTimestamp && history.length > 1) return;
+  const seconds = (snapshot.timestamp - lastTimestamp) / 1000;
+  lastTimestamp = snapshot.timestamp;
+  // A restarted run puts every unit back at base, from where the committed ones set out again
+  if (history.length === 1 || seconds < 0) {
+    emit(RESPONSE_UNITS.map(station));
+    reconcile(getIncidentState());
+    return;
+  }
+
+  const rules = roadRules(snapshot.timestamp);
+  const arrived: UnitState[] = [];
+  const units = memoryState.map((unit) => {
+    if (unit.destination === null) return unit;
+    let moved = unit;
+    // Closed roads may have reopened for a unit still waiting for a route
+    if (moved.path.length === 0 && moved.node !== moved.destination) {
+      moved = head(moved, moved.destination, moved, snapshot, rules);
+    }
+    moved = advance(moved, seconds, snapshot);
+    if (moved.path.length === 0 && moved.node === moved.destination) {
+      arrived.push(moved);
+      return track(
+        { ...moved, status: moved.status === 'en-route' ? 'on-scene' : 'available', destination: null },
+        snapshot
+      );
+    }
+    return track(moved, snapshot);
+  });
+  emit(units);
+
+  // The first unit to reach an incident puts it on scene
+  const { incidents } = getIncidentState();
+  arrived
+    .filter((unit) => unit.status === 'en-route')
+    .forEach((unit) => {
+      const incident = incidents.find((candidate) => candidate.id === unit.incidentId);
+      if (incident?.status === 'dispatched') {
+        setIncidentStatus(incident.id, 'on-scene', snapshot.timestamp, getUnit(unit.unitId).callSign);
+      }
+    });
+});
+
+subscribeToIncidents(reconcile);
+
+export function getUnitStates() {
+  return memoryState;
+}
+
+export function subscribeToUnits(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** Where a unit is, as the place it last reached or the road it is on. */
+export function describeLocation(unit: UnitState) {
+  return unit.path.length > 0 ? `On ${EDGES[unit.path[0]].name}` : `At ${getNode(unit.node).name}`;
+}
+
+/**
+ * Travel times to a zone for the units not committed to an incident,
+ * quickest first, at the current crowd densities and keeping to the road closures.
+ * Units with no open route there are left out.
+ */
+export function estimateArrivals(zoneId: ZoneId, types?: readonly UnitType[]): Arrival[] {
+  const snapshot = getCrowdSnapshot();
+  const rules = roadRules(snapshot.timestamp);
+  return memoryState
+    .filter((unit) => unit.incidentId === null && (!types || types.includes(getUnit(unit.unitId).type)))
+    .map((unit) => ({ unitId: unit.unitId, seconds: planLeg(unit, zoneId, snapshot, rules)?.seconds ?? Infinity }))
+    .filter((arrival) => Number.isFinite(arrival.seconds))
+    .sort((a, b) => a.seconds - b.seconds);
+}
+
+/**
+ * Assigns the nearest free unit suited to the incident, or the nearest free
+ * unit of any type when none of those can get there.
+ */
+export function dispatchNearest(incidentId: string, time: number, by: string) {
+  const incident = getIncidentState().incidents.find((candidate) => candidate.id === incidentId);
+  if (!incident) {
+    throw new Error(`Unknown incident: ${incidentId}`);
+  }
+  const [nearest] = [...estimateArrivals(incident.zoneId, INCIDENT_KINDS[incident.kind].units), ...estimateArrivals(incident.zoneId)];
+  if (!nearest) {
+    throw new Error(`No free unit can reach ${incidentId}`);
+  }
+  assignUnits(incidentId, [nearest.unitId], time, by);
+  return nearest;
+}
@@ -0,0 +1,45 @@
+import type { NodeId } from '@/lib/simulation/network';
+
+export type UnitType = 'police' | 'medical' | 'fire' | 'volunteer';
+
+export interface ResponseUnit {
+  id: string;
+  callSign: string;
+  type: UnitType;
+  // Network node the unit is stationed at between assignments
+  base: NodeId;
+}
+
+// speed is the unit's pace on an empty road in m/s; crowds slow vehicles and teams on foot alike
+export const UNIT_TYPES: Record<UnitType, { label: string; color: string; speed: number }> = {
+  police: { label: 'Police', color: 'bg-blue-500', speed: 2 },
+  medical: { label: 'Medical', color: 'bg-red-500', speed: 4 },
+  fire: { label: 'Fire', color: 'bg-orange-500', speed: 3.5 },
+  volunteer: { label: 'Volunteers', color: 'bg-kumbh-saffron', speed: 1.4 },
+};
+
+// Standing roster for the Mela, stationed at the control posts along the pilgrim routes
+export const RESPONSE_UNITS: ResponseUnit[] = [
+  { id: 'police-1', callSign: 'Police 1', type: 'police', base: 'ramkund-ghat' },
+  { id: 'police-2', callSign: 'Police 2', type: 'police', base: 'panchavati-karanja' },
+  { id: 'police-3', callSign: 'Police 3', type: 'police', base: 'tapovan-road' },
+  { id: 'police-4', callSign: 'Police 4', type: 'police', base: 'cbs-bus-stand' },
+  { id: 'ambulance-1', callSign: 'Ambulance 1', type: 'medical', base: 'malviya-chowk' },
+  { id: 'ambulance-2', callSign: 'Ambulance 2', type: 'medical', base: 'triveni-sangam' },
+  { id: 'ambulance-3', callSign: 'Ambulance 3', type: 'medical', base: 'dwarka-circle' },
+  { id: 'fire-1', callSign: 'Fire Tender 1', type: 'fire', base: 'gadge-maharaj-bridge' },
+  { id: 'fire-2', callSign: 'Fire Tender 2', type: 'fire', base: 'nashik-road-station' },
+  { id: 'volunteers-1', callSign: 'Seva Team 1', type: 'volunteer', base: 'godavari-ghat' },
+  { id: 'volunteers-2', callSign: 'Seva Team 2', type: 'volunteer', base: 'kalaram-temple' },
+  { id: 'volunteers-3', callSign: 'Seva Team 3', type: 'volunteer', base: 'panchavati' },
+];
+
+const unitsById = new Map(RESPONSE_UNITS.map((unit) => [unit.id, unit]));
+
+export function getUnit(id: string): ResponseUnit {
+  const unit = unitsById.get(id);
+  if (!unit) {
+    throw new Error(`Unknown response unit: ${id}`);
+  }
+  return unit;
+}
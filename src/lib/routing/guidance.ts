@@ -0,0 +1,57 @@
+import { getCrowdSnapshot, type CrowdSnapshot } from '@/lib/crowd/store';
+import type { ZoneId } from '@/lib/crowd/zones';
+import { getRuntimeState } from '@/lib/simulation/runtime';
+import { planRoute, planRouteToNearest, type RouteConditions } from './planner';
+
+// A route a pilgrim or operator asked for, drawn on the crowd map until cleared
+export interface RouteRequest {
+  from: ZoneId;
+  // A zone, or the nearest zone that is not crowded
+  to: ZoneId | 'safe';
+}
+
+type Listener = (request: RouteRequest | null) => void;
+
+// Where most pilgrims arrive, and so where a route starts when no start is given
+export const DEFAULT_ROUTE_START: ZoneId = 'cbs-bus-stand';
+
+const listeners: Listener[] = [];
+
+let memoryState: RouteRequest | null = null;
+
+function emit(request: RouteRequest | null) {
+  memoryState = request;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+export function getRouteRequest() {
+  return memoryState;
+}
+
+export function subscribeToRouteRequest(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function setRouteRequest(request: RouteRequest | null) {
+  emit(request);
+}
+
+/** Conditions a pilgrim walks in: the crowd in `snapshot`, the run's closures and its mean walking speed. */
+export function getRouteConditions(snapshot: CrowdSnapshot = getCrowdSnapshot()): RouteConditions {
+  const { params } = getRuntimeState();
+  return { snapshot, closures: params.closures, speed: params.walkingSpeed.mean };
+}
+
+export function planRequestedRoute(request: RouteRequest, conditions: RouteConditions) {
+  return request.to === 'safe'
+    ? planRouteToNearest(request.from, conditions)
+    : planRoute(request.from, request.to, conditions);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getCrowdSnapshot, publishCrowdReading } from '@/lib/crowd/store';
+import { ZONES } from '@/lib/crowd/zones';
+import { EDGES, getOtherEnd, type NodeId } from '@/lib/simulation/network';
+import type { RouteClosure } from '@/lib/simulation/params';
+import type { Route } from './travel';
+import { planRoute, type RouteConditions } from './planner';
+
+const TIME = new Date('2027-07-22T06:00:00').getTime();
+const FROM: NodeId = 'gadge-maharaj-bridge';
+const TO: NodeId = 'kalaram-temple';
+
+// An empty site, with `edgeDensities` on the roads
+function conditions(closures: RouteClosure[] = [], edgeDensities = EDGES.map(() => 0)): RouteConditions {
+  publishCrowdReading(
+    { tick: 0, timestamp: TIME, counts: new Map(ZONES.map((zone) => [zone.id, 0])), particles: new Float32Array(), edgeDensities },
+    true
+  );
+  return { snapshot: getCrowdSnapshot(), closures, speed: 1.2 };
+}
+
+// Nodes a route passes, from its start, checking each road joins the last
+function walk(route: Route, from: NodeId) {
+  const nodes = [from];
+  route.edges.forEach((index) => {
+    const edge = EDGES[index];
+    const at = nodes[nodes.length - 1];
+    expect([edge.from, edge.to]).toContain(at);
+    nodes.push(getOtherEnd(edge, at));
+  });
+  return nodes;
+}
+
+describe('planRoute', () => {
+  it('finds a connected route and slower, distinct alternatives', () => {
+    const plan = planRoute(FROM, TO, conditions())!;
+
+    expect(walk(plan.best, FROM).at(-1)).toBe(TO);
+    expect(plan.alternatives.length).toBeGreaterThan(0);
+    expect(plan.alternatives.length).toBeLessThanOrEqual(2);
+    plan.alternatives.forEach((route) => {
+      expect(walk(route, FROM).at(-1)).toBe(TO);
+      expect(route.edges).not.toEqual(plan.best.edges);
+      expect(route.seconds).toBeGreaterThanOrEqual(plan.best.seconds);
+      expect(route.seconds).toBeLessThanOrEqual(plan.best.seconds * 1.6);
+    });
+    const seconds = plan.alternatives.map((route) => route.seconds);
+    expect(seconds).toEqual([...seconds].sort((a, b) => a - b));
+  });
+
+  it('routes around a closed road', () => {
+    const open = planRoute(FROM, TO, conditions())!;
+    const closed = EDGES[open.best.edges[0]].id;
+
+    const plan = planRoute(FROM, TO, conditions([{ edgeId: closed }]))!;
+
+    expect(plan.best.edges).not.toContain(open.best.edges[0]);
+    [plan.best, ...plan.alternatives].forEach((route) => expect(walk(route, FROM).at(-1)).toBe(TO));
+  });
+
+  it('ignores a closure outside its time window', () => {
+    const open = planRoute(FROM, TO, conditions())!;
+    const closure = { edgeId: EDGES[open.best.edges[0]].id, from: TIME + 3600000 };
+
+    expect(planRoute(FROM, TO, conditions([closure]))!.best.edges).toEqual(open.best.edges);
+  });
+
+  it('will not walk a one-way road against its direction', () => {
+    const open = planRoute(FROM, TO, conditions())!;
+    const first = EDGES[open.best.edges[0]];
+
+    const plan = planRoute(FROM, TO, conditions([{ edgeId: first.id, kind: 'one-way', towards: FROM }]))!;
+
+    expect(plan.best.edges).not.toContain(open.best.edges[0]);
+  });
+
+  it('steers around a crowded road', () => {
+    const open = planRoute(FROM, TO, conditions())!;
+    const densities = EDGES.map(() => 0);
+    open.best.edges.forEach((index) => {
+      densities[index] = 5;
+    });
+
+    const plan = planRoute(FROM, TO, conditions([], densities))!;
+
+    expect(plan.best.edges).not.toEqual(open.best.edges);
+    expect(plan.best.seconds).toBeGreaterThan(open.best.seconds);
+  });
+
+  it('returns null when every road to the destination is closed', () => {
+    const closures = EDGES.filter((edge) => edge.from === TO || edge.to === TO).map((edge) => ({ edgeId: edge.id }));
+
+    expect(planRoute(FROM, TO, conditions(closures))).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { getZoneReading, type CrowdSnapshot } from '@/lib/crowd/store';
+import { ZONES, type ZoneId, type ZoneKind } from '@/lib/crowd/zones';
+import { EDGES, getNode, type NodeId } from '@/lib/simulation/network';
+import type { RouteClosure } from '@/lib/simulation/params';
+import { findRoadRules, type RoadRules } from '@/lib/simulation/road-rules';
+import { edgeDensity, findFastestRoutes, zoneSeconds, type Route } from './travel';
+
+// What a walking route is planned against: the crowd at one instant and the road closures in force then
+export interface RouteConditions {
+  snapshot: CrowdSnapshot;
+  closures: readonly RouteClosure[];
+  speed: number; // free walking speed, m/s
+}
+
+export interface RoutePlan {
+  from: NodeId;
+  to: NodeId;
+  best: Route;
+  // Other ways there, quickest first, each sharing at most part of the best route
+  alternatives: Route[];
+}
+
+// Alternatives slower than this multiple of the best route are not worth offering
+const ALTERNATIVE_SLACK = 1.6;
+const ALTERNATIVE_LIMIT = 2;
+
+function search(from: NodeId, { snapshot, speed }: RouteConditions, rules: RoadRules) {
+  return findFastestRoutes(from, speed, snapshot, rules, (node) => {
+    // Walking into a zone means pushing through the crowd already in it
+    const { zoneId } = getNode(node);
+    return zoneId ? zoneSeconds(snapshot, zoneId, speed) : 0;
+  });
+}
+
+/**
+ * Fastest walking route between two nodes, keeping to closures and one-way roads, with costs
+ * that rise with the crowd on each road and in each zone passed. Alternatives
+ * come from closing each road of the best route in turn. Returns null when
+ * every way there is closed.
+ */
+export function planRoute(from: NodeId, to: NodeId, conditions: RouteConditions): RoutePlan | null {
+  const rules = findRoadRules(conditions.closures, conditions.snapshot.timestamp);
+  const best = search(from, conditions, rules).route(to);
+  if (!best) return null;
+
+  const seen = new Set([best.edges.join()]);
+  const alternatives: Route[] = [];
+  best.edges.forEach((index) => {
+    const route = search(from, conditions, { ...rules, closed: new Set([...rules.closed, index]) }).route(to);
+    if (route && !seen.has(route.edges.join()) && route.seconds <= best.seconds * ALTERNATIVE_SLACK) {
+      seen.add(route.edges.join());
+      alternatives.push(route);
+    }
+  });
+  alternatives.sort((a, b) => a.seconds - b.seconds);
+
+  return { from, to, best, alternatives: alternatives.slice(0, ALTERNATIVE_LIMIT) };
+}
+
+/**
+ * Route to the quickest zone to reach among those of `kind`, or among the
+ * least crowded ones when no kind is given, leaving out the starting zone.
+ */
+export function planRouteToNearest(from: NodeId, conditions: RouteConditions, kind?: ZoneKind) {
+  const levels = (zoneId: ZoneId) => getZoneReading(conditions.snapshot, zoneId)?.level;
+  const candidates = ZONES.filter((zone) => zone.id !== from && (!kind || zone.kind === kind));
+  // Somewhere calm if there is anywhere calm, otherwise anywhere not yet critical
+  const safe = kind
+    ? candidates
+    : [['low'], ['low', 'medium'], ['low', 'medium', 'high']]
+        .map((allowed) => candidates.filter((zone) => allowed.includes(levels(zone.id) ?? 'low')))
+        .find((zones) => zones.length > 0) ?? [];
+
+  return safe
+    .map((zone) => planRoute(from, zone.id, conditions))
+    .filter((plan): plan is RoutePlan => plan !== null)
+    .sort((a, b) => a.best.seconds - b.best.seconds)[0] ?? null;
+}
+
+/** Names of the roads a route follows, in order. */
+export function describeRoute(route: Route) {
+  return route.edges.map((index) => EDGES[index].name).join(', ');
+}
+
+/** Densest road on the route, in persons/m². */
+export function peakDensity(route: Route, snapshot: CrowdSnapshot) {
+  return Math.max(0, ...route.edges.map((index) => edgeDensity(snapshot, index)));
+}
+
+export function formatDuration(seconds: number) {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export function formatDistance(metres: number) {
+  return `${(metres / 1000).toFixed(1)} km`;
+}
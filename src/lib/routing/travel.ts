@@ -0,0 +1,96 @@
+import { getZoneReading, type CrowdSnapshot } from '@/lib/crowd/store';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import { speedFactor } from '@/lib/simulation/fundamental-diagram';
+import { EDGES, NODES, getNode, getOtherEnd, type NodeId } from '@/lib/simulation/network';
+import { canWalk, findRoadRules, type RoadRules } from '@/lib/simulation/road-rules';
+
+export interface Route {
+  nodes: NodeId[]; // from the start to the destination
+  edges: number[]; // EDGES indices between consecutive nodes
+  lengthM: number;
+  seconds: number;
+}
+
+/**
+ * Persons/m² on a road: the crowd model's measurement, or, for recorded data
+ * that only counts zones, the mean density of the zones at its ends.
+ */
+export function edgeDensity(snapshot: CrowdSnapshot, index: number) {
+  const measured = snapshot.edgeDensities[index];
+  if (measured !== undefined) return measured;
+  const edge = EDGES[index];
+  const ends = [edge.from, edge.to]
+    .map((id) => getNode(id).zoneId)
+    .map((zoneId) => zoneId && getZoneReading(snapshot, zoneId)?.density)
+    .filter((density): density is number => density !== undefined);
+  return ends.length > 0 ? ends.reduce((sum, density) => sum + density, 0) / ends.length : 0;
+}
+
+/** Seconds to walk or drive the whole edge at `freeSpeed` (m/s), slowed by the crowd on it. */
+export function edgeSeconds(snapshot: CrowdSnapshot, index: number, freeSpeed: number) {
+  return EDGES[index].lengthM / (freeSpeed * speedFactor(edgeDensity(snapshot, index)));
+}
+
+/** Seconds to walk from a zone's edge to its centre at `freeSpeed`, slowed by the crowd inside. */
+export function zoneSeconds(snapshot: CrowdSnapshot, zoneId: ZoneId, freeSpeed: number) {
+  const density = getZoneReading(snapshot, zoneId)?.density ?? 0;
+  return Math.sqrt(getZone(zoneId).areaM2) / 2 / (freeSpeed * speedFactor(density));
+}
+
+/**
+ * Fastest routes from `from` to every node at `freeSpeed`, keeping to the
+ * road `rules` and slowed by the current crowd on each road, plus any `nodeSeconds`
+ * spent at each node reached. Dijkstra over the walking network, which is
+ * small enough for the simple quadratic form.
+ */
+export function findFastestRoutes(
+  from: NodeId,
+  freeSpeed: number,
+  snapshot: CrowdSnapshot,
+  rules: RoadRules = findRoadRules([], 0),
+  nodeSeconds: (node: NodeId) => number = () => 0
+) {
+  const seconds = new Map<NodeId, number>(NODES.map((node) => [node.id, Infinity]));
+  const previous = new Map<NodeId, number>(); // edge taken into each node
+  const done = new Set<NodeId>();
+  seconds.set(from, 0);
+
+  for (;;) {
+    const pending = NODES.filter((candidate) => !done.has(candidate.id) && seconds.get(candidate.id)! < Infinity);
+    if (pending.length === 0) break;
+    const node = pending.reduce((best, candidate) =>
+      seconds.get(candidate.id)! < seconds.get(best.id)! ? candidate : best
+    ).id;
+    done.add(node);
+    EDGES.forEach((edge, index) => {
+      if ((edge.from !== node && edge.to !== node) || !canWalk(rules, index, node)) return;
+      const next = getOtherEnd(edge, node);
+      const arrival = seconds.get(node)! + edgeSeconds(snapshot, index, freeSpeed) + nodeSeconds(next);
+      if (arrival < seconds.get(next)!) {
+        seconds.set(next, arrival);
+        previous.set(next, index);
+      }
+    });
+  }
+
+  return {
+    seconds: (to: NodeId) => seconds.get(to) ?? Infinity,
+    route: (to: NodeId): Route | null => {
+      if (!Number.isFinite(seconds.get(to))) return null;
+      const nodes: NodeId[] = [to];
+      const edges: number[] = [];
+      for (let node = to; node !== from; ) {
+        const index = previous.get(node)!;
+        edges.unshift(index);
+        node = getOtherEnd(EDGES[index], node);
+        nodes.unshift(node);
+      }
+      return {
+        nodes,
+        edges,
+        lengthM: edges.reduce((sum, index) => sum + EDGES[index].lengthM, 0),
+        seconds: seconds.get(to)!,
+      };
+    },
+  };
+}
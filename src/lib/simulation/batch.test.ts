@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { batchRunsToCsv, peakDensities, summarizeBatch, varyParams, type BatchResult } from './batch';
+import { runSimulation } from './run';
+import { getBuiltInScenario, scenarioToParams } from './scenarios';
+
+const DAY = new Date('2027-07-22T00:00:00').getTime();
+const OPTIONS = { runs: 6, durationMinutes: 120, arrivalSpread: 0.3, weatherSpread: 30 };
+
+// What a batch of the peak-hours preset gives, run here rather than in workers
+function runPeakHours(): BatchResult {
+  const params = scenarioToParams(getBuiltInScenario('peak-hours')!, DAY);
+  const runs = Array.from({ length: OPTIONS.runs }, (_, index) => {
+    const { seed, arrivalScale, weather, params: varied } = varyParams(params, index, OPTIONS);
+    const run = runSimulation(varied, { durationMinutes: OPTIONS.durationMinutes, sampleEveryMinutes: 5 });
+    return { index, seed, arrivalScale, weather, peakDensity: peakDensities(run) };
+  });
+  return { name: 'Peak Hours', params, options: OPTIONS, runs, finishedAt: 0 };
+}
+
+describe('varyParams', () => {
+  it('gives the same run for the same index, and another for the next', () => {
+    const params = scenarioToParams(getBuiltInScenario('peak-hours')!, DAY);
+
+    expect(varyParams(params, 3, OPTIONS)).toEqual(varyParams(params, 3, OPTIONS));
+    expect(varyParams(params, 4, OPTIONS).seed).toBe(varyParams(params, 3, OPTIONS).seed + 1);
+  });
+
+  it('keeps arrivals and weather within the spreads', () => {
+    const params = { ...scenarioToParams(getBuiltInScenario('peak-hours')!, DAY), weather: 90 };
+
+    for (let index = 0; index < 50; index++) {
+      const { arrivalScale, weather } = varyParams(params, index, OPTIONS);
+      expect(Math.abs(arrivalScale - 1)).toBeLessThanOrEqual(OPTIONS.arrivalSpread);
+      expect(weather).toBeGreaterThanOrEqual(90 - OPTIONS.weatherSpread);
+      expect(weather).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe('summarizeBatch', () => {
+  const result = runPeakHours();
+  // Critical set inside the range the ghats peak at over these seeds
+  const distributions = summarizeBatch(result, { medium: 1, high: 1.4, critical: 1.65 });
+  const ramkund = distributions.find((zone) => zone.zoneId === 'ramkund-ghat')!;
+
+  it('spreads the peak density of the ghats across seeds', () => {
+    ['ramkund-ghat', 'godavari-ghat', 'cbs-bus-stand'].forEach((zoneId) => {
+      const peaks = new Set(result.runs.map((run) => run.peakDensity[zoneId as ZoneId]));
+      expect(peaks.size).toBeGreaterThan(1);
+    });
+    expect(ramkund.p95).toBeGreaterThan(ramkund.p50);
+    distributions.forEach((zone) => expect(zone.p95).toBeGreaterThanOrEqual(zone.p50));
+  });
+
+  it('gives a zone that turns critical in some runs a chance short of certainty', () => {
+    expect(ramkund.criticalProbability).toBeGreaterThan(0);
+    expect(ramkund.criticalProbability).toBeLessThan(1);
+  });
+
+  it('writes one CSV row per run', () => {
+    const lines = batchRunsToCsv(result).split('\n');
+
+    expect(lines).toHaveLength(OPTIONS.runs + 1);
+    expect(lines[1].split(',')).toHaveLength(4 + ZONES.length);
+  });
+});
+
+describe('peakDensities', () => {
+  it('catches the same peaks however seldom the run is sampled', () => {
+    const params = scenarioToParams(getBuiltInScenario('peak-hours')!, DAY);
+
+    const fine = runSimulation(params, { durationMinutes: 60, sampleEveryMinutes: 5 });
+    const coarse = runSimulation(params, { durationMinutes: 60, sampleEveryMinutes: 60 });
+
+    expect(peakDensities(coarse)).toEqual(peakDensities(fine));
+  });
+});
@@ -0,0 +1,245 @@
+import { classifyDensity, getDensityThresholds, zoneDensity, type DensityThresholds } from '@/lib/crowd/density';
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import type { SimulationParams } from './params';
+import { createRandom } from './random';
+import type { RunResult } from './run';
+import { runInWorker } from './worker-client';
+
+export interface BatchOptions {
+  runs: number;
+  durationMinutes: number;
+  // Each run scales the arrival totals by up to this share either way, e.g. 0.2 for ±20%
+  arrivalSpread: number;
+  // Each run moves the weather by up to this many points either way, on the 0-100 scale
+  weatherSpread: number;
+}
+
+// The inputs one run of a batch drew, and the peak density it reached in each zone
+export interface BatchRun {
+  index: number;
+  seed: number;
+  arrivalScale: number;
+  weather: number;
+  peakDensity: Record<ZoneId, number>; // persons/m²
+}
+
+export interface BatchResult {
+  name: string; // of the setup the batch varied
+  params: SimulationParams;
+  options: BatchOptions;
+  runs: BatchRun[];
+  finishedAt: number; // wall-clock epoch milliseconds
+}
+
+export interface ZoneDistribution {
+  zoneId: ZoneId;
+  p50: number; // peak density, persons/m²
+  p95: number;
+  // Share of runs in which the zone's density reached the critical threshold
+  criticalProbability: number;
+  criticalRuns: number;
+}
+
+export interface BatchState {
+  status: 'idle' | 'running' | 'done' | 'cancelled' | 'failed';
+  completed: number;
+  total: number;
+  error: string | null;
+  // The last batch to finish; kept while a new one runs
+  result: BatchResult | null;
+}
+
+type Listener = (state: BatchState) => void;
+
+const SAMPLE_EVERY_MINUTES = 5;
+// Most runs a batch keeps in flight at once
+const MAX_WORKERS = 4;
+
+const listeners: Listener[] = [];
+
+let memoryState: BatchState = { status: 'idle', completed: 0, total: 0, error: null, result: null };
+// Bumped by every new batch and every cancel, so runs still in flight from an older batch are dropped
+let currentBatch = 0;
+
+function emit(state: BatchState) {
+  memoryState = state;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+/**
+ * The params for run `index` of a batch: its own seed, and arrival totals and
+ * weather drawn uniformly within the spreads. The same base params and index
+ * always give the same run.
+ */
+export function varyParams(params: SimulationParams, index: number, options: BatchOptions) {
+  const seed = (params.seed + index) >>> 0;
+  // A stream of its own, so the variation does not echo the run's first draws
+  const random = createRandom(seed ^ 0x9e3779b9);
+  const arrivalScale = 1 + options.arrivalSpread * (2 * random.next() - 1);
+  const weather = Math.min(100, Math.max(0, params.weather + options.weatherSpread * (2 * random.next() - 1)));
+
+  const varied: SimulationParams = {
+    ...params,
+    seed,
+    weather,
+    arrivalsPerHour: params.arrivalsPerHour * arrivalScale,
+    pulses: params.pulses.map((pulse) => ({ ...pulse, count: Math.round(pulse.count * arrivalScale) })),
+  };
+  return { seed, arrivalScale, weather, params: varied };
+}
+
+/** The highest density each zone reached in a run, in persons/m². */
+export function peakDensities(run: RunResult) {
+  return Object.fromEntries(
+    ZONES.map((zone) => [zone.id, zoneDensity(zone, run.peaks[zone.id].count)])
+  ) as Record<ZoneId, number>;
+}
+
+// Linear interpolation between the closest ranks of `sorted`
+function quantile(sorted: readonly number[], q: number) {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/** P50/P95 peak density and the chance of turning critical for every zone, across the runs of `result`. */
+export function summarizeBatch(
+  result: BatchResult,
+  thresholds: DensityThresholds = getDensityThresholds()
+): ZoneDistribution[] {
+  return ZONES.map((zone) => {
+    const peaks = result.runs.map((run) => run.peakDensity[zone.id]).sort((a, b) => a - b);
+    const criticalRuns = peaks.filter((density) => classifyDensity(density, thresholds) === 'critical').length;
+    return {
+      zoneId: zone.id,
+      p50: quantile(peaks, 0.5),
+      p95: quantile(peaks, 0.95),
+      criticalProbability: peaks.length > 0 ? criticalRuns / peaks.length : 0,
+      criticalRuns,
+    };
+  });
+}
+
+export function getBatchState() {
+  return memoryState;
+}
+
+export function subscribeToBatch(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Runs `options.runs` varied copies of `params` across a pool of Web Workers,
+ * publishing progress as each finishes. Resolves once the batch is done,
+ * cancelled or has failed; the outcome is in the batch state.
+ */
+export async function runBatch(name: string, params: SimulationParams, options: BatchOptions) {
+  if (memoryState.status === 'running') {
+    throw new Error('A batch is already running');
+  }
+  const batch = ++currentBatch;
+  const jobs = Array.from({ length: options.runs }, (_, index) => ({ index, ...varyParams(params, index, options) }));
+  const runs: BatchRun[] = [];
+  emit({ ...memoryState, status: 'running', completed: 0, total: jobs.length, error: null });
+
+  let next = 0;
+  const work = async () => {
+    while (next < jobs.length && batch === currentBatch) {
+      const job = jobs[next++];
+      const run = await runInWorker(job.params, {
+        durationMinutes: options.durationMinutes,
+        sampleEveryMinutes: SAMPLE_EVERY_MINUTES,
+      });
+      if (batch !== currentBatch) return;
+      runs.push({
+        index: job.index,
+        seed: job.seed,
+        arrivalScale: job.arrivalScale,
+        weather: job.weather,
+        peakDensity: peakDensities(run),
+      });
+      emit({ ...memoryState, completed: runs.length });
+    }
+  };
+
+  // Leave a core for the page itself
+  const workers = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency ?? 2) - 1, jobs.length));
+  try {
+    await Promise.all(Array.from({ length: workers }, work));
+    if (batch !== currentBatch) return;
+    emit({
+      ...memoryState,
+      status: 'done',
+      result: { name, params, options, runs: runs.sort((a, b) => a.index - b.index), finishedAt: Date.now() },
+    });
+  } catch (error) {
+    if (batch !== currentBatch) return;
+    currentBatch++;
+    emit({ ...memoryState, status: 'failed', error: error instanceof Error ? error.message : 'Batch failed' });
+  }
+}
+
+/** Stops handing out runs; those in flight finish in their workers but are dropped. */
+export function cancelBatch() {
+  if (memoryState.status !== 'running') return;
+  currentBatch++;
+  emit({ ...memoryState, status: 'cancelled' });
+}
+
+// Quotes a cell when it holds a comma, quote or line break, and defuses text a
+// spreadsheet would run as a formula
+function toCsvCell(value: string | number) {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toCsv = (rows: (string | number)[][]) => rows.map((row) => row.map(toCsvCell).join(',')).join('\n');
+
+/** One row per zone: its peak density distribution and chance of turning critical. */
+export function batchSummaryToCsv(result: BatchResult, thresholds: DensityThresholds = getDensityThresholds()) {
+  return toCsv([
+    ['zone', 'p50_peak_density', 'p95_peak_density', 'critical_probability', 'critical_runs', 'runs'],
+    ...summarizeBatch(result, thresholds).map((zone) => [
+      getZone(zone.zoneId).name,
+      zone.p50.toFixed(3),
+      zone.p95.toFixed(3),
+      zone.criticalProbability.toFixed(3),
+      zone.criticalRuns,
+      result.runs.length,
+    ]),
+  ]);
+}
+
+/** One row per run: the inputs it drew and the peak density it reached in each zone. */
+export function batchRunsToCsv(result: BatchResult) {
+  return toCsv([
+    ['run', 'seed', 'arrival_scale', 'weather', ...ZONES.map((zone) => `${zone.id}_peak_density`)],
+    ...result.runs.map((run) => [
+      run.index + 1,
+      run.seed,
+      run.arrivalScale.toFixed(3),
+      run.weather.toFixed(1),
+      ...ZONES.map((zone) => run.peakDensity[zone.id].toFixed(3)),
+    ]),
+  ]);
+}
+
+export function exportBatchCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+import { getEventStart, type MajorEvent } from '@/lib/crowd/schedule';
+import { getZone } from '@/lib/crowd/zones';
+import { EDGES, getNode } from './network';
+import { PROCESSION_LENGTH_M, PROCESSION_SPEED, findPathEdges, processionClosures } from './processions';
+import { SCENARIO_VERSION, getBuiltInScenario, type Scenario, type ScenarioEvent } from './scenarios';
+
+// The run starts this long before the bath, so the site has filled up as it would on the day
+const LEAD_HOURS = 2;
+// Pilgrims keep arriving for a while after the bathing window closes
+const SURGE_DECAY_MINUTES = 60;
+// How long a test run follows the crowd after the window closes
+const FOLLOW_MINUTES = 180;
+
+/** When a run of the event's day starts: a little before the bath, or at midnight for all-day events. */
+export function getBathDayStart(event: MajorEvent) {
+  const start = new Date(getEventStart(event));
+  start.setHours(Math.max(0, start.getHours() - (event.startHour === null ? 0 : LEAD_HOURS)), 0, 0, 0);
+  return start.getTime();
+}
+
+/** Minutes a test run needs to cover the bath and the crowd leaving after it. */
+export function getBathDayMinutes(event: MajorEvent) {
+  return Math.round((getEventStart(event) - getBathDayStart(event)) / 60000) + event.windowHours * 60 + FOLLOW_MINUTES;
+}
+
+/** Roads the event's procession takes, in order. */
+export function describeProcession(event: MajorEvent) {
+  if (!event.processionPath) return null;
+  const roads = findPathEdges(event.processionPath).map((index) => EDGES[index].name);
+  return `${getNode(event.processionPath[0]).name} via ${roads.join(', ')}`;
+}
+
+/**
+ * A scenario for a major event's day on a festival-day baseline: the bathing
+ * window brings a surge to each of the event's zones, shared by capacity and
+ * tapering off after the window, and any akhara procession closes the roads
+ * along its path and across it while it passes.
+ */
+export function majorEventToScenario(event: MajorEvent): Scenario {
+  const base = getBuiltInScenario('festival-day')!;
+  const runStart = getBathDayStart(event);
+  const eventStart = getEventStart(event);
+  const minuteOf = (time: number) => Math.max(0, Math.round((time - runStart) / 60000));
+  const totalCapacity = event.zoneIds.reduce((sum, zoneId) => sum + getZone(zoneId).capacity, 0);
+
+  const surges: ScenarioEvent[] = event.zoneIds.map((zoneId) => ({
+    type: 'surge',
+    atMinute: minuteOf(eventStart),
+    durationMinutes: event.windowHours * 60,
+    count: Math.round((event.pilgrims * getZone(zoneId).capacity) / totalCapacity),
+    zoneId,
+    decayMinutes: SURGE_DECAY_MINUTES,
+  }));
+
+  const closures: ScenarioEvent[] = event.processionPath
+    ? processionClosures({
+        path: event.processionPath,
+        arriveAt: eventStart,
+        lengthM: PROCESSION_LENGTH_M,
+        speed: PROCESSION_SPEED,
+      }).map((closure) => ({
+        type: 'closure',
+        atMinute: minuteOf(closure.from!),
+        durationMinutes: Math.max(1, minuteOf(closure.until!) - minuteOf(closure.from!)),
+        edgeId: closure.edgeId,
+      }))
+    : [];
+
+  return {
+    version: SCENARIO_VERSION,
+    id: `bath-day-${event.id}`,
+    name: event.title,
+    description: `${event.type} at ${event.location}, ${event.time}${event.processionPath ? ', with the akhara procession' : ''}.`,
+    builtIn: true,
+    totalPilgrims: base.totalPilgrims,
+    startHour: new Date(runStart).getHours(),
+    arrivalProfile: [...base.arrivalProfile],
+    weather: base.weather,
+    closedRoutes: [],
+    events: [...surges, ...closures],
+  };
+}
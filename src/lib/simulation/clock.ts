@@ -0,0 +1,103 @@
+export interface ClockState {
+  running: boolean;
+  speed: number;
+  tick: number;
+  time: number; // simulated epoch milliseconds
+}
+
+type Listener = (state: ClockState) => void;
+type TickHandler = (stepSeconds: number, state: ClockState) => void;
+
+// One tick per real second; at 1x each tick advances one simulated minute
+const TICK_INTERVAL = 1000;
+const STEP_SECONDS = 60;
+
+export const MIN_SPEED = 0.1;
+export const MAX_SPEED = 5;
+
+const listeners: Listener[] = [];
+const tickHandlers: TickHandler[] = [];
+
+let memoryState: ClockState = {
+  running: true,
+  speed: 1,
+  tick: 0,
+  time: Date.now(),
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+function emit(state: ClockState) {
+  memoryState = state;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function advance() {
+  const stepSeconds = STEP_SECONDS * memoryState.speed;
+  const next = {
+    ...memoryState,
+    tick: memoryState.tick + 1,
+    time: memoryState.time + stepSeconds * 1000,
+  };
+  // Producers run before views are notified so they render the new instant
+  memoryState = next;
+  tickHandlers.forEach((handler) => {
+    handler(stepSeconds, next);
+  });
+  emit(next);
+}
+
+function syncTimer() {
+  const shouldRun = memoryState.running && tickHandlers.length > 0;
+  if (shouldRun && !timer) {
+    timer = setInterval(advance, TICK_INTERVAL);
+  } else if (!shouldRun && timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+export function getClockState() {
+  return memoryState;
+}
+
+export function subscribeToClock(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function onClockTick(handler: TickHandler) {
+  tickHandlers.push(handler);
+  syncTimer();
+  return () => {
+    const index = tickHandlers.indexOf(handler);
+    if (index > -1) {
+      tickHandlers.splice(index, 1);
+    }
+    syncTimer();
+  };
+}
+
+export function setClockRunning(running: boolean) {
+  emit({ ...memoryState, running });
+  syncTimer();
+}
+
+export function toggleClock() {
+  setClockRunning(!memoryState.running);
+}
+
+export function setClockSpeed(speed: number) {
+  emit({ ...memoryState, speed: Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed)) });
+}
+
+export function resetClock(time: number) {
+  emit({ ...memoryState, tick: 0, time });
+}
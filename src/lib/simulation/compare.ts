@@ -0,0 +1,73 @@
+import { classifyDensity, getDensityThresholds, zoneDensity, type DensityThresholds } from '@/lib/crowd/density';
+import type { DensityLevel } from '@/lib/crowd/store';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import type { RunResult } from './run';
+
+// One zone over a headless run, in the terms the crowd dashboard uses
+export interface ZoneOutcome {
+  peakDensity: number; // persons/m²
+  peakLevel: DensityLevel;
+  peakTime: number;
+  minutesCritical: number;
+  exposure: number; // person-minutes spent in the zone while it was critical
+}
+
+export interface RunOutcome {
+  zones: Record<ZoneId, ZoneOutcome>;
+  minutesCritical: number; // in the zone that was critical longest
+  exposure: number;
+}
+
+/**
+ * Density, critical time and exposure for every zone of `run`, classified
+ * under `thresholds`. Each sample after the first stands for the
+ * `sampleEveryMinutes` leading up to it.
+ */
+export function summarizeRun(
+  run: RunResult,
+  sampleEveryMinutes: number,
+  thresholds: DensityThresholds = getDensityThresholds()
+): RunOutcome {
+  const zones = Object.fromEntries(
+    ZONES.map((zone) => {
+      const outcome: ZoneOutcome = {
+        peakDensity: 0,
+        peakLevel: 'low',
+        peakTime: run.params.startTime,
+        minutesCritical: 0,
+        exposure: 0,
+      };
+      run.samples.forEach((sample, position) => {
+        const count = sample.counts[zone.id];
+        const density = zoneDensity(zone, count);
+        if (density > outcome.peakDensity) {
+          outcome.peakDensity = density;
+          outcome.peakTime = sample.time;
+        }
+        if (position > 0 && classifyDensity(density, thresholds) === 'critical') {
+          outcome.minutesCritical += sampleEveryMinutes;
+          outcome.exposure += count * sampleEveryMinutes;
+        }
+      });
+      outcome.peakLevel = classifyDensity(outcome.peakDensity, thresholds);
+      return [zone.id, outcome];
+    })
+  ) as Record<ZoneId, ZoneOutcome>;
+
+  const outcomes = Object.values(zones);
+  return {
+    zones,
+    minutesCritical: Math.max(0, ...outcomes.map((outcome) => outcome.minutesCritical)),
+    exposure: outcomes.reduce((sum, outcome) => sum + outcome.exposure, 0),
+  };
+}
+
+/** How `outcome` differs from `baseline` in each zone; negative is an improvement. */
+export function diffOutcomes(baseline: RunOutcome, outcome: RunOutcome) {
+  return ZONES.map((zone) => ({
+    zoneId: zone.id,
+    peakDensity: outcome.zones[zone.id].peakDensity - baseline.zones[zone.id].peakDensity,
+    minutesCritical: outcome.zones[zone.id].minutesCritical - baseline.zones[zone.id].minutesCritical,
+    exposure: outcome.zones[zone.id].exposure - baseline.zones[zone.id].exposure,
+  }));
+}
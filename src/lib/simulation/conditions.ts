@@ -0,0 +1,79 @@
+import { DAILY_SCHEDULE, getScheduleWindow, type ScheduleCrowd } from '@/lib/crowd/schedule';
+import type { Zone } from '@/lib/crowd/zones';
+
+// Relative arrival rate for each crowd level in the published daily schedule
+const CROWD_RATES: Record<ScheduleCrowd, number> = {
+  Low: 0.8,
+  Medium: 1,
+  High: 1.3,
+  'Very High': 1.8,
+};
+// Hours outside every schedule window, i.e. late night
+const NIGHT_RATE = 0.3;
+// The hour just before a bathing window already fills up with early arrivals
+const LEAD_IN_SHARE = 0.5;
+// How much more a zone of the window's focus kind attracts pilgrims
+const FOCUS_WEIGHT = 3;
+// Fewest pilgrims on site, as a share of the day's total, at the quietest hour
+const MIN_PRESENCE = 0.25;
+
+// Rain starts past "Partly Cloudy" on the 0-100 weather scale and is heaviest at 100
+const RAIN_FROM = 50;
+// Walkers slow by up to this share on wet, slippery roads
+const RAIN_SLOWDOWN = 0.3;
+// Fewer pilgrims set out in a downpour
+const RAIN_ARRIVAL_DROP = 0.4;
+const RAIN_SHELTER_PULL = 2;
+const RAIN_OPEN_PUSH = 0.7;
+const RAIN_DWELL_CHANGE = 0.5;
+
+/** Hourly arrival multipliers, 0-23, following the schedule's crowd forecast. */
+export function createScheduleProfile() {
+  const profile = Array.from({ length: 24 }, (_, hour) => {
+    const window = getScheduleWindow(hour);
+    return window ? CROWD_RATES[window.crowd] : NIGHT_RATE;
+  });
+  DAILY_SCHEDULE.filter((window) => window.focus === 'ghat').forEach((window) => {
+    const before = (window.startHour + 23) % 24;
+    profile[before] = Math.max(profile[before], CROWD_RATES[window.crowd] * LEAD_IN_SHARE);
+  });
+  return profile;
+}
+
+/** Share of the day's pilgrims on site at the given hour. */
+export function presenceAt(profile: number[], hour: number) {
+  const peak = Math.max(...profile);
+  if (peak <= 0) return 1;
+  return Math.max(MIN_PRESENCE, (profile[hour] ?? peak) / peak);
+}
+
+/** Rain strength from 0 (dry) to 1 (downpour). */
+export function rainIntensity(weather: number) {
+  return Math.min(1, Math.max(0, (weather - RAIN_FROM) / (100 - RAIN_FROM)));
+}
+
+export function weatherSpeedFactor(weather: number) {
+  return 1 - RAIN_SLOWDOWN * rainIntensity(weather);
+}
+
+export function weatherArrivalFactor(weather: number) {
+  return 1 - RAIN_ARRIVAL_DROP * rainIntensity(weather);
+}
+
+/**
+ * How strongly a zone draws pilgrims at the given hour and weather: the
+ * schedule's activity pulls them to ghats or temples, rain to cover.
+ */
+export function zoneAttraction(zone: Zone, hour: number, weather: number) {
+  const window = getScheduleWindow(hour);
+  const focus = window?.focus === zone.kind ? FOCUS_WEIGHT : 1;
+  const rain = rainIntensity(weather);
+  const shelter = zone.covered ? 1 + RAIN_SHELTER_PULL * rain : 1 - RAIN_OPEN_PUSH * rain;
+  return zone.baseline * focus * shelter;
+}
+
+/** Pilgrims linger under cover and cut open-air visits short when it rains. */
+export function dwellFactor(zone: Zone, weather: number) {
+  const rain = rainIntensity(weather);
+  return zone.covered ? 1 + RAIN_DWELL_CHANGE * rain : 1 - RAIN_DWELL_CHANGE * rain;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { createSimulation, startEvacuation, stepSimulation, type Simulation } from './engine';
+import { getZone, type ZoneId } from '@/lib/crowd/zones';
+import { JAM_DENSITY } from './fundamental-diagram';
+import { EDGES, getOtherEnd } from './network';
+import { createDefaultParams } from './params';
+import { runSimulation } from './run';
+
+const START = new Date('2027-07-22T06:00:00').getTime();
+const OPTIONS = { durationMinutes: 60, sampleEveryMinutes: 15 };
+
+function emptySimulation() {
+  return createSimulation({ ...createDefaultParams(START), initialPopulation: 0, arrivalsPerHour: 0 });
+}
+
+describe('determinism', () => {
+  it('gives the same run for the same seed', () => {
+    const params = { ...createDefaultParams(START), seed: 42 };
+
+    const first = runSimulation(params, OPTIONS);
+    const second = runSimulation(params, OPTIONS);
+
+    expect(second.samples).toEqual(first.samples);
+    expect(second.peaks).toEqual(first.peaks);
+  });
+
+  it('gives a different run for another seed', () => {
+    const params = createDefaultParams(START);
+
+    const first = runSimulation({ ...params, seed: 1 }, OPTIONS);
+    const second = runSimulation({ ...params, seed: 2 }, OPTIONS);
+
+    expect(second.samples.at(-1)!.counts).not.toEqual(first.samples.at(-1)!.counts);
+  });
+});
+
+// A pilgrim queued at the end of a road into `zoneId`, about to walk in
+function queueAt(sim: Simulation, zoneId: ZoneId) {
+  const edge = EDGES.findIndex((candidate) => candidate.from === zoneId || candidate.to === zoneId);
+  const agent: Simulation['agents'][number] = {
+    id: sim.nextAgentId++,
+    phase: 'queued',
+    node: getOtherEnd(EDGES[edge], zoneId),
+    edge,
+    position: EDGES[edge].lengthM,
+    target: zoneId,
+    origin: 'cbs-bus-stand',
+    freeSpeed: 1.2,
+    dwellSeconds: 0,
+    waitedSeconds: 0,
+    visitsLeft: 0,
+    leaving: false,
+    evacuating: false,
+    gate: -1,
+  };
+  sim.agents.push(agent);
+  sim.edgeLoad[edge]++;
+  return agent;
+}
+
+describe('live changes', () => {
+  it('follows a change of weather mid-run', () => {
+    const sim = emptySimulation();
+    stepSimulation(sim, 5);
+    const clear = [...sim.attractionWeights];
+
+    sim.params = { ...sim.params, weather: 100 };
+    stepSimulation(sim, 5);
+
+    expect(sim.attractionWeights).not.toEqual(clear);
+  });
+});
+
+describe('crowding', () => {
+  it('lets pilgrims into a zone past its planned capacity', () => {
+    const sim = emptySimulation();
+    const zone = getZone('ramkund-ghat');
+    sim.zoneLoad.set(zone.id, zone.capacity / sim.params.agentScale);
+    const agent = queueAt(sim, zone.id);
+
+    stepSimulation(sim, 5);
+
+    expect(agent.phase).toBe('visiting');
+    expect(agent.node).toBe(zone.id);
+  });
+
+  it('holds pilgrims back once a zone has no standing room left', () => {
+    const sim = emptySimulation();
+    const zone = getZone('ramkund-ghat');
+    sim.zoneLoad.set(zone.id, Math.ceil((zone.areaM2 * JAM_DENSITY) / sim.params.agentScale));
+    const agent = queueAt(sim, zone.id);
+
+    stepSimulation(sim, 5);
+
+    expect(agent.phase).toBe('queued');
+  });
+
+  it('takes longer to work into a denser zone', () => {
+    const sparse = emptySimulation();
+    const dense = emptySimulation();
+    const zone = getZone('ramkund-ghat');
+    dense.zoneLoad.set(zone.id, Math.round((zone.areaM2 * 4) / dense.params.agentScale));
+    const sparseAgent = queueAt(sparse, zone.id);
+    const denseAgent = queueAt(dense, zone.id);
+    sparseAgent.freeSpeed = denseAgent.freeSpeed = 1.2;
+
+    stepSimulation(sparse, 5);
+    stepSimulation(dense, 5);
+
+    expect(denseAgent.dwellSeconds - sparseAgent.dwellSeconds).toBeGreaterThan(300);
+  });
+});
+
+describe('evacuation', () => {
+  it('sends a departing pilgrim bound for an evacuated hub to another hub', () => {
+    const sim = emptySimulation();
+    startEvacuation(sim, { zoneIds: ['cbs-bus-stand'], safeZoneIds: ['nashik-road-station'], exitWidths: {} });
+
+    // Queued at the end of a road into the hub, on the way home
+    const edge = EDGES.findIndex((candidate) => candidate.from === 'cbs-bus-stand' || candidate.to === 'cbs-bus-stand');
+    const agent: Simulation['agents'][number] = {
+      id: sim.nextAgentId++,
+      phase: 'queued',
+      node: getOtherEnd(EDGES[edge], 'cbs-bus-stand'),
+      edge,
+      position: EDGES[edge].lengthM,
+      target: 'cbs-bus-stand',
+      origin: 'cbs-bus-stand',
+      freeSpeed: 1.2,
+      dwellSeconds: 0,
+      waitedSeconds: 0,
+      visitsLeft: 0,
+      leaving: true,
+      evacuating: false,
+      gate: -1,
+    };
+    sim.agents.push(agent);
+    sim.edgeLoad[edge]++;
+
+    stepSimulation(sim, 5);
+
+    expect(agent.leaving).toBe(true);
+    expect(agent.target).toBe('nashik-road-station');
+  });
+});
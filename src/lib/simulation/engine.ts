@@ -0,0 +1,689 @@
+import { ZONES, getZone, type ZoneId } from '@/lib/crowd/zones';
+import { offsetLngLat, polygonAreaM2 } from '@/lib/geo/measure';
+import {
+  dwellFactor,
+  presenceAt,
+  weatherArrivalFactor,
+  weatherSpeedFactor,
+  zoneAttraction,
+} from './conditions';
+import { JAM_DENSITY, walkingSpeed } from './fundamental-diagram';
+import { EDGES, buildNextHops, getNode, getOtherEnd, type NodeId } from './network';
+import type { ArrivalPulse, SimulationParams } from './params';
+import { canWalk, findRoadRules, openWidth, sameRoadRules, type RoadRules } from './road-rules';
+import { createRandom, type Random } from './random';
+
+type AgentPhase = 'visiting' | 'walking' | 'queued';
+
+interface Agent {
+  id: number;
+  phase: AgentPhase;
+  node: NodeId; // zone being visited, or the node the current edge was entered from
+  edge: number; // index into EDGES while walking or queued, -1 otherwise
+  position: number; // metres along the current edge
+  target: NodeId;
+  origin: ZoneId;
+  freeSpeed: number;
+  dwellSeconds: number;
+  waitedSeconds: number;
+  visitsLeft: number;
+  leaving: boolean;
+  evacuating: boolean; // ordered out of an evacuated zone and not yet at a safe zone
+  gate: number; // index into the evacuation's gates while queued to leave, -1 otherwise
+}
+
+export interface ZoneFlow {
+  count: number;
+  inflow: number;
+  outflow: number;
+}
+
+// Zones cleared in an evacuation and the zones their occupants are sent to
+export interface EvacuationPlan {
+  zoneIds: ZoneId[];
+  safeZoneIds: ZoneId[];
+  // Gate width in metres at each exit, by exit id; exits not listed use the full road width
+  exitWidths: Record<string, number>;
+}
+
+// A road out of an evacuated zone, gated where it leaves the zone
+export interface EvacuationExit {
+  id: string;
+  edge: number; // index into EDGES
+  zoneId: ZoneId;
+  roadWidthM: number;
+}
+
+interface ExitGate extends EvacuationExit {
+  capacity: number; // agents per second
+  credit: number; // agents the gate may still let through this substep
+  queue: Agent[];
+  released: number;
+}
+
+interface Evacuation {
+  zones: Set<ZoneId>;
+  safeZones: ZoneId[];
+  gates: ExitGate[];
+  evacuees: number;
+  arrived: number;
+}
+
+export interface Simulation {
+  params: SimulationParams;
+  time: number;
+  random: Random;
+  agents: Agent[];
+  nextAgentId: number;
+  hops: ReturnType<typeof buildNextHops>;
+  rules: RoadRules; // closures, one-way roads and narrowings in force
+  hour: number; // local hour of day the attraction weights were computed for
+  weather: number; // and the weather they were computed for
+  attractionWeights: number[];
+  edgeLoad: number[];
+  zoneLoad: Map<ZoneId, number>;
+  inflow: Map<ZoneId, number>;
+  outflow: Map<ZoneId, number>;
+  evacuation: Evacuation | null;
+}
+
+// Agents are integrated in short substeps so fast clocks stay stable
+export const SUBSTEP_SECONDS = 5;
+const MIN_WALKING_SPEED = 0.5;
+const MIN_DWELL_MINUTES = 5;
+// Pilgrims hold back rather than step onto a road past its peak-flow density...
+const ENTRY_DENSITY_LIMIT = 2.5;
+// ...unless they have been held long enough to push in, which breaks counterflow deadlocks
+const PUSH_IN_DENSITY = 3.5;
+const PUSH_IN_SECONDS = 120;
+// Held pilgrims look for another road once they have waited this long
+const REROUTE_SECONDS = 60;
+const HOLD_SECONDS = 30;
+// Queued pilgrims give up on a full zone and head elsewhere after this long
+const MAX_QUEUE_SECONDS = 15 * 60;
+// Persons per metre of gate width per second through an exit at its peak flow
+export const GATE_FLOW_CAPACITY = 1.3;
+// Evacuees stay at the safe zone they reach at least this long
+const SHELTER_SECONDS = 2 * 60 * 60;
+
+const ATTRACTIONS = ZONES.filter((zone) => zone.kind !== 'transit');
+const ENTRIES = ZONES.filter((zone) => zone.kind === 'transit');
+const ENTRY_WEIGHTS = ENTRIES.map((zone) => zone.capacity);
+
+/** Exits of the zones in an evacuation: every road out of each of them, one gate per zone end. */
+export function findEvacuationExits(zoneIds: readonly ZoneId[]): EvacuationExit[] {
+  return EDGES.flatMap((edge, index) =>
+    [edge.from, edge.to]
+      .filter((node): node is ZoneId => zoneIds.includes(node as ZoneId))
+      .map((zoneId) => ({ id: `${zoneId}/${edge.id}`, edge: index, zoneId, roadWidthM: edge.widthM }))
+  );
+}
+
+function edgeDensity(sim: Simulation, index: number) {
+  const edge = EDGES[index];
+  return (sim.edgeLoad[index] * sim.params.agentScale) / (edge.lengthM * openWidth(sim.rules, index));
+}
+
+function canEnterEdge(sim: Simulation, index: number, from: NodeId, waitedSeconds: number) {
+  if (!canWalk(sim.rules, index, from)) return false;
+  const limit = waitedSeconds >= PUSH_IN_SECONDS ? PUSH_IN_DENSITY : ENTRY_DENSITY_LIMIT;
+  return edgeDensity(sim, index) < limit;
+}
+
+function moveToEdge(sim: Simulation, agent: Agent, from: NodeId, index: number) {
+  if (agent.edge >= 0) sim.edgeLoad[agent.edge]--;
+  sim.edgeLoad[index]++;
+  agent.phase = 'walking';
+  agent.node = from;
+  agent.edge = index;
+  agent.position = 0;
+  agent.waitedSeconds = 0;
+}
+
+// Best uncongested road out of `node` towards the target, ignoring `exclude`
+function alternativeEdge(sim: Simulation, node: NodeId, target: NodeId, exclude: number) {
+  let best: number | undefined;
+  let bestCost = Infinity;
+  EDGES.forEach((edge, index) => {
+    if (index === exclude || (edge.from !== node && edge.to !== node)) return;
+    if (!canEnterEdge(sim, index, node, 0)) return;
+    const cost = edge.lengthM + sim.hops.distance(getOtherEnd(edge, node), target);
+    if (cost < bestCost) {
+      best = index;
+      bestCost = cost;
+    }
+  });
+  return best;
+}
+
+// Picks up closures starting or ending at the simulation's current time
+function updateClosures(sim: Simulation) {
+  const rules = findRoadRules(sim.params.closures, sim.time);
+  if (sameRoadRules(rules, sim.rules)) return;
+  sim.rules = rules;
+  sim.hops = buildNextHops((index, from) => canWalk(rules, index, from));
+}
+
+// Closures can cut a pilgrim off from their goal; pick the nearest reachable alternative
+function retargetIfUnreachable(sim: Simulation, agent: Agent, node: NodeId) {
+  if (sim.hops.distance(node, agent.target) < Infinity) return;
+  const candidates = (agent.leaving ? ENTRIES : ATTRACTIONS).filter(
+    (zone) => zone.id !== node && !isEvacuated(sim, zone.id) && sim.hops.distance(node, zone.id) < Infinity
+  );
+  if (candidates.length === 0) return;
+  agent.target = candidates.reduce((best, zone) =>
+    sim.hops.distance(node, zone.id) < sim.hops.distance(node, best.id) ? zone : best
+  ).id;
+  if (agent.leaving) agent.origin = agent.target as ZoneId;
+}
+
+// Next road for an agent at `node`, detouring around a blocked one after a short wait
+function chooseEdge(sim: Simulation, agent: Agent, node: NodeId) {
+  retargetIfUnreachable(sim, agent, node);
+  const next = sim.hops.nextEdge(node, agent.target);
+  if (next === undefined || canEnterEdge(sim, next, node, agent.waitedSeconds)) return next;
+  if (agent.waitedSeconds < REROUTE_SECONDS) return undefined;
+  return alternativeEdge(sim, node, agent.target, agent.edge);
+}
+
+// Radius of a circle with the same area as each zone's boundary, in metres
+const zoneRadii = new Map(ZONES.map((zone) => [zone.id, Math.sqrt(polygonAreaM2(zone.boundary) / Math.PI)]));
+
+// Most pilgrims who can physically stand in a zone; its planned capacity is far lower
+function zoneLimit(zoneId: ZoneId) {
+  return getZone(zoneId).areaM2 * JAM_DENSITY;
+}
+
+function zoneDensity(sim: Simulation, zoneId: ZoneId) {
+  return ((sim.zoneLoad.get(zoneId) ?? 0) * sim.params.agentScale) / getZone(zoneId).areaM2;
+}
+
+function isEvacuated(sim: Simulation, zoneId: NodeId) {
+  return sim.evacuation?.zones.has(zoneId as ZoneId) ?? false;
+}
+
+// Evacuated zones take no one in, and safe zones turn no evacuee away; otherwise
+// pilgrims crowd in past the planned capacity until there is no standing room left
+function hasRoom(sim: Simulation, zoneId: ZoneId, agent: Agent) {
+  if (isEvacuated(sim, zoneId)) return false;
+  if (agent.evacuating) return true;
+  return ((sim.zoneLoad.get(zoneId) ?? 0) + 1) * sim.params.agentScale <= zoneLimit(zoneId);
+}
+
+// Time to work through the crowd to the middle of a zone, slower the denser it is
+function crossingSeconds(sim: Simulation, agent: Agent, zoneId: ZoneId) {
+  const speed = walkingSpeed(agent.freeSpeed * weatherSpeedFactor(sim.params.weather), zoneDensity(sim, zoneId));
+  return (zoneRadii.get(zoneId) ?? 0) / speed;
+}
+
+function sampleDwellSeconds(sim: Simulation, zoneId: ZoneId) {
+  const { mean, sd } = sim.params.dwellMinutes;
+  const factor = dwellFactor(getZone(zoneId), sim.params.weather);
+  return Math.max(MIN_DWELL_MINUTES, sim.random.normal(mean, sd) * factor) * 60;
+}
+
+function sampleVisits(sim: Simulation) {
+  const { min, max } = sim.params.visitsPerPilgrim;
+  return min + Math.floor(sim.random.next() * (max - min + 1));
+}
+
+// Pilgrims keep arriving at the transit hubs that are not being evacuated
+function pickEntry(sim: Simulation) {
+  const open = sim.evacuation ? ENTRIES.filter((zone) => !isEvacuated(sim, zone.id)) : ENTRIES;
+  if (open.length === 0 || open.length === ENTRIES.length) return sim.random.pick(ENTRIES, ENTRY_WEIGHTS).id;
+  return sim.random.pick(open, open.map((zone) => zone.capacity)).id;
+}
+
+function pickAttraction(sim: Simulation, exclude: NodeId) {
+  const candidates = ATTRACTIONS.filter((zone) => zone.id !== exclude && !isEvacuated(sim, zone.id));
+  const weights = candidates.map((zone) => sim.attractionWeights[ATTRACTIONS.indexOf(zone)]);
+  return sim.random.pick(candidates, weights).id;
+}
+
+// Where pilgrims want to be follows the daily schedule and the weather
+function updateConditions(sim: Simulation) {
+  const hour = new Date(sim.time).getHours();
+  if (hour === sim.hour && sim.params.weather === sim.weather) return;
+  sim.hour = hour;
+  sim.weather = sim.params.weather;
+  sim.attractionWeights = ATTRACTIONS.map((zone) => zoneAttraction(zone, hour, sim.params.weather));
+}
+
+function enterZone(sim: Simulation, agent: Agent, zoneId: ZoneId, dwellSeconds: number) {
+  if (agent.edge >= 0) sim.edgeLoad[agent.edge]--;
+  agent.phase = 'visiting';
+  agent.node = zoneId;
+  agent.edge = -1;
+  agent.position = 0;
+  agent.dwellSeconds = dwellSeconds;
+  agent.waitedSeconds = 0;
+  sim.zoneLoad.set(zoneId, (sim.zoneLoad.get(zoneId) ?? 0) + 1);
+  sim.inflow.set(zoneId, (sim.inflow.get(zoneId) ?? 0) + 1);
+}
+
+function leaveZone(sim: Simulation, agent: Agent) {
+  const zoneId = agent.node as ZoneId;
+  sim.zoneLoad.set(zoneId, (sim.zoneLoad.get(zoneId) ?? 0) - 1);
+  sim.outflow.set(zoneId, (sim.outflow.get(zoneId) ?? 0) + 1);
+}
+
+function spawnAgent(sim: Simulation, zoneId: ZoneId, target: NodeId, dwellSeconds: number, visitsLeft: number) {
+  const agent: Agent = {
+    id: sim.nextAgentId++,
+    phase: 'visiting',
+    node: zoneId,
+    edge: -1,
+    position: 0,
+    target,
+    origin: getZone(zoneId).kind === 'transit' ? zoneId : pickEntry(sim),
+    freeSpeed: Math.max(MIN_WALKING_SPEED, sim.random.normal(sim.params.walkingSpeed.mean, sim.params.walkingSpeed.sd)),
+    dwellSeconds: 0,
+    waitedSeconds: 0,
+    visitsLeft,
+    leaving: false,
+    evacuating: false,
+    gate: -1,
+  };
+  enterZone(sim, agent, zoneId, dwellSeconds);
+  sim.agents.push(agent);
+  return agent;
+}
+
+export function createSimulation(params: SimulationParams): Simulation {
+  const sim: Simulation = {
+    params,
+    time: params.startTime,
+    random: createRandom(params.seed),
+    agents: [],
+    nextAgentId: 0,
+    hops: buildNextHops(),
+    rules: findRoadRules([], params.startTime),
+    hour: -1,
+    weather: params.weather,
+    attractionWeights: [],
+    edgeLoad: EDGES.map(() => 0),
+    zoneLoad: new Map(),
+    inflow: new Map(),
+    outflow: new Map(),
+    evacuation: null,
+  };
+  updateClosures(sim);
+  updateConditions(sim);
+
+  // Seed the share of the day's pilgrims on site at the start hour, spread across
+  // zones by where they would be at that hour and in that weather
+  const seedWeights = ZONES.map((zone) =>
+    zone.kind === 'transit' ? zone.baseline : sim.attractionWeights[ATTRACTIONS.indexOf(zone)]
+  );
+  const totalWeight = seedWeights.reduce((sum, weight) => sum + weight, 0);
+  const presence = presenceAt(params.arrivalProfile, sim.hour);
+  const initialAgents = Math.round((params.initialPopulation * presence) / params.agentScale);
+  ZONES.forEach((zone, index) => {
+    const agents = Math.round((initialAgents * seedWeights[index]) / totalWeight);
+    for (let i = 0; i < agents; i++) {
+      const dwell = sim.random.next() * sampleDwellSeconds(sim, zone.id);
+      spawnAgent(sim, zone.id, pickAttraction(sim, zone.id), dwell, sampleVisits(sim) - 1);
+    }
+  });
+  sim.inflow.clear();
+
+  return sim;
+}
+
+function expectedArrivals(sim: Simulation, from: number, to: number) {
+  const hourly = sim.params.arrivalProfile[new Date(from).getHours()] ?? 1;
+  const weather = weatherArrivalFactor(sim.params.weather);
+  const base = (sim.params.arrivalsPerHour * hourly * weather * (to - from)) / 3600000;
+  const pulses = sim.params.pulses.map((pulse) => ({ pulse, count: pulseArrivals(pulse, from, to) }));
+  return { base, pulses };
+}
+
+// Arrivals a pulse brings between two instants: a steady rate through its window, then any decaying tail
+function pulseArrivals(pulse: ArrivalPulse, from: number, to: number) {
+  const end = pulse.at + pulse.durationMinutes * 60000;
+  const rate = pulse.count / Math.max(end - pulse.at, 1); // per millisecond
+  const overlap = Math.max(0, Math.min(to, end) - Math.max(from, pulse.at));
+  if (!pulse.decayMinutes || to <= end) return rate * overlap;
+  const decay = pulse.decayMinutes * 60000;
+  const remaining = (time: number) => Math.exp(-Math.max(0, time - end) / decay);
+  return rate * overlap + rate * decay * (remaining(from) - remaining(to));
+}
+
+function spawnArrivals(sim: Simulation, seconds: number) {
+  const { base, pulses } = expectedArrivals(sim, sim.time, sim.time + seconds * 1000);
+  const scale = sim.params.agentScale;
+  const disembark = () => (2 + sim.random.next() * 8) * 60;
+
+  const arrivals = sim.random.poisson(base / scale);
+  for (let i = 0; i < arrivals; i++) {
+    const entry = pickEntry(sim);
+    spawnAgent(sim, entry, pickAttraction(sim, entry), disembark(), sampleVisits(sim) - 1);
+  }
+
+  pulses.forEach(({ pulse, count }) => {
+    const pulseArrivals = sim.random.poisson(count / scale);
+    for (let i = 0; i < pulseArrivals; i++) {
+      const entry = pickEntry(sim);
+      const target =
+        pulse.destination && !isEvacuated(sim, pulse.destination) ? pulse.destination : pickAttraction(sim, entry);
+      spawnAgent(sim, entry, target, disembark(), sampleVisits(sim) - 1);
+    }
+  });
+}
+
+function startWalking(sim: Simulation, agent: Agent) {
+  const edge = chooseEdge(sim, agent, agent.node);
+  if (edge === undefined) {
+    agent.waitedSeconds += HOLD_SECONDS;
+    agent.dwellSeconds = HOLD_SECONDS;
+    return;
+  }
+  leaveZone(sim, agent);
+  moveToEdge(sim, agent, agent.node, edge);
+}
+
+// Decides where an agent goes once its visit ends; returns false when it departs the site
+function chooseNextTarget(sim: Simulation, agent: Agent) {
+  const atTransit = getZone(agent.node as ZoneId).kind === 'transit';
+  if (agent.leaving && atTransit) {
+    return false;
+  }
+  if (agent.node === agent.target) {
+    if (agent.visitsLeft > 0) {
+      agent.visitsLeft--;
+      agent.target = pickAttraction(sim, agent.node);
+    } else {
+      agent.leaving = true;
+      agent.target = agent.origin;
+    }
+  }
+  return true;
+}
+
+// Sends a pilgrim bound for an evacuated zone somewhere else: another attraction, or another hub to leave from
+function retargetAway(sim: Simulation, agent: Agent, node: NodeId) {
+  if (!agent.leaving) {
+    agent.target = pickAttraction(sim, node);
+    return;
+  }
+  const hubs = ENTRIES.filter((zone) => !isEvacuated(sim, zone.id) && sim.hops.distance(node, zone.id) < Infinity);
+  if (hubs.length === 0) return;
+  agent.target = hubs.reduce((best, zone) =>
+    sim.hops.distance(node, zone.id) < sim.hops.distance(node, best.id) ? zone : best
+  ).id;
+  agent.origin = agent.target as ZoneId;
+}
+
+/**
+ * Queues an evacuee at the exit of its zone that gets it to a safe zone
+ * soonest, counting the wait behind everyone already queued there, and
+ * aims it at the nearest safe zone beyond that exit.
+ */
+function joinGate(sim: Simulation, agent: Agent) {
+  const evacuation = sim.evacuation!;
+  let best = -1;
+  let bestSeconds = Infinity;
+  let bestTarget: ZoneId | null = null;
+  evacuation.gates.forEach((gate, index) => {
+    if (gate.zoneId !== agent.node || !canWalk(sim.rules, gate.edge, gate.zoneId) || gate.capacity <= 0) return;
+    const beyond = getOtherEnd(EDGES[gate.edge], gate.zoneId);
+    const target = evacuation.safeZones.reduce<ZoneId | null>(
+      (nearest, zoneId) =>
+        nearest === null || sim.hops.distance(beyond, zoneId) < sim.hops.distance(beyond, nearest) ? zoneId : nearest,
+      null
+    );
+    if (target === null) return;
+    const walk = (EDGES[gate.edge].lengthM + sim.hops.distance(beyond, target)) / agent.freeSpeed;
+    const seconds = gate.queue.length / gate.capacity + walk;
+    if (seconds < bestSeconds) {
+      best = index;
+      bestSeconds = seconds;
+      bestTarget = target;
+    }
+  });
+  agent.gate = best;
+  if (best < 0 || bestTarget === null) return;
+  agent.target = bestTarget;
+  evacuation.gates[best].queue.push(agent);
+}
+
+// Lets queued evacuees out through each gate at its flow capacity, while the road beyond can take them
+function releaseGates(sim: Simulation, seconds: number) {
+  sim.evacuation!.gates.forEach((gate) => {
+    if (!canWalk(sim.rules, gate.edge, gate.zoneId)) {
+      gate.queue.splice(0).forEach((agent) => joinGate(sim, agent));
+      return;
+    }
+    gate.credit += gate.capacity * seconds;
+    while (gate.credit >= 1 && gate.queue.length > 0 && edgeDensity(sim, gate.edge) < PUSH_IN_DENSITY) {
+      const agent = gate.queue.shift()!;
+      gate.credit--;
+      gate.released++;
+      agent.gate = -1;
+      leaveZone(sim, agent);
+      moveToEdge(sim, agent, gate.zoneId, gate.edge);
+    }
+    // An idle gate cannot bank capacity for later
+    if (gate.queue.length === 0) gate.credit = Math.min(gate.credit, 1);
+  });
+}
+
+/**
+ * Orders everyone in `plan.zoneIds` out to the nearest of `plan.safeZoneIds`
+ * through gated exits, and turns everyone else away from the evacuated zones.
+ */
+export function startEvacuation(sim: Simulation, plan: EvacuationPlan) {
+  const zones = new Set(plan.zoneIds);
+  const safeZones = plan.safeZoneIds.filter((zoneId) => !zones.has(zoneId));
+  if (zones.size === 0) {
+    throw new Error('Pick at least one zone to evacuate');
+  }
+  if (safeZones.length === 0) {
+    throw new Error('Pick at least one safe zone outside the evacuated area');
+  }
+  if (ATTRACTIONS.every((zone) => zones.has(zone.id))) {
+    throw new Error('At least one ghat, temple or district must stay open');
+  }
+
+  const gates = findEvacuationExits(plan.zoneIds).map((exit) => ({
+    ...exit,
+    capacity: ((plan.exitWidths[exit.id] ?? exit.roadWidthM) * GATE_FLOW_CAPACITY) / sim.params.agentScale,
+    credit: 0,
+    queue: [],
+    released: 0,
+  }));
+  sim.evacuation = { zones, safeZones, gates, evacuees: 0, arrived: 0 };
+
+  sim.agents.forEach((agent) => {
+    if (agent.phase === 'visiting' && zones.has(agent.node as ZoneId)) {
+      agent.evacuating = true;
+      agent.leaving = false;
+      sim.evacuation!.evacuees++;
+      joinGate(sim, agent);
+    } else if (zones.has(agent.target as ZoneId)) {
+      retargetAway(sim, agent, agent.phase === 'visiting' ? agent.node : getOtherEnd(EDGES[agent.edge], agent.node));
+    }
+  });
+}
+
+export interface EvacuationStatus {
+  evacuees: number; // pilgrims in the evacuated zones when it began
+  remaining: number; // still inside them
+  arrived: number; // reached a safe zone
+  exits: { id: string; queue: number; released: number }[];
+}
+
+/** Progress of the evacuation under way, in pilgrims, or null when there is none. */
+export function readEvacuation(sim: Simulation): EvacuationStatus | null {
+  const evacuation = sim.evacuation;
+  if (!evacuation) return null;
+  const scale = sim.params.agentScale;
+  return {
+    evacuees: evacuation.evacuees * scale,
+    remaining: Array.from(evacuation.zones).reduce((sum, zoneId) => sum + (sim.zoneLoad.get(zoneId) ?? 0), 0) * scale,
+    arrived: evacuation.arrived * scale,
+    exits: evacuation.gates.map((gate) => ({
+      id: gate.id,
+      queue: gate.queue.length * scale,
+      released: gate.released * scale,
+    })),
+  };
+}
+
+// Called when an agent reaches the end of its edge; it stays queued there until it can move on
+function arrive(sim: Simulation, agent: Agent, node: NodeId, seconds: number) {
+  agent.phase = 'queued';
+  agent.waitedSeconds += seconds;
+
+  if (node === agent.target) {
+    const zoneId = node as ZoneId;
+    if (hasRoom(sim, zoneId, agent)) {
+      if (agent.evacuating) {
+        agent.evacuating = false;
+        sim.evacuation!.arrived++;
+        enterZone(sim, agent, zoneId, SHELTER_SECONDS);
+        return;
+      }
+      const dwell = agent.leaving ? (5 + sim.random.next() * 15) * 60 : sampleDwellSeconds(sim, zoneId);
+      enterZone(sim, agent, zoneId, crossingSeconds(sim, agent, zoneId) + dwell);
+      return;
+    }
+    if (isEvacuated(sim, zoneId)) {
+      retargetAway(sim, agent, zoneId);
+    } else if (agent.leaving || agent.waitedSeconds < MAX_QUEUE_SECONDS) {
+      return;
+    } else {
+      agent.target = pickAttraction(sim, zoneId);
+    }
+  }
+
+  const next = chooseEdge(sim, agent, node);
+  if (next !== undefined) {
+    moveToEdge(sim, agent, node, next);
+  }
+}
+
+function substep(sim: Simulation, seconds: number) {
+  updateClosures(sim);
+  updateConditions(sim);
+  spawnArrivals(sim, seconds);
+  if (sim.evacuation) releaseGates(sim, seconds);
+  const speedFactor = weatherSpeedFactor(sim.params.weather);
+
+  const departed = new Set<Agent>();
+  sim.agents.forEach((agent) => {
+    if (agent.phase === 'visiting' && agent.evacuating) {
+      // Queued at an exit, or waiting for one to open
+      if (agent.gate < 0) joinGate(sim, agent);
+      return;
+    }
+    if (agent.phase === 'visiting') {
+      agent.dwellSeconds -= seconds;
+      if (agent.dwellSeconds > 0) return;
+      if (!chooseNextTarget(sim, agent)) {
+        leaveZone(sim, agent);
+        departed.add(agent);
+        return;
+      }
+      startWalking(sim, agent);
+      return;
+    }
+
+    const edge = EDGES[agent.edge];
+    if (agent.phase === 'queued') {
+      arrive(sim, agent, getOtherEnd(edge, agent.node), seconds);
+      return;
+    }
+
+    agent.position += walkingSpeed(agent.freeSpeed * speedFactor, edgeDensity(sim, agent.edge)) * seconds;
+    if (agent.position >= edge.lengthM) {
+      agent.position = edge.lengthM;
+      arrive(sim, agent, getOtherEnd(edge, agent.node), 0);
+    }
+  });
+
+  if (departed.size > 0) {
+    sim.agents = sim.agents.filter((agent) => !departed.has(agent));
+  }
+  sim.time += seconds * 1000;
+}
+
+export function stepSimulation(sim: Simulation, seconds: number) {
+  let remaining = seconds;
+  while (remaining > 0) {
+    const dt = Math.min(SUBSTEP_SECONDS, remaining);
+    substep(sim, dt);
+    remaining -= dt;
+  }
+}
+
+/** Zone occupancy in pilgrims, plus flows since the previous call. */
+export function readZoneFlows(sim: Simulation) {
+  const scale = sim.params.agentScale;
+  const flows = new Map<ZoneId, ZoneFlow>(
+    ZONES.map((zone) => [
+      zone.id,
+      {
+        count: (sim.zoneLoad.get(zone.id) ?? 0) * scale,
+        inflow: (sim.inflow.get(zone.id) ?? 0) * scale,
+        outflow: (sim.outflow.get(zone.id) ?? 0) * scale,
+      },
+    ])
+  );
+  sim.inflow.clear();
+  sim.outflow.clear();
+  return flows;
+}
+
+export function readEdgeDensities(sim: Simulation) {
+  return EDGES.map((_, index) => edgeDensity(sim, index));
+}
+
+// Deterministic scatter so a visiting agent keeps its spot within the zone
+function jitter(id: number, salt: number) {
+  const value = Math.sin(id * 12.9898 + salt * 78.233) * 43758.5453;
+  return (value - Math.floor(value)) * 2 - 1;
+}
+
+/**
+ * A sample of agent positions in geographic coordinates, packed as
+ * [lon, lat, load] triples where load runs from 0 (free) to 1 (jammed).
+ */
+export function sampleParticles(sim: Simulation, limit: number) {
+  const stride = Math.max(1, Math.ceil(sim.agents.length / limit));
+  const densities = readEdgeDensities(sim);
+  const count = Math.min(limit, Math.ceil(sim.agents.length / stride));
+  const particles = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const agent = sim.agents[i * stride];
+    if (agent.phase === 'visiting') {
+      const zoneId = agent.node as ZoneId;
+      const radius = zoneRadii.get(zoneId) ?? 0;
+      const load = ((sim.zoneLoad.get(zoneId) ?? 0) * sim.params.agentScale) / zoneLimit(zoneId);
+      const [lon, lat] = offsetLngLat(
+        getZone(zoneId).center,
+        jitter(agent.id, 1) * radius,
+        jitter(agent.id, 2) * radius
+      );
+      particles[i * 3] = lon;
+      particles[i * 3 + 1] = lat;
+      particles[i * 3 + 2] = Math.min(1, load);
+    } else {
+      const edge = EDGES[agent.edge];
+      const start = getNode(agent.node).position;
+      const end = getNode(getOtherEnd(edge, agent.node)).position;
+      const progress = agent.position / edge.lengthM;
+      const [lon, lat] = offsetLngLat(
+        [start[0] + (end[0] - start[0]) * progress, start[1] + (end[1] - start[1]) * progress],
+        jitter(agent.id, 3) * edge.widthM,
+        jitter(agent.id, 4) * edge.widthM
+      );
+      particles[i * 3] = lon;
+      particles[i * 3 + 1] = lat;
+      particles[i * 3 + 2] = Math.min(1, densities[agent.edge] / 4);
+    }
+  }
+
+  return particles;
+}
@@ -0,0 +1,129 @@
+import type { ZoneId } from '@/lib/crowd/zones';
+import {
+  GATE_FLOW_CAPACITY,
+  createSimulation,
+  findEvacuationExits,
+  readEvacuation,
+  startEvacuation,
+  stepSimulation,
+  type EvacuationPlan,
+} from './engine';
+import { EDGES } from './network';
+import type { SimulationParams } from './params';
+
+export interface EvacuationOptions {
+  // Minutes the crowd model runs before the order, so the roads carry their usual load
+  warmupMinutes: number;
+  // Longest the evacuation is followed for if it never completes
+  maxMinutes: number;
+}
+
+export interface EvacuationSample {
+  minute: number; // since the order
+  remaining: number;
+  arrived: number;
+  queues: Record<string, number>; // pilgrims waiting at each exit, by exit id
+}
+
+export interface ExitReport {
+  id: string;
+  name: string; // road the exit opens onto
+  zoneId: ZoneId;
+  widthM: number; // gate width used
+  capacityPerMinute: number; // pilgrims the gate lets through each minute at peak flow
+  throughput: number;
+  peakQueue: number;
+  peakQueueMinute: number;
+  // Last minute anyone was still waiting at the gate, or null if no one ever queued
+  clearedMinute: number | null;
+  // The queue here lasted to near the end, so a wider gate would shorten the evacuation
+  bottleneck: boolean;
+}
+
+export interface EvacuationResult {
+  plan: EvacuationPlan;
+  startedAt: number;
+  evacuees: number;
+  // Minutes until the evacuated zones were empty, and until everyone reached a safe zone; null if not within maxMinutes
+  clearanceMinutes: number | null;
+  arrivalMinutes: number | null;
+  exits: ExitReport[];
+  samples: EvacuationSample[];
+}
+
+// Exits whose queue lasts past this share of the clearance time are reported as bottlenecks
+const BOTTLENECK_SHARE = 0.8;
+
+/** Gate width, in metres, an exit needs to pass `throughput` pilgrims within `minutes`. */
+export function requiredGateWidth(throughput: number, minutes: number) {
+  return throughput / (GATE_FLOW_CAPACITY * 60 * minutes);
+}
+
+/**
+ * Runs the crowd model through an evacuation without touching the live store:
+ * a warm-up, then the order to clear `plan.zoneIds`, sampled every minute
+ * until everyone has reached safety or `maxMinutes` have passed.
+ */
+export function runEvacuation(
+  params: SimulationParams,
+  plan: EvacuationPlan,
+  options: EvacuationOptions
+): EvacuationResult {
+  const sim = createSimulation(params);
+  stepSimulation(sim, options.warmupMinutes * 60);
+  const startedAt = sim.time;
+  startEvacuation(sim, plan);
+
+  const exits = findEvacuationExits(plan.zoneIds);
+  const samples: EvacuationSample[] = [];
+  let clearanceMinutes: number | null = null;
+  let arrivalMinutes: number | null = null;
+
+  for (let minute = 0; minute <= options.maxMinutes; minute++) {
+    if (minute > 0) stepSimulation(sim, 60);
+    const status = readEvacuation(sim)!;
+    samples.push({
+      minute,
+      remaining: status.remaining,
+      arrived: status.arrived,
+      queues: Object.fromEntries(status.exits.map((exit) => [exit.id, exit.queue])),
+    });
+    if (clearanceMinutes === null && status.remaining === 0) clearanceMinutes = minute;
+    if (status.arrived >= status.evacuees) {
+      arrivalMinutes = minute;
+      break;
+    }
+  }
+
+  const status = readEvacuation(sim)!;
+  const end = clearanceMinutes ?? options.maxMinutes;
+  return {
+    plan,
+    startedAt,
+    evacuees: status.evacuees,
+    clearanceMinutes,
+    arrivalMinutes,
+    samples,
+    exits: exits.map((exit) => {
+      const widthM = plan.exitWidths[exit.id] ?? exit.roadWidthM;
+      const queued = samples.filter((sample) => sample.queues[exit.id] > 0);
+      const peak = samples.reduce(
+        (best, sample) => (sample.queues[exit.id] > best.queues[exit.id] ? sample : best),
+        samples[0]
+      );
+      const clearedMinute = queued.length > 0 ? queued[queued.length - 1].minute + 1 : null;
+      return {
+        id: exit.id,
+        name: EDGES[exit.edge].name,
+        zoneId: exit.zoneId,
+        widthM,
+        capacityPerMinute: Math.round(widthM * GATE_FLOW_CAPACITY * 60),
+        throughput: status.exits.find((item) => item.id === exit.id)?.released ?? 0,
+        peakQueue: peak.queues[exit.id],
+        peakQueueMinute: peak.minute,
+        clearedMinute,
+        bottleneck: clearedMinute !== null && clearedMinute >= end * BOTTLENECK_SHARE,
+      };
+    }),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Weidmann's fundamental diagram for pedestrian flow: walking speed as a
+ * function of density (persons/m²), relative to free-flow speed.
+ */
+const GAMMA = 1.913;
+export const JAM_DENSITY = 5.4;
+// Pilgrims never fully stop in the model, so jams can still drain
+const MIN_SPEED_FACTOR = 0.02;
+
+export function speedFactor(density: number) {
+  if (density <= 0) return 1;
+  if (density >= JAM_DENSITY) return MIN_SPEED_FACTOR;
+  const factor = 1 - Math.exp(-GAMMA * (1 / density - 1 / JAM_DENSITY));
+  return Math.max(MIN_SPEED_FACTOR, Math.min(1, factor));
+}
+
+export function walkingSpeed(freeSpeed: number, density: number) {
+  return freeSpeed * speedFactor(density);
+}
+
+// Specific flow (persons per metre width per second)
+export function specificFlow(freeSpeed: number, density: number) {
+  return density * walkingSpeed(freeSpeed, density);
+}
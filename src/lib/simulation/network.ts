@@ -0,0 +1,121 @@
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import type { LngLat } from '@/lib/geo/projection';
+
+export type NodeId = ZoneId | JunctionId;
+
+export type JunctionId =
+  | 'malviya-chowk'
+  | 'gadge-maharaj-bridge'
+  | 'panchavati-karanja'
+  | 'tapovan-road'
+  | 'dwarka-circle';
+
+export interface NetworkNode {
+  id: NodeId;
+  name: string;
+  position: LngLat;
+  zoneId?: ZoneId;
+}
+
+export interface NetworkEdge {
+  id: string;
+  name: string;
+  from: NodeId;
+  to: NodeId;
+  lengthM: number;
+  widthM: number; // effective walkable width
+}
+
+const JUNCTIONS: NetworkNode[] = [
+  { id: 'malviya-chowk', name: 'Malviya Chowk', position: [73.7895, 20.001] },
+  { id: 'gadge-maharaj-bridge', name: 'Gadge Maharaj Bridge', position: [73.79, 20.004] },
+  { id: 'panchavati-karanja', name: 'Panchavati Karanja', position: [73.7925, 20.01] },
+  { id: 'tapovan-road', name: 'Tapovan Road Junction', position: [73.806, 20.0075] },
+  { id: 'dwarka-circle', name: 'Dwarka Circle', position: [73.799, 19.993] },
+];
+
+export const NODES: NetworkNode[] = [
+  ...ZONES.map((zone) => ({ id: zone.id, name: zone.name, position: zone.center, zoneId: zone.id })),
+  ...JUNCTIONS,
+];
+
+export const EDGES: NetworkEdge[] = [
+  { id: 'old-agra-road', name: 'Old Agra Road', from: 'cbs-bus-stand', to: 'malviya-chowk', lengthM: 900, widthM: 20 },
+  { id: 'ramkund-approach', name: 'Ramkund Approach Road', from: 'malviya-chowk', to: 'ramkund-ghat', lengthM: 700, widthM: 14 },
+  { id: 'gadge-maharaj-road', name: 'Gadge Maharaj Bridge Road', from: 'malviya-chowk', to: 'gadge-maharaj-bridge', lengthM: 550, widthM: 10 },
+  { id: 'godavari-steps', name: 'Godavari Ghat Steps', from: 'gadge-maharaj-bridge', to: 'godavari-ghat', lengthM: 400, widthM: 20 },
+  { id: 'sardar-chowk-lane', name: 'Sardar Chowk Lane', from: 'gadge-maharaj-bridge', to: 'sita-gufha', lengthM: 600, widthM: 8 },
+  { id: 'ramkund-bridge', name: 'Ramkund Bridge', from: 'ramkund-ghat', to: 'panchavati-karanja', lengthM: 500, widthM: 12 },
+  { id: 'victoria-bridge', name: 'Victoria Bridge', from: 'gadge-maharaj-bridge', to: 'panchavati-karanja', lengthM: 800, widthM: 14 },
+  { id: 'riverside-walk', name: 'Riverside Walk', from: 'ramkund-ghat', to: 'godavari-ghat', lengthM: 900, widthM: 15 },
+  { id: 'sita-gufha-lane', name: 'Sita Gufha Lane', from: 'panchavati-karanja', to: 'sita-gufha', lengthM: 400, widthM: 8 },
+  { id: 'kalaram-road', name: 'Kalaram Mandir Road', from: 'panchavati-karanja', to: 'kalaram-temple', lengthM: 450, widthM: 12 },
+  { id: 'tapovan-road', name: 'Tapovan Road', from: 'panchavati-karanja', to: 'tapovan-road', lengthM: 1200, widthM: 16 },
+  { id: 'sangam-approach', name: 'Sangam Approach', from: 'tapovan-road', to: 'triveni-sangam', lengthM: 600, widthM: 20 },
+  { id: 'panchavati-road', name: 'Panchavati Road', from: 'kalaram-temple', to: 'panchavati', lengthM: 700, widthM: 14 },
+  { id: 'tapovan-link', name: 'Tapovan Link Road', from: 'triveni-sangam', to: 'panchavati', lengthM: 1400, widthM: 12 },
+  { id: 'dwarka-road', name: 'Dwarka Road', from: 'panchavati', to: 'dwarka-circle', lengthM: 1500, widthM: 14 },
+  { id: 'amardham-road', name: 'Amardham Road', from: 'godavari-ghat', to: 'dwarka-circle', lengthM: 1800, widthM: 10 },
+  { id: 'college-road', name: 'College Road', from: 'cbs-bus-stand', to: 'college-road', lengthM: 2200, widthM: 14 },
+  { id: 'gangapur-road', name: 'Gangapur Road', from: 'college-road', to: 'sula-vineyards', lengthM: 9000, widthM: 10 },
+  { id: 'trimbak-road', name: 'Trimbak Road', from: 'cbs-bus-stand', to: 'satpur', lengthM: 6000, widthM: 16 },
+  { id: 'nashik-road-highway', name: 'Nashik Road Highway', from: 'dwarka-circle', to: 'nashik-road-station', lengthM: 3000, widthM: 18 },
+];
+
+const nodesById = new Map(NODES.map((node) => [node.id, node]));
+
+export function getNode(id: NodeId): NetworkNode {
+  const node = nodesById.get(id);
+  if (!node) {
+    throw new Error(`Unknown network node: ${id}`);
+  }
+  return node;
+}
+
+export function getEdgeIndex(id: string) {
+  return EDGES.findIndex((edge) => edge.id === id);
+}
+
+export function getOtherEnd(edge: NetworkEdge, node: NodeId): NodeId {
+  return edge.from === node ? edge.to : edge.from;
+}
+
+/**
+ * Next-hop table over the open part of the network by walking distance,
+ * giving the EDGES index to take from one node towards another. `isOpen`
+ * says whether a road may be walked from a given end, so one-way roads work.
+ * The network is small enough for Floyd-Warshall.
+ */
+export function buildNextHops(isOpen: (index: number, from: NodeId) => boolean = () => true) {
+  const ids = NODES.map((node) => node.id);
+  const distance = new Map<string, number>();
+  const nextEdge = new Map<string, number>();
+  const key = (a: NodeId, b: NodeId) => `${a}|${b}`;
+
+  ids.forEach((a) => ids.forEach((b) => distance.set(key(a, b), a === b ? 0 : Infinity)));
+  EDGES.forEach((edge, index) => {
+    [[edge.from, edge.to], [edge.to, edge.from]].forEach(([a, b]) => {
+      if (isOpen(index, a) && edge.lengthM < distance.get(key(a, b))!) {
+        distance.set(key(a, b), edge.lengthM);
+        nextEdge.set(key(a, b), index);
+      }
+    });
+  });
+
+  ids.forEach((via) => {
+    ids.forEach((a) => {
+      ids.forEach((b) => {
+        const through = distance.get(key(a, via))! + distance.get(key(via, b))!;
+        if (through < distance.get(key(a, b))!) {
+          distance.set(key(a, b), through);
+          nextEdge.set(key(a, b), nextEdge.get(key(a, via))!);
+        }
+      });
+    });
+  });
+
+  return {
+    distance: (a: NodeId, b: NodeId) => distance.get(key(a, b)) ?? Infinity,
+    nextEdge: (a: NodeId, b: NodeId) => nextEdge.get(key(a, b)),
+  };
+}
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { createScheduleProfile } from './conditions';
+import type { NodeId } from './network';
+
+// A burst of extra arrivals, e.g. a train load or a bathing-hour rush
+export interface ArrivalPulse {
+  at: number; // epoch milliseconds
+  durationMinutes: number;
+  count: number; // arrivals within the window
+  destination?: ZoneId;
+  // Arrivals taper off after the window instead of stopping, falling by a factor of e every decayMinutes
+  decayMinutes?: number;
+}
+
+// How a closure restricts its road: barricaded shut, walkable in one direction only, or narrowed
+export type ClosureKind = 'closed' | 'one-way' | 'limited';
+
+// A restriction on a road segment, optionally only within a time window
+export interface RouteClosure {
+  edgeId: string;
+  kind?: ClosureKind; // closed outright when not given
+  // One-way roads: the end of the road pilgrims may walk towards
+  towards?: NodeId;
+  // Limited roads: share of the road's width left open by the barricades, 0-1
+  openShare?: number;
+  from?: number; // epoch milliseconds
+  until?: number;
+}
+
+export function isClosureActive(closure: RouteClosure, time: number) {
+  return (closure.from === undefined || time >= closure.from) && (closure.until === undefined || time < closure.until);
+}
+
+export interface SimulationParams {
+  seed: number;
+  startTime: number; // epoch milliseconds
+  agentScale: number; // pilgrims represented by one agent
+  initialPopulation: number;
+  arrivalsPerHour: number;
+  // Multiplier on arrivalsPerHour for each hour of the day, 0-23
+  arrivalProfile: number[];
+  weather: number; // 0 (clear) to 100 (heavy rain)
+  walkingSpeed: { mean: number; sd: number }; // m/s
+  dwellMinutes: { mean: number; sd: number };
+  visitsPerPilgrim: { min: number; max: number };
+  zoneCapacities: Partial<Record<ZoneId, number>>;
+  pulses: ArrivalPulse[];
+  closures: RouteClosure[];
+}
+
+export function createDefaultParams(startTime: number): SimulationParams {
+  return {
+    seed: 2027,
+    startTime,
+    agentScale: 100,
+    initialPopulation: ZONES.reduce((sum, zone) => sum + zone.baseline, 0),
+    arrivalsPerHour: 50000,
+    arrivalProfile: createScheduleProfile(),
+    weather: 20,
+    walkingSpeed: { mean: 1.2, sd: 0.2 },
+    dwellMinutes: { mean: 60, sd: 20 },
+    visitsPerPilgrim: { min: 1, max: 2 },
+    zoneCapacities: {},
+    pulses: [],
+    closures: [],
+  };
+}
+
+// The operator-editable subset of the parameters, as entered in the config dialog
+export const simulationConfigSchema = z.object({
+  seed: z.coerce.number().int('Seed must be a whole number').min(0).max(4294967295),
+  initialPopulation: z.coerce.number().int().min(0, 'Cannot be negative').max(5000000),
+  arrivalsPerHour: z.coerce.number().min(0, 'Cannot be negative').max(1000000),
+  walkingSpeed: z
+    .object({
+      mean: z.coerce.number().min(0.3, 'Too slow to walk').max(2.5, 'Faster than walking pace'),
+      sd: z.coerce.number().min(0).max(1),
+    })
+    .refine((speed) => speed.sd < speed.mean, {
+      message: 'Spread must be smaller than the mean speed',
+      path: ['sd'],
+    }),
+  zoneCapacities: z.object(
+    Object.fromEntries(
+      ZONES.map((zone) => [zone.id, z.coerce.number().int().min(100, 'At least 100 pilgrims')])
+    ) as Record<ZoneId, z.ZodNumber>
+  ),
+});
+
+export type SimulationConfig = Pick<
+  SimulationParams,
+  'seed' | 'initialPopulation' | 'arrivalsPerHour' | 'walkingSpeed'
+> & {
+  zoneCapacities: Record<ZoneId, number>;
+};
+
+export function toSimulationConfig(params: SimulationParams): SimulationConfig {
+  return {
+    seed: params.seed,
+    initialPopulation: params.initialPopulation,
+    arrivalsPerHour: params.arrivalsPerHour,
+    walkingSpeed: { ...params.walkingSpeed },
+    zoneCapacities: Object.fromEntries(
+      ZONES.map((zone) => [zone.id, params.zoneCapacities[zone.id] ?? zone.capacity])
+    ) as Record<ZoneId, number>,
+  };
+}
@@ -0,0 +1,62 @@
+import { EDGES, getNode, type NodeId } from './network';
+import type { RouteClosure } from './params';
+
+// A procession moving along a path of roads, e.g. the akharas on their way to a Shahi Snan
+export interface Procession {
+  path: NodeId[]; // nodes passed, in order, from where it forms to where it ends
+  arriveAt: number; // epoch milliseconds the head reaches the end of the path
+  lengthM: number; // from the head of the column to its tail
+  speed: number; // m/s
+}
+
+// Akhara columns of elephants, chariots and sadhus on foot move at a slow walk and stretch for well over a kilometre
+export const PROCESSION_SPEED = 0.5;
+export const PROCESSION_LENGTH_M = 1500;
+
+/** EDGES indices between consecutive nodes of `path`. */
+export function findPathEdges(path: readonly NodeId[]) {
+  return path.slice(1).map((node, position) => {
+    const previous = path[position];
+    const index = EDGES.findIndex(
+      (edge) => (edge.from === previous && edge.to === node) || (edge.from === node && edge.to === previous)
+    );
+    if (index < 0) {
+      throw new Error(`No road from ${getNode(previous).name} to ${getNode(node).name}`);
+    }
+    return index;
+  });
+}
+
+/** When the head of the procession sets off from the start of its path. */
+export function getProcessionStart(procession: Procession) {
+  const lengthM = findPathEdges(procession.path).reduce((sum, index) => sum + EDGES[index].lengthM, 0);
+  return procession.arriveAt - (lengthM / procession.speed) * 1000;
+}
+
+/**
+ * Timed closures that keep pilgrims off the procession's path: each road from
+ * when the head turns into it until the tail has left it, and every road
+ * crossing the path at a node it passes while the column goes by.
+ */
+export function processionClosures(procession: Procession): RouteClosure[] {
+  const edges = findPathEdges(procession.path);
+  const passing = (procession.lengthM / procession.speed) * 1000;
+  const closures: RouteClosure[] = [];
+
+  let headAt = getProcessionStart(procession);
+  edges.forEach((index, position) => {
+    const reachesEnd = headAt + (EDGES[index].lengthM / procession.speed) * 1000;
+    closures.push({ edgeId: EDGES[index].id, from: Math.round(headAt), until: Math.round(reachesEnd + passing) });
+
+    // The crossing at the far end of the road, unless the procession ends there
+    const node = procession.path[position + 1];
+    if (position < edges.length - 1) {
+      EDGES.forEach((edge, crossing) => {
+        if ((edge.from !== node && edge.to !== node) || crossing === index || crossing === edges[position + 1]) return;
+        closures.push({ edgeId: edge.id, from: Math.round(reachesEnd), until: Math.round(reachesEnd + passing) });
+      });
+    }
+    headAt = reachesEnd;
+  });
+  return closures;
+}
@@ -0,0 +1,51 @@
+export interface Random {
+  next: () => number;
+  normal: (mean: number, sd: number) => number;
+  poisson: (mean: number) => number;
+  pick: <T>(items: T[], weights: number[]) => T;
+}
+
+// mulberry32: small, fast and good enough for crowd sampling
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = (mean: number, sd: number) => {
+    const u = Math.max(next(), Number.EPSILON);
+    const v = next();
+    return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  const poisson = (mean: number) => {
+    if (mean <= 0) return 0;
+    // Normal approximation keeps large arrival pulses cheap
+    if (mean > 30) return Math.max(0, Math.round(normal(mean, Math.sqrt(mean))));
+    const limit = Math.exp(-mean);
+    let count = 0;
+    let product = next();
+    while (product > limit) {
+      count++;
+      product *= next();
+    }
+    return count;
+  };
+
+  const pick = <T>(items: T[], weights: number[]) => {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let threshold = next() * total;
+    for (let i = 0; i < items.length; i++) {
+      threshold -= weights[i];
+      if (threshold <= 0) return items[i];
+    }
+    return items[items.length - 1];
+  };
+
+  return { next, normal, poisson, pick };
+}
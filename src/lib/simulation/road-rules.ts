@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { EDGES, getEdgeIndex, getNode, type NodeId } from './network';
+import { isClosureActive, type ClosureKind, type RouteClosure } from './params';
+
+// The restrictions in force across the walking network at one instant, by EDGES index
+export interface RoadRules {
+  closed: Set<number>;
+  // One-way roads, by the end pilgrims may walk towards
+  oneWay: Map<number, NodeId>;
+  // Narrowed roads, by the share of their width left open
+  openShare: Map<number, number>;
+}
+
+export const CLOSURE_KINDS: Record<ClosureKind, string> = {
+  closed: 'Closed',
+  'one-way': 'One-way',
+  limited: 'Limited',
+};
+
+// Barricades never leave less than this share of a road open; narrower is a closure
+export const MIN_OPEN_SHARE = 0.1;
+
+/** Restrictions from the closures active at `time`; the strictest wins where several cover one road. */
+export function findRoadRules(closures: readonly RouteClosure[], time: number): RoadRules {
+  const rules: RoadRules = { closed: new Set(), oneWay: new Map(), openShare: new Map() };
+  closures.forEach((closure) => {
+    const index = getEdgeIndex(closure.edgeId);
+    if (index < 0 || !isClosureActive(closure, time)) return;
+    const edge = EDGES[index];
+    switch (closure.kind ?? 'closed') {
+      case 'closed':
+        rules.closed.add(index);
+        break;
+      case 'one-way': {
+        const { towards } = closure;
+        if (towards !== edge.from && towards !== edge.to) return;
+        const current = rules.oneWay.get(index);
+        // One way in each direction at once leaves no way at all
+        if (current !== undefined && current !== towards) rules.closed.add(index);
+        rules.oneWay.set(index, towards);
+        break;
+      }
+      case 'limited': {
+        const share = Math.min(1, Math.max(MIN_OPEN_SHARE, closure.openShare ?? 1));
+        rules.openShare.set(index, Math.min(share, rules.openShare.get(index) ?? 1));
+        break;
+      }
+    }
+  });
+  return rules;
+}
+
+export function sameRoadRules(a: RoadRules, b: RoadRules) {
+  return (
+    a.closed.size === b.closed.size &&
+    Array.from(a.closed).every((index) => b.closed.has(index)) &&
+    a.oneWay.size === b.oneWay.size &&
+    Array.from(a.oneWay).every(([index, towards]) => b.oneWay.get(index) === towards) &&
+    a.openShare.size === b.openShare.size &&
+    Array.from(a.openShare).every(([index, share]) => b.openShare.get(index) === share)
+  );
+}
+
+/** Whether road `index` may be walked starting from its end `from`. */
+export function canWalk(rules: RoadRules, index: number, from: NodeId) {
+  return !rules.closed.has(index) && rules.oneWay.get(index) !== from;
+}
+
+/** Walkable width of road `index` in metres, after any barricades narrowing it. */
+export function openWidth(rules: RoadRules, index: number) {
+  return EDGES[index].widthM * (rules.openShare.get(index) ?? 1);
+}
+
+/** Roads with any restriction in `rules`, as EDGES indices. */
+export function restrictedEdges(rules: RoadRules) {
+  return Array.from(new Set([...rules.closed, ...rules.oneWay.keys(), ...rules.openShare.keys()]));
+}
+
+/** What is in force on road `index`, e.g. "One-way towards Ramkund Ghat", or null when it is unrestricted. */
+export function describeRoadRule(rules: RoadRules, index: number) {
+  if (rules.closed.has(index)) return 'Closed';
+  const towards = rules.oneWay.get(index);
+  const share = rules.openShare.get(index);
+  const parts = [
+    towards !== undefined ? `One-way towards ${getNode(towards).name}` : null,
+    share !== undefined ? `limited to ${Math.round(share * 100)}% of its width` : null,
+  ].filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** What a closure does to its road, e.g. "One-way towards Ramkund Ghat". */
+export function describeClosure(closure: RouteClosure) {
+  switch (closure.kind ?? 'closed') {
+    case 'one-way':
+      return closure.towards ? `One-way towards ${getNode(closure.towards).name}` : 'One-way';
+    case 'limited':
+      return `Limited to ${Math.round((closure.openShare ?? 1) * 100)}% of its width`;
+    default:
+      return 'Closed';
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const edgeIds = EDGES.map((edge) => edge.id) as [string, ...string[]];
+
+// A closure as entered in the closure dialog: times of day on the run's day, empty for no limit
+export const roadRuleFormSchema = z
+  .object({
+    edgeId: z.enum(edgeIds),
+    kind: z.enum(['closed', 'one-way', 'limited']),
+    towards: z.string(),
+    openPercent: z.coerce
+      .number()
+      .min(MIN_OPEN_SHARE * 100, `Leave at least ${MIN_OPEN_SHARE * 100}% open, or close the road`)
+      .max(90, 'Barely narrower than the open road'),
+    from: z.string().refine((value) => value === '' || TIME_PATTERN.test(value), 'Use HH:MM'),
+    until: z.string().refine((value) => value === '' || TIME_PATTERN.test(value), 'Use HH:MM'),
+  })
+  .refine(
+    (form) => {
+      const edge = EDGES[getEdgeIndex(form.edgeId)];
+      return form.kind !== 'one-way' || form.towards === edge.from || form.towards === edge.to;
+    },
+    { message: 'Pick the direction pilgrims may walk', path: ['towards'] }
+  );
+
+export type RoadRuleForm = z.infer<typeof roadRuleFormSchema>;
+
+const timeOfDay = (time?: number) =>
+  time === undefined
+    ? ''
+    : new Date(time).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+export function toRoadRuleForm(closure: RouteClosure): RoadRuleForm {
+  return {
+    edgeId: closure.edgeId,
+    kind: closure.kind ?? 'closed',
+    towards: closure.towards ?? EDGES[getEdgeIndex(closure.edgeId)].to,
+    openPercent: Math.round((closure.openShare ?? 0.5) * 100),
+    from: timeOfDay(closure.from),
+    until: timeOfDay(closure.until),
+  };
+}
+
+/**
+ * The closure entered in the dialog, with its times on the day of `startTime`.
+ * A window ending at or before its start runs past midnight.
+ */
+export function fromRoadRuleForm(form: RoadRuleForm, startTime: number): RouteClosure {
+  const at = (value: string) => {
+    if (value === '') return undefined;
+    const time = new Date(startTime);
+    const [hours, minutes] = value.split(':').map(Number);
+    time.setHours(hours, minutes, 0, 0);
+    return time.getTime();
+  };
+  const from = at(form.from);
+  let until = at(form.until);
+  if (from !== undefined && until !== undefined && until <= from) until += 24 * 60 * 60000;
+
+  return {
+    edgeId: form.edgeId,
+    kind: form.kind,
+    ...(form.kind === 'one-way' ? { towards: form.towards as NodeId } : {}),
+    ...(form.kind === 'limited' ? { openShare: form.openPercent / 100 } : {}),
+    from,
+    until,
+  };
+}
+
+/** When a closure applies, e.g. "05:00–09:00" or "All day". */
+export function describeClosureWindow(closure: RouteClosure) {
+  if (closure.from === undefined && closure.until === undefined) return 'All day';
+  if (closure.until === undefined) return `From ${timeOfDay(closure.from)}`;
+  if (closure.from === undefined) return `Until ${timeOfDay(closure.until)}`;
+  return `${timeOfDay(closure.from)}–${timeOfDay(closure.until)}`;
+}
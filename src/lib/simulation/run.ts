@@ -0,0 +1,78 @@
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { SUBSTEP_SECONDS, createSimulation, readZoneFlows, stepSimulation } from './engine';
+import type { SimulationParams } from './params';
+
+export interface RunOptions {
+  durationMinutes: number;
+  sampleEveryMinutes: number;
+}
+
+export interface RunSample {
+  time: number;
+  counts: Record<ZoneId, number>;
+}
+
+export interface ZonePeak {
+  count: number;
+  time: number;
+  minutesAtCapacity: number;
+}
+
+export interface RunResult {
+  params: SimulationParams;
+  samples: RunSample[];
+  peaks: Record<ZoneId, ZonePeak>;
+}
+
+/**
+ * Runs the crowd model to completion without touching the live store.
+ * Given the same params (including the seed) the result is identical.
+ */
+export function runSimulation(params: SimulationParams, options: RunOptions): RunResult {
+  const sim = createSimulation(params);
+  const capacity = (zoneId: ZoneId) =>
+    params.zoneCapacities[zoneId] ?? ZONES.find((zone) => zone.id === zoneId)!.capacity;
+
+  const samples: RunSample[] = [];
+  const peaks = Object.fromEntries(
+    ZONES.map((zone) => [zone.id, { count: 0, time: params.startTime, minutesAtCapacity: 0 }])
+  ) as Record<ZoneId, ZonePeak>;
+
+  // Peaks follow every substep of the model, so a surge between samples still counts
+  const trackPeaks = () => {
+    ZONES.forEach((zone) => {
+      const count = (sim.zoneLoad.get(zone.id) ?? 0) * params.agentScale;
+      const peak = peaks[zone.id];
+      if (count > peak.count) {
+        peak.count = count;
+        peak.time = sim.time;
+      }
+    });
+  };
+
+  const record = () => {
+    const flows = readZoneFlows(sim);
+    const counts = Object.fromEntries(
+      ZONES.map((zone) => [zone.id, flows.get(zone.id)!.count])
+    ) as Record<ZoneId, number>;
+    samples.push({ time: sim.time, counts });
+    return counts;
+  };
+
+  trackPeaks();
+  record();
+  for (let minute = 0; minute < options.durationMinutes; minute += options.sampleEveryMinutes) {
+    for (let seconds = 0; seconds < options.sampleEveryMinutes * 60; seconds += SUBSTEP_SECONDS) {
+      stepSimulation(sim, Math.min(SUBSTEP_SECONDS, options.sampleEveryMinutes * 60 - seconds));
+      trackPeaks();
+    }
+    const counts = record();
+    ZONES.forEach((zone) => {
+      if (counts[zone.id] >= capacity(zone.id)) {
+        peaks[zone.id].minutesAtCapacity += options.sampleEveryMinutes;
+      }
+    });
+  }
+
+  return { params, samples, peaks };
+}
@@ -0,0 +1,257 @@
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { publishCrowdReading, type CrowdReading } from '@/lib/crowd/store';
+import {
+  getObservedBucket,
+  observedParticles,
+  type ObservedDataset,
+} from '@/lib/crowd/observations';
+import { getClockState, onClockTick, resetClock, setClockRunning } from './clock';
+import {
+  createSimulation,
+  readEdgeDensities,
+  readZoneFlows,
+  sampleParticles,
+  stepSimulation,
+  type Simulation,
+} from './engine';
+import { createDefaultParams, type RouteClosure, type SimulationParams } from './params';
+import { scenarioToParams, type Scenario } from './scenarios';
+
+export type SimulationStatus = 'running' | 'paused' | 'stopped';
+// Where the views' crowd counts come from: the agent model, or a recorded dataset replayed on the clock
+export type DataSource = 'model' | 'observed';
+
+export interface RunSummary {
+  startedAt: number;
+  endedAt: number;
+  ticks: number;
+  peakTotal: number;
+  peaks: Record<ZoneId, { count: number; time: number }>;
+}
+
+export interface RuntimeState {
+  status: SimulationStatus;
+  source: DataSource;
+  observations: ObservedDataset | null;
+  params: SimulationParams;
+  // Preset or saved scenario the parameters came from, until they are edited
+  scenario: Pick<Scenario, 'id' | 'name'> | null;
+  summary: RunSummary;
+}
+
+type Listener = (state: RuntimeState) => void;
+
+const PARTICLE_LIMIT = 300;
+
+const listeners: Listener[] = [];
+
+function createSummary(startedAt: number): RunSummary {
+  return {
+    startedAt,
+    endedAt: startedAt,
+    ticks: 0,
+    peakTotal: 0,
+    peaks: Object.fromEntries(
+      ZONES.map((zone) => [zone.id, { count: 0, time: startedAt }])
+    ) as RunSummary['peaks'],
+  };
+}
+
+const initialParams = createDefaultParams(getClockState().time);
+
+let simulation: Simulation = createSimulation(initialParams);
+
+let memoryState: RuntimeState = {
+  status: getClockState().running ? 'running' : 'paused',
+  source: 'model',
+  observations: null,
+  params: initialParams,
+  scenario: null,
+  summary: createSummary(initialParams.startTime),
+};
+
+function emit(state: RuntimeState) {
+  memoryState = state;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Hands a reading to the crowd store and folds it into the run summary
+function record(reading: CrowdReading, restart: boolean) {
+  const { tick, timestamp, counts } = reading;
+  publishCrowdReading(reading, restart);
+
+  const summary = restart ? createSummary(timestamp) : { ...memoryState.summary };
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  summary.endedAt = timestamp;
+  summary.ticks = tick;
+  summary.peakTotal = Math.max(summary.peakTotal, total);
+  summary.peaks = { ...summary.peaks };
+  counts.forEach((count, zoneId) => {
+    if (count > summary.peaks[zoneId].count) {
+      summary.peaks[zoneId] = { count, time: timestamp };
+    }
+  });
+  emit({ ...memoryState, summary });
+}
+
+function publishModel(tick: number, restart: boolean) {
+  const flows = readZoneFlows(simulation);
+  const counts = new Map(Array.from(flows, ([zoneId, flow]) => [zoneId, flow.count]));
+  record(
+    {
+      tick,
+      timestamp: simulation.time,
+      counts,
+      flows: restart ? undefined : flows,
+      particles: sampleParticles(simulation, PARTICLE_LIMIT),
+      edgeDensities: readEdgeDensities(simulation),
+    },
+    restart
+  );
+}
+
+// Replays the recorded bucket in effect at `time`; the run ends once the data runs out
+function publishObserved(dataset: ObservedDataset, tick: number, time: number, restart: boolean) {
+  const bucket = getObservedBucket(dataset, time) ?? dataset.buckets[0];
+  record(
+    { tick, timestamp: time, counts: new Map(bucket.counts), particles: observedParticles(bucket) },
+    restart
+  );
+  if (time >= dataset.end + dataset.bucketMinutes * 60000) {
+    stopSimulation();
+  }
+}
+
+function publish(tick: number, restart: boolean) {
+  const { observations } = memoryState;
+  if (memoryState.source === 'observed' && observations) {
+    publishObserved(observations, tick, getClockState().time, restart);
+  } else {
+    publishModel(tick, restart);
+  }
+}
+
+publish(0, true);
+
+onClockTick((stepSeconds, clock) => {
+  if (memoryState.status !== 'running') return;
+  if (memoryState.source === 'model') {
+    stepSimulation(simulation, stepSeconds);
+  }
+  publish(clock.tick, false);
+});
+
+export function getRuntimeState() {
+  return memoryState;
+}
+
+export function subscribeToRuntime(listener: Listener) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/** Restores the initial population and rewinds the clock to the start of the run. */
+export function resetSimulation() {
+  const { params, source, observations } = memoryState;
+  simulation = createSimulation(params);
+  resetClock(source === 'observed' && observations ? observations.start : params.startTime);
+  const status = memoryState.status === 'stopped' ? 'paused' : memoryState.status;
+  emit({ ...memoryState, status });
+  publish(0, true);
+}
+
+export function startSimulation() {
+  if (memoryState.status === 'stopped') {
+    resetSimulation();
+  }
+  emit({ ...memoryState, status: 'running' });
+  setClockRunning(true);
+}
+
+export function pauseSimulation() {
+  if (memoryState.status !== 'running') return;
+  setClockRunning(false);
+  emit({ ...memoryState, status: 'paused' });
+}
+
+export function toggleSimulation() {
+  if (memoryState.status === 'running') {
+    pauseSimulation();
+  } else {
+    startSimulation();
+  }
+}
+
+/** Ends the run; the final state and summary stay on screen until the next start or reset. */
+export function stopSimulation() {
+  setClockRunning(false);
+  emit({ ...memoryState, status: 'stopped' });
+}
+
+/** Replaces the model parameters and restarts the run from its initial state. */
+export function applySimulationParams(changes: Partial<SimulationParams>) {
+  emit({ ...memoryState, source: 'model', params: { ...memoryState.params, ...changes }, scenario: null });
+  resetSimulation();
+}
+
+/**
+ * Changes conditions mid-run without restarting it; the crowd model follows
+ * them from its next step. The initial population only counts from the next reset.
+ */
+export function updateSimulationParams(
+  changes: Partial<Pick<SimulationParams, 'weather' | 'arrivalsPerHour' | 'initialPopulation' | 'closures'>>
+) {
+  const params = { ...memoryState.params, ...changes };
+  simulation.params = params;
+  emit({ ...memoryState, params, scenario: null });
+}
+
+/** Puts new road closures in force without restarting the run; the crowd model follows them from its next step. */
+export function setRouteClosures(closures: RouteClosure[]) {
+  updateSimulationParams({ closures });
+}
+
+/** Moves the run to start at another hour of the same day, keeping timed events relative to it. */
+export function setSimulationStartHour(hour: number) {
+  const { params } = memoryState;
+  const start = new Date(params.startTime);
+  start.setHours(hour, 0, 0, 0);
+  const shift = start.getTime() - params.startTime;
+  const moved = (time?: number) => (time === undefined ? undefined : time + shift);
+  applySimulationParams({
+    startTime: start.getTime(),
+    pulses: params.pulses.map((pulse) => ({ ...pulse, at: pulse.at + shift })),
+    closures: params.closures.map((closure) => ({
+      ...closure,
+      from: moved(closure.from),
+      until: moved(closure.until),
+    })),
+  });
+}
+
+/** Loads a scenario on the current day, or on `day`, and restarts the run from it. */
+export function applyScenario(scenario: Scenario, day = memoryState.params.startTime) {
+  const params = scenarioToParams(scenario, day);
+  emit({ ...memoryState, source: 'model', params, scenario: { id: scenario.id, name: scenario.name } });
+  resetSimulation();
+}
+
+/** Switches the views to a recorded dataset, replayed from its first bucket on the clock. */
+export function loadObservations(dataset: ObservedDataset) {
+  setClockRunning(false);
+  emit({ ...memoryState, status: 'paused', source: 'observed', observations: dataset });
+  resetSimulation();
+}
+
+/** Returns the views to the crowd model, keeping the loaded dataset for later. */
+export function switchToModel() {
+  emit({ ...memoryState, source: 'model' });
+  resetSimulation();
+}
@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import { ZONES, type ZoneId } from '@/lib/crowd/zones';
+import { createScheduleProfile } from './conditions';
+import { EDGES, NODES, type NodeId } from './network';
+import {
+  createDefaultParams,
+  toSimulationConfig,
+  type ClosureKind,
+  type RouteClosure,
+  type SimulationConfig,
+  type SimulationParams,
+} from './params';
+
+export const SCENARIO_VERSION = 1;
+
+const STORAGE_KEY = 'kumbh-flow.scenarios';
+
+export type ScenarioEvent =
+  | { type: 'surge'; atMinute: number; durationMinutes: number; count: number; zoneId: ZoneId; decayMinutes?: number }
+  | {
+      type: 'closure';
+      atMinute: number;
+      durationMinutes: number;
+      edgeId: string;
+      // One-way and narrowed roads; a plain closure when not given
+      kind?: ClosureKind;
+      towards?: NodeId;
+      openShare?: number;
+    };
+
+export interface Scenario {
+  version: typeof SCENARIO_VERSION;
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  totalPilgrims: number;
+  startHour: number;
+  // Multiplier on the base arrival rate for each hour of the day, 0-23
+  arrivalProfile: number[];
+  weather: number;
+  closedRoutes: string[];
+  events: ScenarioEvent[];
+  // Everything else needed to reproduce the run exactly
+  config?: Omit<SimulationConfig, 'initialPopulation'>;
+}
+
+const zoneIds = ZONES.map((zone) => zone.id) as [ZoneId, ...ZoneId[]];
+const edgeIds = EDGES.map((edge) => edge.id) as [string, ...string[]];
+const nodeIds = NODES.map((node) => node.id) as [NodeId, ...NodeId[]];
+
+const eventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('surge'),
+    atMinute: z.number().min(0),
+    durationMinutes: z.number().positive(),
+    count: z.number().int().positive(),
+    zoneId: z.enum(zoneIds),
+    decayMinutes: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('closure'),
+    atMinute: z.number().min(0),
+    durationMinutes: z.number().positive(),
+    edgeId: z.enum(edgeIds),
+    kind: z.enum(['closed', 'one-way', 'limited']).optional(),
+    towards: z.enum(nodeIds).optional(),
+    openShare: z.number().gt(0).max(1).optional(),
+  }),
+]);
+
+export const scenarioSchema = z.object({
+  version: z.literal(SCENARIO_VERSION),
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Scenario needs a name').max(80),
+  description: z.string().max(500).default(''),
+  totalPilgrims: z.number().int().min(0).max(5000000),
+  startHour: z.number().int().min(0).max(23),
+  arrivalProfile: z.array(z.number().min(0).max(20)).length(24),
+  weather: z.number().min(0).max(100),
+  closedRoutes: z.array(z.enum(edgeIds)),
+  events: z.array(eventSchema),
+  config: z
+    .object({
+      seed: z.number().int().min(0),
+      arrivalsPerHour: z.number().min(0),
+      walkingSpeed: z.object({ mean: z.number().positive(), sd: z.number().min(0) }),
+      zoneCapacities: z.record(z.enum(zoneIds), z.number().int().positive()),
+    })
+    .optional(),
+});
+
+// Hourly arrival multipliers; pilgrims come in waves around the bathing and Aarti hours
+const EVENING_PEAK_PROFILE = [
+  0.2, 0.2, 0.3, 0.5, 0.9, 1, 1, 0.9, 0.8, 0.8, 0.8, 0.8,
+  0.8, 0.9, 1.1, 1.4, 1.9, 2.2, 2.2, 1.6, 1, 0.6, 0.4, 0.3,
+];
+const FESTIVAL_PROFILE = [
+  0.6, 0.8, 1.4, 2.4, 3, 2.8, 2.2, 1.8, 1.5, 1.3, 1.2, 1.1,
+  1.1, 1.1, 1.2, 1.4, 1.8, 2, 2, 1.5, 1.1, 0.8, 0.7, 0.6,
+];
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    version: SCENARIO_VERSION,
+    id: 'peak-hours',
+    name: 'Peak Hours',
+    description: 'Evening Aarti rush converging on Ramkund and Godavari Ghat.',
+    builtIn: true,
+    totalPilgrims: 180000,
+    startHour: 16,
+    arrivalProfile: EVENING_PEAK_PROFILE,
+    weather: 30,
+    closedRoutes: [],
+    events: [
+      { type: 'surge', atMinute: 60, durationMinutes: 90, count: 60000, zoneId: 'ramkund-ghat' },
+      { type: 'surge', atMinute: 90, durationMinutes: 60, count: 30000, zoneId: 'godavari-ghat' },
+    ],
+  },
+  {
+    version: SCENARIO_VERSION,
+    id: 'emergency',
+    name: 'Emergency',
+    description: 'Heavy rain with Ramkund Bridge closed and a late closure on the Riverside Walk.',
+    builtIn: true,
+    totalPilgrims: 150000,
+    startHour: 14,
+    arrivalProfile: EVENING_PEAK_PROFILE,
+    weather: 95,
+    closedRoutes: ['ramkund-bridge'],
+    events: [
+      { type: 'closure', atMinute: 30, durationMinutes: 120, edgeId: 'riverside-walk' },
+      { type: 'surge', atMinute: 0, durationMinutes: 60, count: 40000, zoneId: 'triveni-sangam' },
+    ],
+  },
+  {
+    version: SCENARIO_VERSION,
+    id: 'normal-day',
+    name: 'Normal Day',
+    description: 'An ordinary Mela day with steady arrivals and clear weather.',
+    builtIn: true,
+    totalPilgrims: 80000,
+    startHour: 8,
+    arrivalProfile: createScheduleProfile().map((value) => value * 0.6),
+    weather: 15,
+    closedRoutes: [],
+    events: [],
+  },
+  {
+    version: SCENARIO_VERSION,
+    id: 'festival-day',
+    name: 'Festival Day',
+    description: 'A Shahi Snan morning: Brahma Muhurta bathing surge at every major ghat.',
+    builtIn: true,
+    totalPilgrims: 200000,
+    startHour: 3,
+    arrivalProfile: FESTIVAL_PROFILE,
+    weather: 20,
+    closedRoutes: [],
+    events: [
+      { type: 'surge', atMinute: 60, durationMinutes: 120, count: 100000, zoneId: 'ramkund-ghat' },
+      { type: 'surge', atMinute: 60, durationMinutes: 120, count: 120000, zoneId: 'triveni-sangam' },
+      { type: 'surge', atMinute: 90, durationMinutes: 120, count: 60000, zoneId: 'godavari-ghat' },
+    ],
+  },
+];
+
+export function getBuiltInScenario(id: string) {
+  return BUILT_IN_SCENARIOS.find((scenario) => scenario.id === id);
+}
+
+/** Turns a scenario into model parameters for a run starting on the given day. */
+export function scenarioToParams(scenario: Scenario, day: number): SimulationParams {
+  const start = new Date(day);
+  start.setHours(scenario.startHour, 0, 0, 0);
+  const startTime = start.getTime();
+  const at = (minute: number) => startTime + minute * 60000;
+
+  return {
+    ...createDefaultParams(startTime),
+    ...scenario.config,
+    initialPopulation: scenario.totalPilgrims,
+    arrivalProfile: [...scenario.arrivalProfile],
+    weather: scenario.weather,
+    pulses: scenario.events.flatMap((event) =>
+      event.type === 'surge'
+        ? [
+            {
+              at: at(event.atMinute),
+              durationMinutes: event.durationMinutes,
+              count: event.count,
+              destination: event.zoneId,
+              decayMinutes: event.decayMinutes,
+            },
+          ]
+        : []
+    ),
+    closures: [
+      ...scenario.closedRoutes.map((edgeId) => ({ edgeId })),
+      ...scenario.events.flatMap((event): RouteClosure[] =>
+        event.type === 'closure'
+          ? [
+              {
+                edgeId: event.edgeId,
+                kind: event.kind,
+                towards: event.towards,
+                openShare: event.openShare,
+                from: at(event.atMinute),
+                until: at(event.atMinute + event.durationMinutes),
+              },
+            ]
+          : []
+      ),
+    ],
+  };
+}
+
+// Closed all day with no other restriction, as listed in a scenario's closedRoutes
+function isPlainClosure(closure: RouteClosure) {
+  return (closure.kind ?? 'closed') === 'closed' && closure.from === undefined && closure.until === undefined;
+}
+
+/** Captures the parameters of the current run as a scenario that reproduces it. */
+export function paramsToScenario(params: SimulationParams, name: string, description = ''): Scenario {
+  const minuteOf = (time: number) => Math.max(0, Math.round((time - params.startTime) / 60000));
+  const { initialPopulation, ...config } = toSimulationConfig(params);
+
+  return {
+    version: SCENARIO_VERSION,
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    description,
+    totalPilgrims: initialPopulation,
+    startHour: new Date(params.startTime).getHours(),
+    arrivalProfile: [...params.arrivalProfile],
+    weather: params.weather,
+    closedRoutes: params.closures.filter(isPlainClosure).map((closure) => closure.edgeId),
+    events: [
+      ...params.pulses.map((pulse) => ({
+        type: 'surge' as const,
+        atMinute: minuteOf(pulse.at),
+        durationMinutes: pulse.durationMinutes,
+        count: pulse.count,
+        zoneId: pulse.destination ?? 'ramkund-ghat',
+        ...(pulse.decayMinutes ? { decayMinutes: pulse.decayMinutes } : {}),
+      })),
+      ...params.closures
+        .filter((closure) => !isPlainClosure(closure))
+        .map((closure) => {
+          const from = closure.from ?? params.startTime;
+          return {
+            type: 'closure' as const,
+            atMinute: minuteOf(from),
+            durationMinutes: closure.until !== undefined ? Math.round((closure.until - from) / 60000) : 24 * 60,
+            edgeId: closure.edgeId,
+            ...(closure.kind && closure.kind !== 'closed' ? { kind: closure.kind } : {}),
+            ...(closure.towards ? { towards: closure.towards } : {}),
+            ...(closure.openShare !== undefined ? { openShare: closure.openShare } : {}),
+          };
+        }),
+    ],
+    config,
+  };
+}
+
+/**
+ * Validates scenario JSON from a file or storage. Accepts a single scenario
+ * or an array, and rejects versions this build does not understand.
+ */
+export function parseScenarios(json: string): Scenario[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const items = Array.isArray(data) ? data : [data];
+  return items.map((item, index) => {
+    const version = (item as { version?: unknown })?.version;
+    if (version !== SCENARIO_VERSION) {
+      throw new Error(`Scenario ${index + 1} has unsupported version ${String(version)}`);
+    }
+    const result = scenarioSchema.safeParse(item);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Scenario ${index + 1}: ${issue.path.join('.') || 'value'} - ${issue.message}`);
+    }
+    return { ...(result.data as Scenario), builtIn: false };
+  });
+}
+
+export function loadSavedScenarios(): Scenario[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseScenarios(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedScenarios(scenarios: Scenario[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
+
+/** Saves or replaces scenarios by id; imported scenarios with clashing ids overwrite older copies. */
+export function saveScenarios(scenarios: Scenario[]) {
+  const saved = loadSavedScenarios();
+  const ids = new Set(scenarios.map((scenario) => scenario.id));
+  const next = [...saved.filter((scenario) => !ids.has(scenario.id)), ...scenarios];
+  writeSavedScenarios(next);
+  return next;
+}
+
+export function deleteScenario(id: string) {
+  const next = loadSavedScenarios().filter((scenario) => scenario.id !== id);
+  writeSavedScenarios(next);
+  return next;
+}
+
+export function exportScenarios(scenarios: Scenario[], filename: string) {
+  const exported = scenarios.map(({ builtIn, ...scenario }) => scenario);
+  const blob = new Blob([JSON.stringify(exported.length === 1 ? exported[0] : exported, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,53 @@
+import type { EvacuationPlan } from './engine';
+import type { EvacuationOptions, EvacuationResult } from './evacuation';
+import type { SimulationParams } from './params';
+import type { RunOptions, RunResult } from './run';
+
+type WorkerJob =
+  | { kind: 'run'; params: SimulationParams; options: RunOptions }
+  | { kind: 'evacuation'; params: SimulationParams; plan: EvacuationPlan; options: EvacuationOptions };
+
+export type WorkerRequest = WorkerJob & { id: number };
+
+export type WorkerResponse<T = unknown> =
+  | { id: number; result: T; error?: undefined }
+  | { id: number; error: string; result?: undefined };
+
+let nextRequestId = 0;
+
+function postToWorker<T>(job: WorkerJob): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../../workers/simulation.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const request: WorkerRequest = { id: nextRequestId++, ...job };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse<T>>) => {
+      worker.terminate();
+      if (event.data.error !== undefined) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.result);
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/** Runs a headless simulation in a dedicated Web Worker. */
+export function runInWorker(params: SimulationParams, options: RunOptions): Promise<RunResult> {
+  return postToWorker({ kind: 'run', params, options });
+}
+
+/** Runs a headless evacuation in a dedicated Web Worker. */
+export function runEvacuationInWorker(
+  params: SimulationParams,
+  plan: EvacuationPlan,
+  options: EvacuationOptions
+): Promise<EvacuationResult> {
+  return postToWorker({ kind: 'evacuation', params, plan, options });
+}
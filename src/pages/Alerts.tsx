@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, Download } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import AlertDetailDrawer from '@/components/AlertDetailDrawer';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useSimulationClock } from '@/hooks/use-simulation-clock';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { toggleSimulation } from '@/lib/simulation/runtime';
+import { ZONES, getZone } from '@/lib/crowd/zones';
+import type { Alert, AlertStatus } from '@/lib/alerts/engine';
+import { exportAlertsCsv } from '@/lib/alerts/export';
+import { SEVERITIES, formatMetric } from '@/lib/alerts/rules';
+
+type SortKey = 'raisedAt' | 'zone' | 'severity' | 'status' | 'duration';
+
+const PAGE_SIZE = 15;
+
+const STATUSES: AlertStatus[] = ['active', 'acknowledged', 'resolved'];
+const STATUS_ORDER: Record<AlertStatus, number> = { active: 0, acknowledged: 1, resolved: 2 };
+
+// Windows of simulated time before now; null shows every alert
+const TIME_RANGES: { value: string; label: string; minutes: number | null }[] = [
+  { value: 'all', label: 'All time', minutes: null },
+  { value: '15m', label: 'Last 15 minutes', minutes: 15 },
+  { value: '1h', label: 'Last hour', minutes: 60 },
+  { value: '6h', label: 'Last 6 hours', minutes: 360 },
+  { value: '24h', label: 'Last 24 hours', minutes: 1440 }
+];
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-red-200 text-red-900 border-red-300';
+    case 'high': return 'bg-red-100 text-red-800 border-red-200';
+    case 'medium': return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'low': return 'bg-blue-100 text-blue-800 border-blue-200';
+    default: return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${Math.round(minutes)} min` : `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+
+// Page numbers to show: the first, the last and the current page's neighbours, with null for a gap
+const pageWindow = (page: number, pages: number) => {
+  const shown = Array.from({ length: pages }, (_, index) => index).filter(
+    index => index === 0 || index === pages - 1 || Math.abs(index - page) <= 1
+  );
+  return shown.flatMap((index, i) => (i > 0 && index - shown[i - 1] > 1 ? [null, index] : [index]));
+};
+
+interface SortableHeadProps {
+  sortKey: SortKey;
+  sort: { key: SortKey; descending: boolean };
+  onSort: (key: SortKey) => void;
+  children: React.ReactNode;
+}
+
+const SortableHead = ({ sortKey, sort, onSort, children }: SortableHeadProps) => {
+  const Icon = sort.key !== sortKey ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+  return (
+    <TableHead>
+      <button className="flex items-center gap-1 hover:text-foreground" onClick={() => onSort(sortKey)}>
+        {children}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+};
+
+const Alerts = () => {
+  const navigate = useNavigate();
+  const alerts = useAlerts();
+  const clock = useSimulationClock();
+  const { status } = useSimulationRuntime();
+  const [severity, setSeverity] = useState('all');
+  const [zoneId, setZoneId] = useState('all');
+  const [alertStatus, setAlertStatus] = useState('all');
+  const [timeRange, setTimeRange] = useState('all');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'raisedAt', descending: true });
+  const [page, setPage] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const durationOf = (alert: Alert) => ((alert.resolvedAt ?? clock.time) - alert.raisedAt) / 60000;
+
+  const filtered = alerts.filter(alert => {
+    const range = TIME_RANGES.find(option => option.value === timeRange)?.minutes ?? null;
+    return (
+      (severity === 'all' || alert.severity === severity) &&
+      (zoneId === 'all' || alert.zoneId === zoneId) &&
+      (alertStatus === 'all' || alert.status === alertStatus) &&
+      (range === null || alert.raisedAt >= clock.time - range * 60000)
+    );
+  });
+
+  const sorted = [...filtered].sort((a, b) => {
+    let order = 0;
+    switch (sort.key) {
+      case 'raisedAt': order = a.raisedAt - b.raisedAt; break;
+      case 'zone': order = getZone(a.zoneId).name.localeCompare(getZone(b.zoneId).name); break;
+      case 'severity': order = SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity); break;
+      case 'status': order = STATUS_ORDER[a.status] - STATUS_ORDER[b.status]; break;
+      case 'duration': order = durationOf(a) - durationOf(b); break;
+    }
+    return (sort.descending ? -order : order) || b.raisedAt - a.raisedAt;
+  });
+
+  const pages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pages - 1);
+  const rows = sorted.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const selected = alerts.find(alert => alert.id === selectedId) ?? null;
+
+  // Any filter change starts again from the first page
+  const filterBy = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : true }));
+  };
+
+  const handleExport = () => {
+    exportAlertsCsv(sorted, `kumbh-alerts-${new Date(clock.time).toISOString().slice(0, 16).replace(':', '')}.csv`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        isSimulationRunning={status === 'running'}
+        onToggleSimulation={toggleSimulation}
+        onTabChange={(tab) => navigate('/', { state: { tab } })}
+      />
+
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-kumbh-spiritual-blue">
+                <AlertTriangle className="h-6 w-6" />
+                Alert History
+                <Badge variant="secondary" className="ml-2">
+                  {filtered.length} of {alerts.length}
+                </Badge>
+              </CardTitle>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={sorted.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Select value={severity} onValueChange={filterBy(setSeverity)}>
+                <SelectTrigger aria-label="Severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  {SEVERITIES.map(option => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={zoneId} onValueChange={filterBy(setZoneId)}>
+                <SelectTrigger aria-label="Zone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All zones</SelectItem>
+                  {ZONES.map(zone => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={alertStatus} onValueChange={filterBy(setAlertStatus)}>
+                <SelectTrigger aria-label="Status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {STATUSES.map(option => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={timeRange} onValueChange={filterBy(setTimeRange)}>
+                <SelectTrigger aria-label="Time range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_RANGES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableHead sort={sort} onSort={handleSort} sortKey="raisedAt">Raised</SortableHead>
+                  <TableHead>Rule</TableHead>
+                  <SortableHead sort={sort} onSort={handleSort} sortKey="zone">Zone</SortableHead>
+                  <SortableHead sort={sort} onSort={handleSort} sortKey="severity">Severity</SortableHead>
+                  <SortableHead sort={sort} onSort={handleSort} sortKey="status">Status</SortableHead>
+                  <TableHead>Peak</TableHead>
+                  <SortableHead sort={sort} onSort={handleSort} sortKey="duration">Duration</SortableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No alerts match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {rows.map(alert => (
+                  <TableRow key={alert.id} className="cursor-pointer" onClick={() => setSelectedId(alert.id)}>
+                    <TableCell>{new Date(alert.raisedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</TableCell>
+                    <TableCell className="font-medium">{alert.title}</TableCell>
+                    <TableCell>{getZone(alert.zoneId).name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${getSeverityColor(alert.severity)}`}>
+                        {alert.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="capitalize">{alert.status}</TableCell>
+                    <TableCell>{formatMetric(alert.metric, alert.peakValue)}</TableCell>
+                    <TableCell>{formatDuration(durationOf(alert))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {pages > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={(event) => {
+                        event.preventDefault();
+                        setPage(Math.max(0, currentPage - 1));
+                      }}
+                    />
+                  </PaginationItem>
+                  {pageWindow(currentPage, pages).map((index, i) => (
+                    <PaginationItem key={index ?? `gap-${i}`}>
+                      {index === null ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink
+                          href="#"
+                          isActive={index === currentPage}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            setPage(index);
+                          }}
+                        >
+                          {index + 1}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={(event) => {
+                        event.preventDefault();
+                        setPage(Math.min(pages - 1, currentPage + 1));
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDetailDrawer alert={selected} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </div>
+  );
+};
+
+export default Alerts;
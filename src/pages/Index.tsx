@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Navigation from '@/components/Navigation';
 import HeroSection from '@/components/HeroSection';
@@ -10,13 +11,41 @@ import AIAssistant from '@/components/AIAssistant';
 import Simulation3D from '@/components/3DSimulation';
 import PilgrimageSchedule from '@/components/PilgrimageSchedule';
 import EmergencyInfo from '@/components/EmergencyInfo';
+import AlertRulesPanel from '@/components/AlertRulesPanel';
+import IncidentsPanel from '@/components/IncidentsPanel';
+import UnitRoster from '@/components/UnitRoster';
+import WhatIfAnalysis from '@/components/WhatIfAnalysis';
+import EvacuationPlanner from '@/components/EvacuationPlanner';
+import ScenarioManager from '@/components/ScenarioManager';
+import BathDayPlanner from '@/components/BathDayPlanner';
+import ScenarioComparison from '@/components/ScenarioComparison';
+import BatchRunner from '@/components/BatchRunner';
+import DataSourcePanel from '@/components/DataSourcePanel';
+import DensityThresholdsPanel from '@/components/DensityThresholdsPanel';
+import RoadRulesPanel from '@/components/RoadRulesPanel';
+import PlaybackTimeline from '@/components/PlaybackTimeline';
+import CrowdMap from '@/components/CrowdMap';
+import { useSimulationRuntime } from '@/hooks/use-simulation-runtime';
+import { toggleSimulation } from '@/lib/simulation/runtime';
+import type { ZoneId } from '@/lib/crowd/zones';
 
 const Index = () => {
-  const [isSimulationRunning, setIsSimulationRunning] = useState(true);
-  const [activeTab, setActiveTab] = useState("overview");
+  const { status } = useSimulationRuntime();
+  const isSimulationRunning = status === 'running';
+  const location = useLocation();
+  // Other pages link back to a tab through the navigation state
+  const [activeTab, setActiveTab] = useState<string>(location.state?.tab ?? "overview");
+  const [selectedZoneId, setSelectedZoneId] = useState<ZoneId | null>(null);
+
+  // Links within the page, e.g. showing a planned route on the map, switch tabs the same way
+  useEffect(() => {
+    if (location.state?.tab) {
+      setActiveTab(location.state.tab);
+    }
+  }, [location.state]);
 
   const handleToggleSimulation = () => {
-    setIsSimulationRunning(!isSimulationRunning);
+    toggleSimulation();
   };
 
   const handleTabChange = (tab: string) => {
@@ -43,6 +72,8 @@ const Index = () => {
             <TabsTrigger value="emergency">Emergency</TabsTrigger>
           </TabsList>
 
+          <PlaybackTimeline />
+
           <TabsContent value="overview" className="space-y-8">
             <HeroSection />
             <CrowdDashboard />
@@ -57,30 +88,22 @@ const Index = () => {
               isRunning={isSimulationRunning}
               onToggle={handleToggleSimulation}
             />
+            <DataSourcePanel />
+            <DensityThresholdsPanel />
+            <RoadRulesPanel />
             <Simulation3D />
+            <ScenarioManager />
+            <ScenarioComparison />
+            <BatchRunner />
+            <BathDayPlanner />
+            <WhatIfAnalysis />
+            <EvacuationPlanner />
           </TabsContent>
 
           <TabsContent value="heatmap" className="space-y-6">
-  {/* This is your original component */}
-  <HeatMapVisualization />
-
-  {/* This new div and iframe adds your map */}
-  <div style={{ 
-      border: '1px solid #27272a', 
-      borderRadius: '8px', 
-      overflow: 'hidden'
-  }}>
-    <iframe
-      title="Kumbh Flow Map"
-      src="/map.html"
-      style={{ 
-        width: '100%', 
-        height: '75vh',
-        border: 'none' 
-      }}
-    ></iframe>
-  </div>
-</TabsContent>
+            <HeatMapVisualization selectedZoneId={selectedZoneId} onSelectZone={setSelectedZoneId} />
+            <CrowdMap selectedZoneId={selectedZoneId} onSelectZone={setSelectedZoneId} />
+          </TabsContent>
 
           <TabsContent value="prediction">
             <RiskPrediction />
@@ -97,6 +120,9 @@ const Index = () => {
 
           <TabsContent value="emergency" className="space-y-6">
             <EmergencyInfo />
+            <IncidentsPanel />
+            <UnitRoster />
+            <AlertRulesPanel />
             <PilgrimageSchedule />
           </TabsContent>
         </Tabs>
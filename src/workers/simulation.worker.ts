@@ -0,0 +1,21 @@
+import { runEvacuation } from '@/lib/simulation/evacuation';
+import { runSimulation } from '@/lib/simulation/run';
+import type { WorkerRequest, WorkerResponse } from '@/lib/simulation/worker-client';
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  let response: WorkerResponse;
+  try {
+    response = {
+      id,
+      result:
+        request.kind === 'evacuation'
+          ? runEvacuation(request.params, request.plan, request.options)
+          : runSimulation(request.params, request.options),
+    };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};